@@ -51,7 +51,7 @@ import {
   buildAccountMetas,
 } from "../src/abi/accounts.js";
 import { deriveVaultAuthority, deriveLpPda } from "../src/solana/pda.js";
-import { parseHeader, parseConfig, parseEngine, parseUsedIndices } from "../src/solana/slab.js";
+import { parseHeader, parseConfig, parseEngine, parseUsedIndices, SLAB_SIZE } from "../src/solana/slab.js";
 import { buildIx } from "../src/runtime/tx.js";
 
 // ============================================================================
@@ -66,11 +66,6 @@ const PROGRAM_ID = new PublicKey("2SSnp35m7FQ7cRLNKGdW5UzjYFF6RBUNq7d3m5mqNByp")
 const MATCHER_PROGRAM_ID = new PublicKey("4HcGCsyjAqnFua5ccuXyt8KRRQzKFbGTJkVChpS7Yfzy");
 const MATCHER_CTX_SIZE = 320;
 
-// Market parameters
-// SLAB_SIZE = ENGINE_OFF(392) + ENGINE_ACCOUNTS_OFF(9128) + MAX_ACCOUNTS(4096) * ACCOUNT_SIZE(240)
-// Updated for circuit breaker + padding removal
-const SLAB_SIZE = 992560;
-
 // Funding amounts (in lamports with 9 decimals for wrapped SOL)
 const INSURANCE_FUND_AMOUNT = 1_000_000_000n;  // 1 SOL
 const LP_COLLATERAL_AMOUNT = 1_000_000_000n;   // 1 SOL
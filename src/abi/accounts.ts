@@ -213,6 +213,15 @@ export const ACCOUNTS_PUSH_ORACLE_PRICE: readonly AccountSpec[] = [
   { name: "slab", signer: false, writable: true },
 ] as const;
 
+/**
+ * SetOraclePriceCap: 2 accounts
+ * Sets the oracle price circuit breaker (admin only)
+ */
+export const ACCOUNTS_SET_ORACLE_PRICE_CAP: readonly AccountSpec[] = [
+  { name: "admin", signer: true, writable: false },
+  { name: "slab", signer: false, writable: true },
+] as const;
+
 /**
  * ResolveMarket: 2 accounts
  * Resolves a binary/premarket (admin only)
@@ -0,0 +1,402 @@
+import { PublicKey, VersionedMessage, MessageAccountKeys } from "@solana/web3.js";
+import {
+  IX_TAG,
+  InitMarketArgs,
+  InitUserArgs,
+  InitLPArgs,
+  DepositCollateralArgs,
+  WithdrawCollateralArgs,
+  KeeperCrankArgs,
+  TradeNoCpiArgs,
+  LiquidateAtOracleArgs,
+  CloseAccountArgs,
+  TopUpInsuranceArgs,
+  TradeCpiArgs,
+  SetRiskThresholdArgs,
+  UpdateAdminArgs,
+  UpdateConfigArgs,
+  SetMaintenanceFeeArgs,
+  SetOracleAuthorityArgs,
+  PushOraclePriceArgs,
+  SetOraclePriceCapArgs,
+} from "./instructions.js";
+import {
+  AccountSpec,
+  ACCOUNTS_INIT_MARKET,
+  ACCOUNTS_INIT_USER,
+  ACCOUNTS_INIT_LP,
+  ACCOUNTS_DEPOSIT_COLLATERAL,
+  ACCOUNTS_WITHDRAW_COLLATERAL,
+  ACCOUNTS_KEEPER_CRANK,
+  ACCOUNTS_TRADE_NOCPI,
+  ACCOUNTS_LIQUIDATE_AT_ORACLE,
+  ACCOUNTS_CLOSE_ACCOUNT,
+  ACCOUNTS_TOPUP_INSURANCE,
+  ACCOUNTS_TRADE_CPI,
+  ACCOUNTS_SET_RISK_THRESHOLD,
+  ACCOUNTS_UPDATE_ADMIN,
+  ACCOUNTS_CLOSE_SLAB,
+  ACCOUNTS_UPDATE_CONFIG,
+  ACCOUNTS_SET_MAINTENANCE_FEE,
+  ACCOUNTS_SET_ORACLE_AUTHORITY,
+  ACCOUNTS_PUSH_ORACLE_PRICE,
+  ACCOUNTS_SET_ORACLE_PRICE_CAP,
+  ACCOUNTS_RESOLVE_MARKET,
+  ACCOUNTS_WITHDRAW_INSURANCE,
+} from "./accounts.js";
+
+/**
+ * Instruction account with its name from the AccountSpec ordering.
+ * Keys beyond the spec are labelled remaining[n].
+ */
+export interface DecodedAccount {
+  name: string;
+  pubkey: PublicKey;
+  signer: boolean;
+  writable: boolean;
+}
+
+type Decoded<N extends keyof typeof IX_TAG, A> = {
+  name: N;
+  tag: (typeof IX_TAG)[N];
+  args: A;
+  accounts: DecodedAccount[];
+};
+
+/**
+ * A decoded Percolator instruction, discriminated on name.
+ * Args use the same interfaces as the encoders, with bigint and PublicKey values.
+ */
+export type DecodedInstruction =
+  | Decoded<"InitMarket", InitMarketArgs>
+  | Decoded<"InitUser", InitUserArgs>
+  | Decoded<"InitLP", InitLPArgs>
+  | Decoded<"DepositCollateral", DepositCollateralArgs>
+  | Decoded<"WithdrawCollateral", WithdrawCollateralArgs>
+  | Decoded<"KeeperCrank", KeeperCrankArgs>
+  | Decoded<"TradeNoCpi", TradeNoCpiArgs>
+  | Decoded<"LiquidateAtOracle", LiquidateAtOracleArgs>
+  | Decoded<"CloseAccount", CloseAccountArgs>
+  | Decoded<"TopUpInsurance", TopUpInsuranceArgs>
+  | Decoded<"TradeCpi", TradeCpiArgs>
+  | Decoded<"SetRiskThreshold", SetRiskThresholdArgs>
+  | Decoded<"UpdateAdmin", UpdateAdminArgs>
+  | Decoded<"CloseSlab", Record<string, never>>
+  | Decoded<"UpdateConfig", UpdateConfigArgs>
+  | Decoded<"SetMaintenanceFee", SetMaintenanceFeeArgs>
+  | Decoded<"SetOracleAuthority", SetOracleAuthorityArgs>
+  | Decoded<"PushOraclePrice", PushOraclePriceArgs>
+  | Decoded<"SetOraclePriceCap", SetOraclePriceCapArgs>
+  | Decoded<"ResolveMarket", Record<string, never>>
+  | Decoded<"WithdrawInsurance", Record<string, never>>;
+
+/**
+ * Account ordering for each instruction tag.
+ */
+export const ACCOUNT_SPECS: Record<number, readonly AccountSpec[]> = {
+  [IX_TAG.InitMarket]: ACCOUNTS_INIT_MARKET,
+  [IX_TAG.InitUser]: ACCOUNTS_INIT_USER,
+  [IX_TAG.InitLP]: ACCOUNTS_INIT_LP,
+  [IX_TAG.DepositCollateral]: ACCOUNTS_DEPOSIT_COLLATERAL,
+  [IX_TAG.WithdrawCollateral]: ACCOUNTS_WITHDRAW_COLLATERAL,
+  [IX_TAG.KeeperCrank]: ACCOUNTS_KEEPER_CRANK,
+  [IX_TAG.TradeNoCpi]: ACCOUNTS_TRADE_NOCPI,
+  [IX_TAG.LiquidateAtOracle]: ACCOUNTS_LIQUIDATE_AT_ORACLE,
+  [IX_TAG.CloseAccount]: ACCOUNTS_CLOSE_ACCOUNT,
+  [IX_TAG.TopUpInsurance]: ACCOUNTS_TOPUP_INSURANCE,
+  [IX_TAG.TradeCpi]: ACCOUNTS_TRADE_CPI,
+  [IX_TAG.SetRiskThreshold]: ACCOUNTS_SET_RISK_THRESHOLD,
+  [IX_TAG.UpdateAdmin]: ACCOUNTS_UPDATE_ADMIN,
+  [IX_TAG.CloseSlab]: ACCOUNTS_CLOSE_SLAB,
+  [IX_TAG.UpdateConfig]: ACCOUNTS_UPDATE_CONFIG,
+  [IX_TAG.SetMaintenanceFee]: ACCOUNTS_SET_MAINTENANCE_FEE,
+  [IX_TAG.SetOracleAuthority]: ACCOUNTS_SET_ORACLE_AUTHORITY,
+  [IX_TAG.PushOraclePrice]: ACCOUNTS_PUSH_ORACLE_PRICE,
+  [IX_TAG.SetOraclePriceCap]: ACCOUNTS_SET_ORACLE_PRICE_CAP,
+  [IX_TAG.ResolveMarket]: ACCOUNTS_RESOLVE_MARKET,
+  [IX_TAG.WithdrawInsurance]: ACCOUNTS_WITHDRAW_INSURANCE,
+};
+
+/**
+ * Instruction data field types. bytes32 is a raw 32-byte value decoded as hex
+ * (the Pyth feed ID); bool is a u8 that must be 0 or 1 on encode.
+ */
+export type ArgType = "u8" | "u16" | "u32" | "u64" | "i64" | "u128" | "i128" | "bool" | "pubkey" | "bytes32";
+
+export interface ArgField {
+  name: string;
+  type: ArgType;
+}
+
+const DEPOSIT_WITHDRAW_ARGS: readonly ArgField[] = [
+  { name: "userIdx", type: "u16" },
+  { name: "amount", type: "u64" },
+];
+
+const TRADE_ARGS: readonly ArgField[] = [
+  { name: "lpIdx", type: "u16" },
+  { name: "userIdx", type: "u16" },
+  { name: "size", type: "i128" },
+];
+
+/**
+ * Data fields for each instruction tag, after the tag byte.
+ * Field order mirrors the encode* functions in instructions.ts.
+ */
+export const INSTRUCTION_ARGS: Record<number, readonly ArgField[]> = {
+  [IX_TAG.InitMarket]: [
+    { name: "admin", type: "pubkey" },
+    { name: "collateralMint", type: "pubkey" },
+    { name: "indexFeedId", type: "bytes32" },
+    { name: "maxStalenessSecs", type: "u64" },
+    { name: "confFilterBps", type: "u16" },
+    { name: "invert", type: "u8" },
+    { name: "unitScale", type: "u32" },
+    { name: "initialMarkPriceE6", type: "u64" },
+    { name: "warmupPeriodSlots", type: "u64" },
+    { name: "maintenanceMarginBps", type: "u64" },
+    { name: "initialMarginBps", type: "u64" },
+    { name: "tradingFeeBps", type: "u64" },
+    { name: "maxAccounts", type: "u64" },
+    { name: "newAccountFee", type: "u128" },
+    { name: "riskReductionThreshold", type: "u128" },
+    { name: "maintenanceFeePerSlot", type: "u128" },
+    { name: "maxCrankStalenessSlots", type: "u64" },
+    { name: "liquidationFeeBps", type: "u64" },
+    { name: "liquidationFeeCap", type: "u128" },
+    { name: "liquidationBufferBps", type: "u64" },
+    { name: "minLiquidationAbs", type: "u128" },
+  ],
+  [IX_TAG.InitUser]: [{ name: "feePayment", type: "u64" }],
+  [IX_TAG.InitLP]: [
+    { name: "matcherProgram", type: "pubkey" },
+    { name: "matcherContext", type: "pubkey" },
+    { name: "feePayment", type: "u64" },
+  ],
+  [IX_TAG.DepositCollateral]: DEPOSIT_WITHDRAW_ARGS,
+  [IX_TAG.WithdrawCollateral]: DEPOSIT_WITHDRAW_ARGS,
+  [IX_TAG.KeeperCrank]: [
+    { name: "callerIdx", type: "u16" },
+    { name: "allowPanic", type: "bool" },
+  ],
+  [IX_TAG.TradeNoCpi]: TRADE_ARGS,
+  [IX_TAG.LiquidateAtOracle]: [{ name: "targetIdx", type: "u16" }],
+  [IX_TAG.CloseAccount]: [{ name: "userIdx", type: "u16" }],
+  [IX_TAG.TopUpInsurance]: [{ name: "amount", type: "u64" }],
+  [IX_TAG.TradeCpi]: TRADE_ARGS,
+  [IX_TAG.SetRiskThreshold]: [{ name: "newThreshold", type: "u128" }],
+  [IX_TAG.UpdateAdmin]: [{ name: "newAdmin", type: "pubkey" }],
+  [IX_TAG.CloseSlab]: [],
+  [IX_TAG.UpdateConfig]: [
+    { name: "fundingHorizonSlots", type: "u64" },
+    { name: "fundingKBps", type: "u64" },
+    { name: "fundingInvScaleNotionalE6", type: "u128" },
+    { name: "fundingMaxPremiumBps", type: "i64" },
+    { name: "fundingMaxBpsPerSlot", type: "i64" },
+    { name: "threshFloor", type: "u128" },
+    { name: "threshRiskBps", type: "u64" },
+    { name: "threshUpdateIntervalSlots", type: "u64" },
+    { name: "threshStepBps", type: "u64" },
+    { name: "threshAlphaBps", type: "u64" },
+    { name: "threshMin", type: "u128" },
+    { name: "threshMax", type: "u128" },
+    { name: "threshMinStep", type: "u128" },
+  ],
+  [IX_TAG.SetMaintenanceFee]: [{ name: "newFee", type: "u128" }],
+  [IX_TAG.SetOracleAuthority]: [{ name: "newAuthority", type: "pubkey" }],
+  [IX_TAG.PushOraclePrice]: [
+    { name: "priceE6", type: "u64" },
+    { name: "timestamp", type: "i64" },
+  ],
+  [IX_TAG.SetOraclePriceCap]: [{ name: "maxChangeE2bps", type: "u64" }],
+  [IX_TAG.ResolveMarket]: [],
+  [IX_TAG.WithdrawInsurance]: [],
+};
+
+/**
+ * Sequential little-endian reader over instruction data.
+ * Each read checks bounds so truncated data fails with the field name.
+ */
+class Reader {
+  private off = 1; // skip tag
+
+  constructor(private readonly data: Buffer, private readonly ixName: string) {}
+
+  private take(len: number, field: string): number {
+    if (this.off + len > this.data.length) {
+      throw new Error(
+        `${this.ixName}: data too short reading ${field} (need ${this.off + len} bytes, got ${this.data.length})`
+      );
+    }
+    const at = this.off;
+    this.off += len;
+    return at;
+  }
+
+  u8(field: string): number {
+    return this.data.readUInt8(this.take(1, field));
+  }
+
+  u16(field: string): number {
+    return this.data.readUInt16LE(this.take(2, field));
+  }
+
+  u32(field: string): number {
+    return this.data.readUInt32LE(this.take(4, field));
+  }
+
+  u64(field: string): bigint {
+    return this.data.readBigUInt64LE(this.take(8, field));
+  }
+
+  i64(field: string): bigint {
+    return this.data.readBigInt64LE(this.take(8, field));
+  }
+
+  u128(field: string): bigint {
+    const at = this.take(16, field);
+    const lo = this.data.readBigUInt64LE(at);
+    const hi = this.data.readBigUInt64LE(at + 8);
+    return (hi << 64n) | lo;
+  }
+
+  i128(field: string): bigint {
+    const unsigned = this.u128(field);
+    return unsigned >= 1n << 127n ? unsigned - (1n << 128n) : unsigned;
+  }
+
+  pubkey(field: string): PublicKey {
+    const at = this.take(32, field);
+    return new PublicKey(this.data.subarray(at, at + 32));
+  }
+
+  hex32(field: string): string {
+    const at = this.take(32, field);
+    return this.data.subarray(at, at + 32).toString("hex");
+  }
+
+  /**
+   * Reject trailing bytes the encoder would never have produced.
+   */
+  end(): void {
+    if (this.off !== this.data.length) {
+      throw new Error(
+        `${this.ixName}: expected ${this.off} bytes of data, got ${this.data.length}`
+      );
+    }
+  }
+}
+
+/**
+ * Name the instruction's accounts from its AccountSpec ordering.
+ */
+function labelAccounts(spec: readonly AccountSpec[], keys: PublicKey[]): DecodedAccount[] {
+  return keys.map((pubkey, i) =>
+    i < spec.length
+      ? { name: spec[i].name, pubkey, signer: spec[i].signer, writable: spec[i].writable }
+      : { name: `remaining[${i - spec.length}]`, pubkey, signer: false, writable: false }
+  );
+}
+
+/**
+ * Read one field of the given type.
+ */
+function readArg(r: Reader, field: ArgField): unknown {
+  switch (field.type) {
+    case "u8": return r.u8(field.name);
+    case "u16": return r.u16(field.name);
+    case "u32": return r.u32(field.name);
+    case "u64": return r.u64(field.name);
+    case "i64": return r.i64(field.name);
+    case "u128": return r.u128(field.name);
+    case "i128": return r.i128(field.name);
+    case "bool": return r.u8(field.name) !== 0;
+    case "pubkey": return r.pubkey(field.name);
+    case "bytes32": return r.hex32(field.name);
+  }
+}
+
+/**
+ * Decode the args for one instruction from its INSTRUCTION_ARGS fields.
+ */
+function decodeArgs(tag: number, r: Reader): DecodedInstruction["args"] {
+  const fields = INSTRUCTION_ARGS[tag];
+  if (!fields) {
+    throw new Error(`Unknown instruction tag: ${tag}`);
+  }
+  const args: Record<string, unknown> = {};
+  for (const field of fields) {
+    args[field.name] = readArg(r, field);
+  }
+  return args as DecodedInstruction["args"];
+}
+
+/**
+ * Name for an instruction tag, or undefined if the tag is unknown.
+ */
+export function instructionName(tag: number): keyof typeof IX_TAG | undefined {
+  return (Object.keys(IX_TAG) as (keyof typeof IX_TAG)[]).find((k) => IX_TAG[k] === tag);
+}
+
+/**
+ * Decode Percolator instruction data and label its accounts.
+ * Inverse of the encode* functions in instructions.ts.
+ * Throws on an unknown tag or data of the wrong length.
+ */
+export function decodeInstruction(data: Buffer | Uint8Array, keys: PublicKey[]): DecodedInstruction {
+  const buf = Buffer.from(data);
+  if (buf.length === 0) {
+    throw new Error("Empty instruction data");
+  }
+  const tag = buf[0];
+  const name = instructionName(tag);
+  if (name === undefined) {
+    throw new Error(`Unknown instruction tag: ${tag}`);
+  }
+
+  const reader = new Reader(buf, name);
+  const args = decodeArgs(tag, reader);
+  reader.end();
+
+  return {
+    name,
+    tag,
+    args,
+    accounts: labelAccounts(ACCOUNT_SPECS[tag], keys),
+  } as DecodedInstruction;
+}
+
+/**
+ * A top-level instruction from a transaction message. Percolator instructions
+ * carry either the decoded form or the decode error; others only the program ID.
+ */
+export interface MessageInstruction {
+  index: number;
+  programId: PublicKey;
+  decoded?: DecodedInstruction;
+  error?: string;
+}
+
+/**
+ * Decode each top-level instruction in a message addressed to the Percolator program.
+ * accountKeys must include any lookup table entries the message loads.
+ */
+export function decodeMessageInstructions(
+  programId: PublicKey,
+  message: VersionedMessage,
+  accountKeys: MessageAccountKeys
+): MessageInstruction[] {
+  return message.compiledInstructions.map((ix, index) => {
+    const ixProgram = accountKeys.get(ix.programIdIndex)!;
+    const entry: MessageInstruction = { index, programId: ixProgram };
+    if (!ixProgram.equals(programId)) return entry;
+
+    const keys = ix.accountKeyIndexes.map((i) => accountKeys.get(i)!);
+    try {
+      entry.decoded = decodeInstruction(Buffer.from(ix.data), keys);
+    } catch (e) {
+      entry.error = e instanceof Error ? e.message : String(e);
+    }
+    return entry;
+  });
+}
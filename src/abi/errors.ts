@@ -1,8 +1,9 @@
 /**
- * Percolator program error definitions.
+ * Error definitions for Percolator and the programs it calls, and decoding of
+ * failed transactions back to the program and instruction that failed.
  * Each error includes a name and actionable guidance.
  */
-interface ErrorInfo {
+export interface ErrorInfo {
   name: string;
   hint: string;
 }
@@ -136,25 +137,369 @@ export function getErrorHint(code: number): string | undefined {
 }
 
 /**
- * Parse error from transaction logs.
- * Looks for "Program ... failed: custom program error: 0x..."
+ * SPL Token (and Token-2022) TokenError codes.
  */
-export function parseErrorFromLogs(logs: string[]): {
-  code: number;
+export const TOKEN_ERRORS: Record<number, ErrorInfo> = {
+  0: {
+    name: "NotRentExempt",
+    hint: "Token account is not rent-exempt. Fund it with enough SOL for rent.",
+  },
+  1: {
+    name: "InsufficientFunds",
+    hint: "Token balance too low. Check your collateral ATA balance (e.g. 'spl-token balance <mint>').",
+  },
+  2: {
+    name: "InvalidMint",
+    hint: "Invalid mint. Check the collateral mint is a valid SPL token mint.",
+  },
+  3: {
+    name: "MintMismatch",
+    hint: "Token account is for a different mint. Use your ATA for the market's collateral mint.",
+  },
+  4: {
+    name: "OwnerMismatch",
+    hint: "Token account is not owned by the signer. Use your own ATA or pass the right --wallet.",
+  },
+  5: {
+    name: "FixedSupply",
+    hint: "The mint has a fixed supply and cannot mint more tokens.",
+  },
+  6: {
+    name: "AlreadyInUse",
+    hint: "Token account is already initialized.",
+  },
+  7: {
+    name: "InvalidNumberOfProvidedSigners",
+    hint: "Wrong number of multisig signers provided.",
+  },
+  8: {
+    name: "InvalidNumberOfRequiredSigners",
+    hint: "Wrong number of required multisig signers.",
+  },
+  9: {
+    name: "UninitializedState",
+    hint: "Token account is not initialized. Create your ATA for the collateral mint first.",
+  },
+  10: {
+    name: "NativeNotSupported",
+    hint: "Instruction does not support native (wrapped SOL) tokens.",
+  },
+  11: {
+    name: "NonNativeHasBalance",
+    hint: "Non-native token account still holds a balance.",
+  },
+  12: {
+    name: "InvalidInstruction",
+    hint: "Invalid token instruction. This is likely a CLI bug - please report it.",
+  },
+  13: {
+    name: "InvalidState",
+    hint: "Token account is in an invalid state.",
+  },
+  14: {
+    name: "Overflow",
+    hint: "Token amount overflow. Try a smaller amount.",
+  },
+  15: {
+    name: "AuthorityTypeNotSupported",
+    hint: "Authority type not supported for this account.",
+  },
+  16: {
+    name: "MintCannotFreeze",
+    hint: "The mint has no freeze authority.",
+  },
+  17: {
+    name: "AccountFrozen",
+    hint: "Token account is frozen by the mint's freeze authority.",
+  },
+  18: {
+    name: "MintDecimalsMismatch",
+    hint: "Decimals do not match the mint's decimals.",
+  },
+  19: {
+    name: "NonNativeNotSupported",
+    hint: "Instruction only supports native (wrapped SOL) tokens.",
+  },
+};
+
+/**
+ * System program SystemError codes.
+ */
+export const SYSTEM_ERRORS: Record<number, ErrorInfo> = {
+  0: {
+    name: "AccountAlreadyInUse",
+    hint: "Account already exists. Use a fresh keypair for new accounts (e.g. the slab).",
+  },
+  1: {
+    name: "ResultWithNegativeLamports",
+    hint: "Not enough SOL. Fund the paying wallet (e.g. 'solana airdrop 1' on devnet).",
+  },
+  2: {
+    name: "InvalidProgramId",
+    hint: "Cannot assign the account to the requested program.",
+  },
+  3: {
+    name: "InvalidAccountDataLength",
+    hint: "Requested account size is invalid.",
+  },
+  4: {
+    name: "MaxSeedLengthExceeded",
+    hint: "Seed is too long.",
+  },
+  5: {
+    name: "AddressWithSeedMismatch",
+    hint: "Derived address does not match the seed.",
+  },
+  6: {
+    name: "NonceNoRecentBlockhashes",
+    hint: "No recent blockhashes available to advance the nonce. Retry shortly.",
+  },
+  7: {
+    name: "NonceBlockhashNotExpired",
+    hint: "The nonce was already advanced in this slot. Retry in the next slot.",
+  },
+  8: {
+    name: "NonceUnexpectedBlockhashValue",
+    hint: "Stored nonce doesn't match. Re-read it with 'solana nonce-account <pubkey>' and sign again.",
+  },
+};
+
+/**
+ * Built-in program failures a matcher returns, keyed by the message in
+ * "Program <id> failed: <message>". Matchers report these rather than custom
+ * codes (see "Adding Your Own Matcher" in the README).
+ */
+export const MATCHER_ERRORS: Record<string, ErrorInfo> = {
+  "missing required signature for instruction": {
+    name: "MissingRequiredSignature",
+    hint: "The matcher requires the LP PDA to sign. Check --lp-idx is the LP the matcher context was created for.",
+  },
+  "invalid account data for instruction": {
+    name: "InvalidAccountData",
+    hint: "Matcher context is not bound to this LP's PDA. Use the context created together with this LP.",
+  },
+  "invalid instruction data": {
+    name: "InvalidInstructionData",
+    hint: "The matcher rejected the call. It may not support this Percolator version.",
+  },
+  "account data too small for instruction": {
+    name: "AccountDataTooSmall",
+    hint: "Matcher context account is too small. It must be created with the matcher's context size.",
+  },
+  "incorrect program id for instruction": {
+    name: "IncorrectProgramId",
+    hint: "Matcher context is owned by a different program. Check --matcher-program and --matcher-context.",
+  },
+};
+
+// Programs with their own error tables (Token-2022 shares TokenError)
+const SYSTEM_PROGRAM = "11111111111111111111111111111111";
+const TOKEN_PROGRAMS = new Set([
+  "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA",
+  "TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb",
+]);
+const BUILTIN_PROGRAMS: Record<string, string> = {
+  [SYSTEM_PROGRAM]: "System",
+  TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA: "SPL Token",
+  TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb: "Token-2022",
+  ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL: "Associated Token",
+  ComputeBudget111111111111111111111111111111: "Compute Budget",
+  AddressLookupTab1e1111111111111111111111111: "Address Lookup Table",
+};
+
+const COMPUTE_EXHAUSTED = /exceeded CUs meter|Computational budget exceeded|exceeded maximum number of instructions/i;
+
+export type TxErrorKind =
+  | "program"            // A program returned an error
+  | "compute"            // Ran out of compute units
+  | "insufficientFunds"  // Not enough tokens or SOL (including for fees/rent)
+  | "transaction";       // Rejected before or outside any instruction
+
+/**
+ * A failed transaction, attributed to the program and instruction that failed.
+ */
+export interface TxError {
+  kind: TxErrorKind;
   name: string;
+  code?: number;             // Custom program error code
   hint?: string;
-} | null {
+  message: string;           // Raw failure text from the logs or RPC error
+  program?: string;          // Program that failed (innermost, for CPI failures)
+  programLabel?: string;     // "Percolator", "SPL Token", "Matcher", ...
+  instructionIndex?: number; // Top-level instruction, 0-based
+  depth?: number;            // Invoke depth: 1 = top-level, 2+ = CPI
+}
+
+/**
+ * Label for the program that failed, given the programs that called it.
+ * `programId` identifies Percolator; without it, a non-builtin program is taken
+ * to be Percolator at the top level and the matcher when another one called it.
+ */
+function labelProgram(program: string, callers: string[], programId?: string): string {
+  if (BUILTIN_PROGRAMS[program]) return BUILTIN_PROGRAMS[program];
+  if (programId !== undefined) {
+    if (program === programId) return "Percolator";
+    return callers.includes(programId) ? "Matcher" : program;
+  }
+  return callers.some((p) => !BUILTIN_PROGRAMS[p]) ? "Matcher" : "Percolator";
+}
+
+/**
+ * Look up a failure in the failing program's table.
+ */
+function describeFailure(
+  label: string,
+  program: string,
+  reason: string
+): Pick<TxError, "kind" | "name" | "code" | "hint"> {
+  if (COMPUTE_EXHAUSTED.test(reason)) {
+    return {
+      kind: "compute",
+      name: "ComputeBudgetExceeded",
+      hint: "Ran out of compute units. Raise the limit (e.g. --auto-compute-units) or split the transaction.",
+    };
+  }
+
+  const custom = reason.match(/custom program error: 0x([0-9a-fA-F]+)/);
+  if (custom) {
+    const code = parseInt(custom[1], 16);
+    let info: ErrorInfo | undefined;
+    if (TOKEN_PROGRAMS.has(program)) {
+      info = TOKEN_ERRORS[code];
+    } else if (program === SYSTEM_PROGRAM) {
+      info = SYSTEM_ERRORS[code];
+    } else if (label === "Percolator") {
+      info = PERCOLATOR_ERRORS[code];
+    }
+    const insufficient =
+      (TOKEN_PROGRAMS.has(program) && code === 1) || (program === SYSTEM_PROGRAM && code === 1);
+    return {
+      kind: insufficient ? "insufficientFunds" : "program",
+      name: info?.name ?? `Unknown(${code})`,
+      code,
+      hint: info?.hint,
+    };
+  }
+
+  const builtin = label === "Matcher" ? MATCHER_ERRORS[reason] : undefined;
+  return {
+    kind: /insufficient (funds|lamports)/i.test(reason) ? "insufficientFunds" : "program",
+    name: builtin?.name ?? reason,
+    hint: builtin?.hint,
+  };
+}
+
+/**
+ * Parse the first failure from transaction logs, following the invoke stack
+ * ("Program <id> invoke [n]" / "success" / "failed: ...") so the error is
+ * attributed to the program that raised it rather than a caller that passed it
+ * on, and to its top-level instruction.
+ */
+export function parseErrorFromLogs(logs: string[], programId?: string): TxError | null {
+  const stack: string[] = [];
+  let instructionIndex = -1;
+  let lastDetail: string | undefined;
+
   for (const log of logs) {
-    const match = log.match(/custom program error: 0x([0-9a-fA-F]+)/);
-    if (match) {
-      const code = parseInt(match[1], 16);
-      const info = decodeError(code);
+    const invoke = log.match(/^Program (\w+) invoke \[(\d+)\]/);
+    if (invoke) {
+      if (invoke[2] === "1") {
+        instructionIndex++;
+        stack.length = 0;
+      }
+      stack.push(invoke[1]);
+      lastDetail = undefined;
+      continue;
+    }
+    if (/^Program \w+ success$/.test(log)) {
+      stack.pop();
+      continue;
+    }
+    // Programs often log the cause just before failing (e.g. "Transfer: insufficient lamports ...")
+    const detail = log.match(/^Program log: (.*)$/) ?? log.match(/^(Transfer: .*)$/);
+    if (detail) {
+      lastDetail = detail[1];
+      continue;
+    }
+
+    const failed = log.match(/^Program (\w+) failed: (.*)$/) ?? log.match(/^Program failed to complete: (.*)$/);
+    if (failed) {
+      const program = failed.length === 3 ? failed[1] : stack[stack.length - 1];
+      const reason = failed[failed.length - 1];
+      const callers = stack.slice(0, Math.max(0, stack.lastIndexOf(program)));
+      const label = program !== undefined ? labelProgram(program, callers, programId) : "Unknown";
+      const failure = describeFailure(label, program ?? "", reason);
       return {
-        code,
-        name: info?.name ?? `Unknown(${code})`,
-        hint: info?.hint,
+        ...failure,
+        message: failure.kind === "insufficientFunds" && lastDetail ? `${reason} (${lastDetail})` : reason,
+        program,
+        programLabel: label,
+        instructionIndex: instructionIndex >= 0 ? instructionIndex : undefined,
+        depth: program !== undefined && stack.includes(program) ? stack.lastIndexOf(program) + 1 : undefined,
       };
     }
   }
   return null;
 }
+
+/**
+ * Decode a failed transaction from its RPC error and logs.
+ * Logs give the most precise attribution; the RPC error covers failures that
+ * leave none (fees, rent, blockhash) or logs that were truncated.
+ */
+export function decodeTxError(err: unknown, logs: string[], programId?: string): TxError {
+  const fromLogs = parseErrorFromLogs(logs, programId);
+  if (fromLogs) return fromLogs;
+
+  const message = JSON.stringify(err);
+  if (err !== null && typeof err === "object" && "InstructionError" in err) {
+    const [index, detail] = (err as { InstructionError: [number, unknown] }).InstructionError;
+    if (detail === "ComputationalBudgetExceeded" || detail === "ProgramFailedToComplete") {
+      return { ...describeFailure("Unknown", "", "Computational budget exceeded"), message, instructionIndex: index };
+    }
+    const code = detail !== null && typeof detail === "object" && "Custom" in detail
+      ? (detail as { Custom: number }).Custom
+      : undefined;
+    return {
+      kind: "program",
+      name: code !== undefined ? `Custom(${code})` : typeof detail === "string" ? detail : JSON.stringify(detail),
+      code,
+      message,
+      instructionIndex: index,
+    };
+  }
+
+  // Preflight failures only carry a message, e.g. "... Error processing Instruction 1: custom program error: 0x1"
+  if (typeof err === "string") {
+    const failed = err.match(/Instruction (\d+): (.*)$/);
+    if (failed) {
+      return { ...describeFailure("Unknown", "", failed[2]), message: err, instructionIndex: Number(failed[1]) };
+    }
+  }
+
+  const name =
+    typeof err === "string" ? err : err !== null && typeof err === "object" ? Object.keys(err)[0] ?? message : message;
+  if (
+    /^(InsufficientFundsForFee|InsufficientFundsForRent|AccountNotFound)$/.test(name) ||
+    /insufficient funds for fee|no record of a prior credit/i.test(name)
+  ) {
+    return {
+      kind: "insufficientFunds",
+      name,
+      message,
+      hint: "The fee payer has too little SOL (or doesn't exist yet). Fund it, e.g. 'solana airdrop 1' on devnet.",
+    };
+  }
+  return { kind: "transaction", name, message };
+}
+
+/**
+ * One-line summary of a decoded error, e.g. "SPL Token: InsufficientFunds (0x1) in instruction #2".
+ * Percolator errors are not prefixed.
+ */
+export function formatTxError(error: TxError): string {
+  const code = error.code !== undefined ? ` (0x${error.code.toString(16)})` : "";
+  const prefix = error.programLabel && error.programLabel !== "Percolator" ? `${error.programLabel}: ` : "";
+  const where = error.instructionIndex !== undefined ? ` in instruction #${error.instructionIndex}` : "";
+  return `${prefix}${error.name}${code}${where}`;
+}
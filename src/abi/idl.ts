@@ -0,0 +1,205 @@
+/**
+ * IDL export: an Anchor-style (0.30 spec) JSON description of the program,
+ * generated from the same definitions the CLI encodes and parses with.
+ * Codama's Anchor adapter reads it, so clients in other languages can be
+ * generated instead of copying tags, account orderings and slab offsets.
+ */
+
+import { IX_TAG } from "./instructions.js";
+import { ACCOUNT_SPECS, INSTRUCTION_ARGS, ArgType } from "./decode.js";
+import { PERCOLATOR_ERRORS } from "./errors.js";
+import { CURRENT_SLAB_LAYOUT, SlabLayout, writeHeader } from "../solana/slab.js";
+import { StructSchema } from "../solana/struct.js";
+
+/** Bump when the shape of the generated IDL changes */
+const IDL_VERSION = "0.1.0";
+/** Anchor IDL spec the output follows */
+const IDL_SPEC = "0.1.0";
+
+export type IdlType =
+  | ArgType
+  | { array: [IdlType, number] }
+  | { defined: { name: string } };
+
+export interface IdlField {
+  name: string;
+  type: IdlType;
+}
+
+export interface IdlInstruction {
+  name: string;
+  discriminator: number[];
+  accounts: { name: string; writable?: true; signer?: true }[];
+  args: IdlField[];
+}
+
+export interface IdlTypeDef {
+  name: string;
+  serialization: "bytemuck";
+  repr: { kind: "c" };
+  type: { kind: "struct"; fields: IdlField[] };
+}
+
+export interface Idl {
+  address?: string;
+  metadata: { name: string; version: string; spec: string; description: string };
+  instructions: IdlInstruction[];
+  accounts: { name: string; discriminator: number[] }[];
+  types: IdlTypeDef[];
+  errors: { code: number; name: string; msg: string }[];
+}
+
+/**
+ * camelCase / PascalCase to snake_case, keeping acronyms and unit suffixes
+ * together (InitLP -> init_lp, fundingKBps -> funding_k_bps, priceE6 -> price_e6).
+ */
+export function toSnakeCase(name: string): string {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, "$1_$2")
+    .replace(/([A-Z])([A-Z][a-z])/g, "$1_$2")
+    .toLowerCase();
+}
+
+function pascalCase(name: string): string {
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+function argType(type: ArgType): IdlType {
+  return type === "bytes32" ? { array: ["u8", 32] } : type;
+}
+
+function buildInstructions(): IdlInstruction[] {
+  return Object.entries(IX_TAG).map(([name, tag]) => ({
+    name: toSnakeCase(name),
+    discriminator: [tag],
+    accounts: ACCOUNT_SPECS[tag].map((spec) => ({
+      name: toSnakeCase(spec.name),
+      ...(spec.writable ? { writable: true as const } : {}),
+      ...(spec.signer ? { signer: true as const } : {}),
+    })),
+    args: INSTRUCTION_ARGS[tag].map((field) => ({
+      name: toSnakeCase(field.name),
+      type: argType(field.type),
+    })),
+  }));
+}
+
+/**
+ * Struct type definitions for the slab and everything nested in it.
+ * Padding becomes `_paddingN` byte arrays so every type keeps its on-chain size;
+ * the engine's params and used-bitmap regions are named, since the schema
+ * skips over them but clients need them.
+ */
+function buildTypes(layout: SlabLayout): IdlTypeDef[] {
+  const defs = new Map<string, IdlTypeDef>();
+  const names = new Map<StructSchema<unknown>, string>([
+    [layout.header as StructSchema<unknown>, "SlabHeader"],
+    [layout.config as StructSchema<unknown>, "MarketConfig"],
+    [layout.params as StructSchema<unknown>, "RiskParams"],
+    [layout.engine as StructSchema<unknown>, "EngineState"],
+    [layout.account as StructSchema<unknown>, "Account"],
+  ]);
+
+  // Registers the type before its fields, so types are listed parent first
+  const addType = (name: string): IdlField[] => {
+    const fields: IdlField[] = [];
+    defs.set(name, { name, serialization: "bytemuck", repr: { kind: "c" }, type: { kind: "struct", fields } });
+    return fields;
+  };
+
+  const define = (schema: StructSchema<unknown>, fallbackName: string): IdlType => {
+    const name = names.get(schema) ?? fallbackName;
+    if (defs.has(name)) return { defined: { name } };
+
+    const fields = addType(name);
+    let padding = 0;
+    for (const m of schema.members) {
+      if (m.name === null || m.type === null) {
+        if (schema === layout.engine && m.offset === layout.paramsOff) {
+          fields.push({ name: "params", type: define(layout.params as StructSchema<unknown>, "RiskParams") });
+        } else if (schema === layout.engine && m.offset === layout.bitmapOff) {
+          fields.push({ name: "used", type: { array: ["u64", m.size / 8] } });
+        } else {
+          fields.push({ name: `_padding${padding++}`, type: { array: ["u8", m.size] } });
+        }
+      } else if (typeof m.type === "string") {
+        fields.push({ name: toSnakeCase(m.name), type: m.type });
+      } else {
+        fields.push({ name: toSnakeCase(m.name), type: define(m.type, pascalCase(m.name)) });
+      }
+    }
+    return { defined: { name } };
+  };
+
+  const slab = addType("Slab");
+  slab.push(
+    { name: "header", type: define(layout.header as StructSchema<unknown>, "SlabHeader") },
+    { name: "config", type: define(layout.config as StructSchema<unknown>, "MarketConfig") },
+    { name: "engine", type: define(layout.engine as StructSchema<unknown>, "EngineState") }
+  );
+  // Free list (free_head, next_free) between the engine fields and the accounts
+  const gap = layout.accountsOff - layout.engine.size;
+  if (gap > 0) {
+    slab.push({ name: "_padding0", type: { array: ["u8", gap] } });
+  }
+  slab.push({
+    name: "accounts",
+    type: { array: [define(layout.account as StructSchema<unknown>, "Account"), layout.maxAccounts] },
+  });
+
+  return [...defs.values()];
+}
+
+/**
+ * Build the IDL for the current program version.
+ * `address` is the deployed program ID, when known.
+ */
+export function buildIdl(address?: string, layout: SlabLayout = CURRENT_SLAB_LAYOUT): Idl {
+  const header = Buffer.alloc(layout.header.size);
+  writeHeader(header, {});
+
+  return {
+    ...(address ? { address } : {}),
+    metadata: {
+      name: "percolator",
+      version: IDL_VERSION,
+      spec: IDL_SPEC,
+      description: `Percolator perpetuals (slab layout ${layout.name}, ${layout.slabLen} bytes)`,
+    },
+    instructions: buildInstructions(),
+    // The slab is identified by its magic, like an Anchor account discriminator
+    accounts: [{ name: "Slab", discriminator: [...header.subarray(0, 8)] }],
+    types: buildTypes(layout),
+    errors: Object.entries(PERCOLATOR_ERRORS).map(([code, info]) => ({
+      code: Number(code),
+      name: info.name,
+      msg: info.hint,
+    })),
+  };
+}
+
+/**
+ * Paths (e.g. `instructions[3].args[1].type`) where two IDLs differ.
+ */
+export function diffIdl(expected: unknown, actual: unknown, path = ""): string[] {
+  if (Array.isArray(expected) && Array.isArray(actual)) {
+    const diffs: string[] = [];
+    for (let i = 0; i < Math.max(expected.length, actual.length); i++) {
+      diffs.push(...diffIdl(expected[i], actual[i], `${path}[${i}]`));
+    }
+    return diffs;
+  }
+  if (isObject(expected) && isObject(actual)) {
+    const keys = new Set([...Object.keys(expected), ...Object.keys(actual)]);
+    const diffs: string[] = [];
+    for (const key of keys) {
+      diffs.push(...diffIdl(expected[key], actual[key], path ? `${path}.${key}` : key));
+    }
+    return diffs;
+  }
+  return expected === actual ? [] : [path || "(root)"];
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
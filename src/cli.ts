@@ -18,6 +18,7 @@ import { registerUpdateAdmin } from "./commands/update-admin.js";
 import { registerCloseSlab } from "./commands/close-slab.js";
 import { registerCloseAllSlabs } from "./commands/close-all-slabs.js";
 import { registerListMarkets } from "./commands/list-markets.js";
+import { registerMyAccounts } from "./commands/my-accounts.js";
 import { registerSlabGet } from "./commands/slab-get.js";
 import { registerSlabHeader } from "./commands/slab-header.js";
 import { registerSlabConfig } from "./commands/slab-config.js";
@@ -27,13 +28,29 @@ import { registerSlabParams } from "./commands/slab-params.js";
 import { registerSlabAccount } from "./commands/slab-account.js";
 import { registerSlabAccounts } from "./commands/slab-accounts.js";
 import { registerSlabBitmap } from "./commands/slab-bitmap.js";
+import { registerSlabRisk } from "./commands/slab-risk.js";
+import { registerFunding } from "./commands/funding.js";
+import { registerThresholdSimulate } from "./commands/threshold-simulate.js";
 import { registerAuditCu } from "./commands/audit-cu.js";
 import { registerBestPrice } from "./commands/best-price.js";
 import { registerUpdateConfig } from "./commands/update-config.js";
+import { registerSetMaintenanceFee } from "./commands/set-maintenance-fee.js";
+import { registerSetOraclePriceCap } from "./commands/set-oracle-price-cap.js";
 import { registerSetOracleAuthority } from "./commands/set-oracle-authority.js";
 import { registerPushOraclePrice } from "./commands/push-oracle-price.js";
 import { registerResolveMarket } from "./commands/resolve-market.js";
 import { registerWithdrawInsurance } from "./commands/withdraw-insurance.js";
+import { registerBatch } from "./commands/batch.js";
+import { registerAlt } from "./commands/alt.js";
+import { registerBroadcast } from "./commands/broadcast.js";
+import { registerTxDecode } from "./commands/tx-decode.js";
+import { registerAccountHistory } from "./commands/account-history.js";
+import { registerAccountHealth } from "./commands/account-health.js";
+import { registerAccountWarmup } from "./commands/account-warmup.js";
+import { registerAccountFees } from "./commands/account-fees.js";
+import { registerMarketImport } from "./commands/market-import.js";
+import { registerMarketList } from "./commands/market-list.js";
+import { registerIdl } from "./commands/idl.js";
 
 export function createCli(): Command {
   const program = new Command();
@@ -46,6 +63,7 @@ export function createCli(): Command {
   // Global options
   program
     .option("--config <path>", "Path to config file")
+    .option("--profile <name>", "Named profile from the config file")
     .option("--rpc <url>", "RPC URL override")
     .option("--program <pubkey>", "Program ID override")
     .option("--wallet <path>", "Wallet keypair path override")
@@ -54,7 +72,22 @@ export function createCli(): Command {
       "Commitment level: processed, confirmed, finalized"
     )
     .option("--json", "Output in JSON format")
-    .option("--simulate", "Simulate transaction without sending");
+    .option("--simulate", "Simulate transaction without sending")
+    .option(
+      "--priority-fee <auto|microlamports>",
+      "Compute unit price: 'auto' to estimate from recent fees, or micro-lamports per CU"
+    )
+    .option(
+      "--auto-compute-units",
+      "Simulate first and set the compute unit limit to the units consumed plus a margin"
+    )
+    .option("--lookup-table <pubkey>", "Address lookup table to compile v0 transactions against")
+    .option("--sign-only", "Sign with the local wallet and print the base64 transaction instead of sending")
+    .option("--nonce-account <pubkey>", "Use a durable nonce account instead of a recent blockhash")
+    .option("--nonce-authority <pubkey>", "Nonce authority (default: wallet)")
+    .option("--blockhash <hash>", "Blockhash or nonce value to use without querying the cluster (offline signing)")
+    .option("--fee-payer <pubkey>", "Fee payer when it is not the wallet (requires --sign-only)")
+    .option("--skip-preflight", "Send without first checking the slab, vault, token accounts and indices on chain");
 
   // Register all commands
   registerInitMarket(program);
@@ -73,6 +106,7 @@ export function createCli(): Command {
   registerCloseSlab(program);
   registerCloseAllSlabs(program);
   registerListMarkets(program);
+  registerMyAccounts(program);
   registerSlabGet(program);
   registerSlabHeader(program);
   registerSlabConfig(program);
@@ -82,9 +116,17 @@ export function createCli(): Command {
   registerSlabAccount(program);
   registerSlabAccounts(program);
   registerSlabBitmap(program);
+  registerSlabRisk(program);
+  registerFunding(program);
+  registerThresholdSimulate(program);
+  registerAccountHealth(program);
+  registerAccountWarmup(program);
+  registerAccountFees(program);
   registerAuditCu(program);
   registerBestPrice(program);
   registerUpdateConfig(program);
+  registerSetMaintenanceFee(program);
+  registerSetOraclePriceCap(program);
 
   // Binary market commands
   registerSetOracleAuthority(program);
@@ -92,6 +134,24 @@ export function createCli(): Command {
   registerResolveMarket(program);
   registerWithdrawInsurance(program);
 
+  // Multi-instruction transactions
+  registerBatch(program);
+  registerAlt(program);
+
+  // Offline signing
+  registerBroadcast(program);
+
+  // Transaction inspection
+  registerTxDecode(program);
+  registerAccountHistory(program);
+
+  // Market registry
+  registerMarketImport(program);
+  registerMarketList(program);
+
+  // Client generation
+  registerIdl(program);
+
   return program;
 }
 
@@ -102,11 +162,21 @@ export function getGlobalFlags(cmd: Command): GlobalFlags {
   const opts = cmd.optsWithGlobals();
   return {
     config: opts.config,
+    profile: opts.profile,
     rpc: opts.rpc,
     program: opts.program,
     wallet: opts.wallet,
     commitment: opts.commitment,
     json: opts.json ?? false,
     simulate: opts.simulate ?? false,
+    priorityFee: opts.priorityFee,
+    autoComputeUnits: opts.autoComputeUnits ?? false,
+    lookupTable: opts.lookupTable,
+    signOnly: opts.signOnly ?? false,
+    nonceAccount: opts.nonceAccount,
+    nonceAuthority: opts.nonceAuthority,
+    blockhash: opts.blockhash,
+    feePayer: opts.feePayer,
+    skipPreflight: opts.skipPreflight ?? false,
   };
 }
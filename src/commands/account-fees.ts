@@ -0,0 +1,202 @@
+import { Command } from "commander";
+import { getMint } from "@solana/spl-token";
+import { getGlobalFlags } from "../cli.js";
+import { loadConfig } from "../config.js";
+import { applyMarket } from "../market.js";
+import { createContext } from "../runtime/context.js";
+import {
+  fetchSlab,
+  parseConfig,
+  parseParams,
+  parseAccount,
+  parseAllAccounts,
+  isAccountUsed,
+  findUserIdx,
+  AccountKind,
+} from "../solana/slab.js";
+import { resolveMarketPrice } from "../solana/oracle.js";
+import { feeProjection } from "../fees.js";
+import { formatUnits, fromEngineUnits, formatSlotDuration, SLOT_MS } from "../units.js";
+import { validatePublicKey, validateIndex, validateU64 } from "../validation.js";
+
+export function registerAccountFees(program: Command): void {
+  program
+    .command("account:fees")
+    .description("Show accrued maintenance fees, fee credits or debt, and when fees will drain the capital")
+    .option("--market <name>", "Market from the registry (fills --slab, --oracle)")
+    .option("--slab <pubkey>", "Slab account public key")
+    .option("--idx <number>", "Account index (default: the wallet's only User account)")
+    .option("--within <hours>", "List every account whose capital runs out within this many hours")
+    .option("--oracle <pubkey>", "Price from this Pyth or Chainlink account (default: the market's last price)")
+    .option("--price <e6>", "Evaluate at this feed price in e6, before inversion and unit scaling")
+    .action(async (opts, cmd) => {
+      const flags = getGlobalFlags(cmd);
+      const config = loadConfig(flags);
+      applyMarket(opts, config, ["slab"], ["oracle"]);
+      const ctx = createContext(config);
+
+      const slabPk = validatePublicKey(opts.slab, "--slab");
+      let horizonSlots: bigint | undefined;
+      if (opts.within !== undefined) {
+        const hours = Number(opts.within);
+        if (!Number.isFinite(hours) || hours <= 0) {
+          throw new Error("--within must be a positive number of hours");
+        }
+        horizonSlots = BigInt(Math.ceil((hours * 60 * 60 * 1000) / SLOT_MS));
+      }
+
+      const [data, slot] = await Promise.all([fetchSlab(ctx.connection, slabPk), ctx.connection.getSlot()]);
+      const mktConfig = parseConfig(data);
+      const params = parseParams(data);
+      const resolvePrice = () =>
+        resolveMarketPrice(ctx.connection, mktConfig, {
+          feedPriceE6: opts.price !== undefined ? validateU64(opts.price, "--price") : undefined,
+          oracle: opts.oracle !== undefined ? validatePublicKey(opts.oracle, "--oracle") : undefined,
+        });
+      const now = BigInt(slot);
+
+      // When a projected slot falls, relative to now
+      const when = (target: bigint | null) =>
+        target === null ? "never" : target <= now ? "now" : `slot ${target} (${formatSlotDuration(target - now)})`;
+
+      if (horizonSlots !== undefined) {
+        // The capital projection needs no price; liquidation slots are shown when one is available
+        const explicitPrice = opts.price !== undefined || opts.oracle !== undefined;
+        const priceE6 = explicitPrice
+          ? (await resolvePrice()).enginePriceE6
+          : await resolvePrice().then((p) => p.enginePriceE6, () => null);
+        const deadline = now + horizonSlots;
+        const expiring = parseAllAccounts(data)
+          .map(({ idx, account }) => ({ idx, account, fees: feeProjection(account, params, priceE6, now) }))
+          .filter((a) => a.fees.capitalExhaustedSlot !== null && a.fees.capitalExhaustedSlot <= deadline)
+          .sort((a, b) => {
+            const slotA = a.fees.capitalExhaustedSlot ?? 0n;
+            const slotB = b.fees.capitalExhaustedSlot ?? 0n;
+            return slotA === slotB ? a.idx - b.idx : slotA < slotB ? -1 : 1;
+          });
+
+        if (flags.json) {
+          console.log(
+            JSON.stringify(
+              {
+                slab: slabPk.toBase58(),
+                slot: now.toString(),
+                maintenanceFeePerSlot: params.maintenanceFeePerSlot.toString(),
+                withinSlots: horizonSlots.toString(),
+                accounts: expiring.map((a) => ({
+                  idx: a.idx,
+                  kind: a.account.kind === AccountKind.LP ? "LP" : "User",
+                  owner: a.account.owner.toBase58(),
+                  capital: a.fees.capital.toString(),
+                  feeCredits: a.fees.feeCredits.toString(),
+                  positionSize: a.account.positionSize.toString(),
+                  capitalExhaustedSlot: a.fees.capitalExhaustedSlot?.toString() ?? null,
+                  liquidatableSlot: a.fees.liquidatableSlot?.toString() ?? null,
+                })),
+              },
+              null,
+              2
+            )
+          );
+          return;
+        }
+
+        const { decimals } = await getMint(ctx.connection, mktConfig.collateralMint);
+        const amount = (units: bigint) => formatUnits(fromEngineUnits(units, mktConfig.unitScale), decimals);
+
+        console.log(`--- Capital Running Out Within ${opts.within}h (${horizonSlots} slots) ---`);
+        console.log(`Maintenance Fee:         ${amount(params.maintenanceFeePerSlot)} per slot`);
+        console.log(`Accounts:                ${expiring.length}`);
+        console.log("");
+        if (expiring.length > 0) {
+          console.log(
+            `${"Idx".padStart(5)}  ${"Kind".padEnd(4)}  ${"Capital".padStart(16)}  ${"Fee Credits".padStart(16)}  ${"Runs Out".padEnd(28)}  Liquidatable`
+          );
+          for (const a of expiring) {
+            const kind = a.account.kind === AccountKind.LP ? "LP" : "User";
+            const liq =
+              a.account.positionSize === 0n
+                ? "flat (GC once empty)"
+                : priceE6 === null
+                  ? "-"
+                  : when(a.fees.liquidatableSlot);
+            console.log(
+              `${a.idx.toString().padStart(5)}  ${kind.padEnd(4)}  ${amount(a.fees.capital).padStart(16)}  ${amount(a.fees.feeCredits).padStart(16)}  ${when(a.fees.capitalExhaustedSlot).padEnd(28)}  ${liq}`
+            );
+          }
+          console.log("");
+        }
+        console.log("Capital and credits are shown after settling fees to now. Assumes no deposits, trades or price moves.");
+        return;
+      }
+
+      const idx =
+        opts.idx !== undefined ? validateIndex(opts.idx, "--idx") : findUserIdx(data, ctx.payer.publicKey, "--idx");
+      if (!isAccountUsed(data, idx)) {
+        if (flags.json) {
+          console.log(JSON.stringify({ error: "Account not in use", idx }, null, 2));
+        } else {
+          console.log(`Account ${idx} is not in use`);
+        }
+        process.exitCode = 1;
+        return;
+      }
+
+      const price = await resolvePrice();
+      const account = parseAccount(data, idx);
+      const fees = feeProjection(account, params, price.enginePriceE6, now);
+      const kindStr = account.kind === AccountKind.LP ? "LP" : "User";
+
+      if (flags.json) {
+        console.log(
+          JSON.stringify(
+            {
+              idx,
+              kind: kindStr,
+              slot: now.toString(),
+              maintenanceFeePerSlot: params.maintenanceFeePerSlot.toString(),
+              lastFeeSlot: account.lastFeeSlot.toString(),
+              capital: account.capital.toString(),
+              feeCredits: account.feeCredits.toString(),
+              accruedFees: fees.accrued.toString(),
+              settledCapital: fees.capital.toString(),
+              settledFeeCredits: fees.feeCredits.toString(),
+              paidFromCapital: fees.paidFromCapital.toString(),
+              capitalExhaustedSlot: fees.capitalExhaustedSlot?.toString() ?? null,
+              liquidatableSlot: fees.liquidatableSlot?.toString() ?? null,
+              gcEligibleWhenEmpty: account.positionSize === 0n,
+            },
+            null,
+            2
+          )
+        );
+        return;
+      }
+
+      const { decimals } = await getMint(ctx.connection, mktConfig.collateralMint);
+      const amount = (units: bigint) => formatUnits(fromEngineUnits(units, mktConfig.unitScale), decimals);
+
+      console.log(`--- Account ${idx} (${kindStr}) Maintenance Fees ---`);
+      console.log(`Fee per Slot:            ${amount(params.maintenanceFeePerSlot)}`);
+      console.log(`Last Fee Slot:           ${account.lastFeeSlot} (now ${now})`);
+      console.log(`Capital:                 ${amount(account.capital)}`);
+      console.log(`Fee Credits:             ${amount(account.feeCredits)}`);
+      console.log(`Accrued (unsettled):     ${amount(fees.accrued)}`);
+      console.log("");
+      console.log("--- After Settling to Now ---");
+      console.log(`Capital:                 ${amount(fees.capital)}${fees.paidFromCapital > 0n ? ` (${amount(fees.paidFromCapital)} paid from capital)` : ""}`);
+      console.log(
+        `Fee Credits:             ${fees.feeCredits < 0n ? `${amount(-fees.feeCredits)} DEBT (close-account is blocked)` : amount(fees.feeCredits)}`
+      );
+      console.log("");
+      console.log("--- Projection ---");
+      console.log(`Capital Runs Out:        ${when(fees.capitalExhaustedSlot)}`);
+      if (account.positionSize !== 0n) {
+        console.log(`Liquidatable:            ${when(fees.liquidatableSlot)} (at engine price ${formatUnits(price.enginePriceE6, 6)})`);
+      } else if (fees.capitalExhaustedSlot !== null) {
+        console.log("GC:                      flat, so the crank can free the slot once the capital is gone");
+      }
+      console.log("");
+      console.log("Assumes no deposits, trades or price moves.");
+    });
+}
@@ -0,0 +1,156 @@
+import { Command } from "commander";
+import { getMint } from "@solana/spl-token";
+import { getGlobalFlags } from "../cli.js";
+import { loadConfig } from "../config.js";
+import { applyMarket } from "../market.js";
+import { createContext } from "../runtime/context.js";
+import {
+  fetchSlab,
+  parseConfig,
+  parseParams,
+  parseAccount,
+  isAccountUsed,
+  findUserIdx,
+  AccountKind,
+} from "../solana/slab.js";
+import { resolveMarketPrice, toEnginePrice } from "../solana/oracle.js";
+import { accountHealth, liquidationPrice } from "../health.js";
+import { formatUnits, fromEngineUnits, formatBpsPercent } from "../units.js";
+import { validatePublicKey, validateIndex, validateU64 } from "../validation.js";
+
+export function registerAccountHealth(program: Command): void {
+  program
+    .command("account:health")
+    .description("Show an account's equity, margin requirements and liquidation price")
+    .option("--market <name>", "Market from the registry (fills --slab, --oracle)")
+    .option("--slab <pubkey>", "Slab account public key")
+    .option("--idx <number>", "Account index (default: the wallet's only User account)")
+    .option("--oracle <pubkey>", "Price from this Pyth or Chainlink account (default: the market's last price)")
+    .option("--price <e6>", "Evaluate at this feed price in e6, before inversion and unit scaling")
+    .action(async (opts, cmd) => {
+      const flags = getGlobalFlags(cmd);
+      const config = loadConfig(flags);
+      applyMarket(opts, config, ["slab"], ["oracle"]);
+      const ctx = createContext(config);
+
+      const slabPk = validatePublicKey(opts.slab, "--slab");
+      const data = await fetchSlab(ctx.connection, slabPk);
+      const idx =
+        opts.idx !== undefined ? validateIndex(opts.idx, "--idx") : findUserIdx(data, ctx.payer.publicKey, "--idx");
+
+      if (!isAccountUsed(data, idx)) {
+        if (flags.json) {
+          console.log(JSON.stringify({ error: "Account not in use", idx }, null, 2));
+        } else {
+          console.log(`Account ${idx} is not in use`);
+        }
+        process.exitCode = 1;
+        return;
+      }
+
+      const mktConfig = parseConfig(data);
+      const params = parseParams(data);
+      const account = parseAccount(data, idx);
+      const price = await resolveMarketPrice(ctx.connection, mktConfig, {
+        feedPriceE6: opts.price !== undefined ? validateU64(opts.price, "--price") : undefined,
+        oracle: opts.oracle !== undefined ? validatePublicKey(opts.oracle, "--oracle") : undefined,
+      });
+
+      const health = accountHealth(account, params, price.enginePriceE6);
+      const liqPrice = liquidationPrice(account, params);
+      // The same threshold quoted as a feed price, when priced from a feed
+      const liqFeedPrice =
+        price.feedPriceE6 !== undefined
+          ? liquidationPrice(account, params, (p) => toEnginePrice(p, mktConfig))
+          : null;
+      // What a partial liquidation would close: now if liquidatable, else once the price gets there
+      const closeSize = health.liquidatable
+        ? health.liquidationCloseSize
+        : liqPrice !== null
+          ? accountHealth(account, params, liqPrice).liquidationCloseSize
+          : null;
+      const kindStr = account.kind === AccountKind.LP ? "LP" : "User";
+
+      if (flags.json) {
+        console.log(
+          JSON.stringify(
+            {
+              idx,
+              kind: kindStr,
+              owner: account.owner.toBase58(),
+              priceSource: price.source,
+              feedPriceE6: price.feedPriceE6?.toString() ?? null,
+              enginePriceE6: price.enginePriceE6.toString(),
+              positionSize: account.positionSize.toString(),
+              entryPrice: account.entryPrice.toString(),
+              capital: account.capital.toString(),
+              pnl: account.pnl.toString(),
+              markPnl: health.markPnl.toString(),
+              equity: health.equity.toString(),
+              notional: health.notional.toString(),
+              marginRatioBps: health.marginRatioBps?.toString() ?? null,
+              initialMargin: health.initialMargin.toString(),
+              maintenanceMargin: health.maintenanceMargin.toString(),
+              marginBuffer: health.marginBuffer.toString(),
+              freeCollateral: health.freeCollateral.toString(),
+              liquidatable: health.liquidatable,
+              liquidationPriceE6: liqPrice?.toString() ?? null,
+              liquidationFeedPriceE6: liqFeedPrice?.toString() ?? null,
+              liquidationBufferBps: params.liquidationBufferBps.toString(),
+              liquidationTarget: health.liquidationTarget.toString(),
+              liquidationCloseSize: closeSize?.toString() ?? null,
+            },
+            null,
+            2
+          )
+        );
+        return;
+      }
+
+      const { decimals } = await getMint(ctx.connection, mktConfig.collateralMint);
+      const amount = (units: bigint) => formatUnits(fromEngineUnits(units, mktConfig.unitScale), decimals);
+      const side = account.positionSize > 0n ? "Long" : account.positionSize < 0n ? "Short" : "Flat";
+
+      console.log(`--- Account ${idx} (${kindStr}) Health ---`);
+      console.log(`Price Source:            ${price.source}`);
+      if (price.feedPriceE6 !== undefined) {
+        console.log(`Feed Price:              ${formatUnits(price.feedPriceE6, 6)}`);
+      }
+      console.log(`Engine Price:            ${formatUnits(price.enginePriceE6, 6)}`);
+      console.log("");
+      console.log("--- Position ---");
+      console.log(`Position Size:           ${account.positionSize} (${side})`);
+      console.log(`Entry Price:             ${formatUnits(account.entryPrice, 6)}`);
+      console.log(`Notional:                ${amount(health.notional)}`);
+      console.log("");
+      console.log("--- Equity ---");
+      console.log(`Capital:                 ${amount(account.capital)}`);
+      console.log(`Settled PnL:             ${amount(account.pnl)}`);
+      console.log(`Mark PnL:                ${amount(health.markPnl)}`);
+      console.log(`Equity:                  ${amount(health.equity)}`);
+      console.log("");
+      console.log("--- Margin ---");
+      console.log(`Margin Ratio:            ${health.marginRatioBps !== null ? formatBpsPercent(health.marginRatioBps) : "n/a (flat)"}`);
+      console.log(`Initial Requirement:     ${amount(health.initialMargin)} (${formatBpsPercent(params.initialMarginBps)})`);
+      console.log(`Maintenance Requirement: ${amount(health.maintenanceMargin)} (${formatBpsPercent(params.maintenanceMarginBps)})`);
+      console.log(`Free Collateral:         ${amount(health.freeCollateral)}`);
+      console.log(`Status:                  ${health.liquidatable ? "LIQUIDATABLE" : account.positionSize === 0n ? "Flat" : "Above maintenance"}`);
+      console.log("");
+      console.log("--- Liquidation ---");
+      console.log(`Liquidation Price:       ${liqPrice !== null ? formatUnits(liqPrice, 6) : "none"}`);
+      if (price.feedPriceE6 !== undefined) {
+        console.log(`Liquidation Feed Price:  ${liqFeedPrice !== null ? formatUnits(liqFeedPrice, 6) : "none"}`);
+      }
+      console.log(`Liquidation Buffer:      ${formatBpsPercent(params.liquidationBufferBps)}`);
+      console.log(
+        `Liquidation Target:      ${amount(health.liquidationTarget)} (${formatBpsPercent(params.maintenanceMarginBps + params.liquidationBufferBps)} of notional)`
+      );
+      if (closeSize !== null) {
+        console.log(
+          `Liquidation Would Close: ${closeSize} of ${account.positionSize < 0n ? -account.positionSize : account.positionSize}${health.liquidatable ? " (now)" : " (at the liquidation price)"}`
+        );
+      }
+      console.log("");
+      console.log("Funding and maintenance fees accrued since the account was last touched are not included.");
+    });
+}
@@ -0,0 +1,364 @@
+import { Command } from "commander";
+import { PublicKey, ConfirmedSignatureInfo, VersionedTransactionResponse, MessageAccountKeys } from "@solana/web3.js";
+import { getGlobalFlags } from "../cli.js";
+import { loadConfig } from "../config.js";
+import { createContext, Context } from "../runtime/context.js";
+import { decodeMessageInstructions, DecodedInstruction } from "../abi/decode.js";
+import { fetchSlab, parseAccount, isAccountUsed } from "../solana/slab.js";
+import { validatePublicKey, validateIndex } from "../validation.js";
+
+// getSignaturesForAddress page size limit
+const SIGNATURE_PAGE = 1000;
+// Transactions per getTransactions batch request
+const FETCH_BATCH = 25;
+
+type LedgerAction = "open" | "deposit" | "withdraw" | "trade" | "liquidation" | "close" | "crank";
+
+/**
+ * One instruction touching the account, with running totals after it.
+ * Running values start from zero at the oldest entry scanned (or when a new
+ * account takes the slot), so they only match on-chain state when the scan
+ * reaches back to the account's creation. Net deposits are collateral moved
+ * in and out, not capital: PnL, fees and liquidations aren't in them.
+ */
+interface LedgerEntry {
+  signature: string;
+  slot: number;
+  blockTime: number | null;
+  ix: number;
+  action: LedgerAction;
+  role?: "user" | "lp";
+  counterpartyIdx?: number;
+  owner?: PublicKey;      // Account owner the instruction names
+  amount?: bigint;        // Collateral deposited or withdrawn
+  size?: bigint;          // Position change for this index (requested size for TradeCpi)
+  err: boolean;
+  netDeposits: bigint;    // Deposits minus withdrawals so far
+  position: bigint | null; // Reconstructed position; null once a fill size is unknown
+}
+
+/**
+ * Walk the slab's signatures back from `before`, newest first, up to `limit`.
+ */
+async function fetchSignatures(
+  ctx: Context,
+  slab: PublicKey,
+  limit: number,
+  before?: string
+): Promise<ConfirmedSignatureInfo[]> {
+  const out: ConfirmedSignatureInfo[] = [];
+  let cursor = before;
+  while (out.length < limit) {
+    const page = await ctx.connection.getSignaturesForAddress(
+      slab,
+      { before: cursor, limit: Math.min(SIGNATURE_PAGE, limit - out.length) },
+      "confirmed"
+    );
+    if (page.length === 0) break;
+    out.push(...page);
+    cursor = page[page.length - 1].signature;
+  }
+  return out;
+}
+
+/**
+ * Describe how a decoded instruction touches the index, or null if it doesn't.
+ */
+function classify(
+  decoded: DecodedInstruction,
+  idx: number
+): Pick<LedgerEntry, "action" | "role" | "counterpartyIdx" | "owner" | "amount" | "size"> | null {
+  const account = (name: string) => decoded.accounts.find((a) => a.name === name)?.pubkey;
+  switch (decoded.name) {
+    case "DepositCollateral":
+      return decoded.args.userIdx === idx
+        ? { action: "deposit", owner: account("user"), amount: BigInt(decoded.args.amount) }
+        : null;
+    case "WithdrawCollateral":
+      return decoded.args.userIdx === idx
+        ? { action: "withdraw", owner: account("user"), amount: BigInt(decoded.args.amount) }
+        : null;
+    case "TradeNoCpi":
+    case "TradeCpi": {
+      const size = BigInt(decoded.args.size);
+      if (decoded.args.userIdx === idx) {
+        return { action: "trade", role: "user", counterpartyIdx: decoded.args.lpIdx, owner: account("user"), size };
+      }
+      if (decoded.args.lpIdx === idx) {
+        // LP takes the other side
+        const owner = account(decoded.name === "TradeCpi" ? "lpOwner" : "lp");
+        return { action: "trade", role: "lp", counterpartyIdx: decoded.args.userIdx, owner, size: -size };
+      }
+      return null;
+    }
+    case "LiquidateAtOracle":
+      return decoded.args.targetIdx === idx ? { action: "liquidation" } : null;
+    case "CloseAccount":
+      return decoded.args.userIdx === idx ? { action: "close", owner: account("user") } : null;
+    case "KeeperCrank":
+      return decoded.args.callerIdx === idx ? { action: "crank" } : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Collateral the transaction moved into the vault (negative: out of it), from
+ * its token balances. Null when the balances aren't recorded.
+ */
+function vaultDelta(tx: VersionedTransactionResponse, accountKeys: MessageAccountKeys, vault: PublicKey): bigint | null {
+  let accountIndex = -1;
+  for (let i = 0; i < accountKeys.length; i++) {
+    if (accountKeys.get(i)!.equals(vault)) accountIndex = i;
+  }
+  const pre = tx.meta?.preTokenBalances?.find((b) => b.accountIndex === accountIndex);
+  const post = tx.meta?.postTokenBalances?.find((b) => b.accountIndex === accountIndex);
+  if (!pre || !post) return null;
+  return BigInt(post.uiTokenAmount.amount) - BigInt(pre.uiTokenAmount.amount);
+}
+
+/**
+ * Fetch and decode transactions oldest first, building the ledger for one index.
+ * Failed transactions are included but do not move the running totals.
+ *
+ * Collateral amounts come from the vault's balance change when the instruction
+ * is the only one in its transaction moving the vault, else from the
+ * instruction's arguments. A TradeCpi fill is chosen by the matcher and isn't
+ * in the transaction, so the position is unknown after one.
+ *
+ * A new account can take the slot after a close. The program hands out freed
+ * slots last-in first-out, so closes seen in the scan tell which init lands on
+ * the index; slots freed by the crank's garbage collection aren't visible, so a
+ * change of owner also marks a new account. Either resets the running totals.
+ */
+async function buildLedger(
+  ctx: Context,
+  signatures: ConfirmedSignatureInfo[],
+  idx: number
+): Promise<LedgerEntry[]> {
+  const oldestFirst = [...signatures].reverse();
+  const entries: LedgerEntry[] = [];
+  let netDeposits = 0n;
+  let position: bigint | null = 0n;
+  let owner: PublicKey | undefined;
+  // Slots freed by closes seen so far, most recent last
+  const freed: number[] = [];
+
+  for (let i = 0; i < oldestFirst.length; i += FETCH_BATCH) {
+    const batch = oldestFirst.slice(i, i + FETCH_BATCH);
+    const txs = await ctx.connection.getTransactions(
+      batch.map((s) => s.signature),
+      { commitment: "confirmed", maxSupportedTransactionVersion: 0 }
+    );
+
+    txs.forEach((tx, j) => {
+      if (!tx) return;
+      const message = tx.transaction.message;
+      const accountKeys = message.getAccountKeys({
+        accountKeysFromLookups: tx.meta?.loadedAddresses,
+      });
+      const failed = tx.meta?.err != null;
+      const decoded = decodeMessageInstructions(ctx.programId, message, accountKeys).filter((ix) => ix.decoded);
+      const vaultOf = (d: DecodedInstruction) => d.accounts.find((a) => a.name === "vault")?.pubkey;
+
+      const push = (index: number, touch: NonNullable<ReturnType<typeof classify>>) =>
+        entries.push({
+          signature: batch[j].signature,
+          slot: tx.slot,
+          blockTime: tx.blockTime ?? null,
+          ix: index,
+          ...touch,
+          err: failed,
+          netDeposits,
+          position,
+        });
+
+      for (const ix of decoded) {
+        const d = ix.decoded!;
+
+        if (!failed && (d.name === "InitUser" || d.name === "InitLP")) {
+          if (freed.pop() === idx) {
+            netDeposits = 0n;
+            position = 0n;
+            owner = d.accounts.find((a) => a.name === "user")?.pubkey;
+            push(ix.index, { action: "open", role: d.name === "InitLP" ? "lp" : "user", owner });
+          }
+          continue;
+        }
+        if (!failed && d.name === "CloseAccount") {
+          freed.push(d.args.userIdx);
+        }
+
+        const touch = classify(d, idx);
+        if (!touch) continue;
+
+        // Collateral from the vault's balance when this is its only mover
+        const vault = vaultOf(d);
+        if (!failed && vault && decoded.filter((o) => vaultOf(o.decoded!)?.equals(vault)).length === 1) {
+          const delta = vaultDelta(tx, accountKeys, vault);
+          if (delta !== null) touch.amount = touch.action === "deposit" ? delta : -delta;
+        }
+
+        if (!failed) {
+          if (touch.owner && owner && !touch.owner.equals(owner)) {
+            // Someone else's account now holds the slot (freed by garbage collection)
+            netDeposits = 0n;
+            position = 0n;
+            push(ix.index, { action: "open", role: touch.role, owner: touch.owner });
+          }
+          if (touch.owner) owner = touch.owner;
+
+          if (touch.action === "deposit") netDeposits += touch.amount!;
+          if (touch.action === "withdraw") netDeposits -= touch.amount!;
+          if (touch.action === "trade") {
+            position = d.name === "TradeCpi" || position === null ? null : position + touch.size!;
+          }
+          if (touch.action === "liquidation") position = null;
+          if (touch.action === "close") {
+            netDeposits = 0n;
+            position = 0n;
+            owner = undefined;
+          }
+        }
+
+        push(ix.index, touch);
+      }
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Quote a CSV field if it contains a delimiter.
+ */
+function csvField(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function registerAccountHistory(program: Command): void {
+  program
+    .command("account:history")
+    .description("Show the deposits, withdrawals, trades, liquidations and closes for an account index")
+    .requiredOption("--slab <pubkey>", "Slab account public key")
+    .requiredOption("--idx <number>", "Account index (0-4095)")
+    .option("--limit <number>", "Number of slab signatures to scan, newest first", "1000")
+    .option("--before <signature>", "Start scanning before this signature")
+    .option("--csv", "Output as CSV")
+    .action(async (opts, cmd) => {
+      const flags = getGlobalFlags(cmd);
+      const config = loadConfig(flags);
+      const ctx = createContext(config);
+
+      const slabPk = validatePublicKey(opts.slab, "--slab");
+      const idx = validateIndex(opts.idx, "--idx");
+      const limit = parseInt(opts.limit, 10);
+      if (!Number.isInteger(limit) || limit <= 0) {
+        throw new Error("--limit must be a positive integer");
+      }
+
+      const signatures = await fetchSignatures(ctx, slabPk, limit, opts.before);
+      const entries = await buildLedger(ctx, signatures, idx);
+
+      // Current state to check the reconstruction against
+      const data = await fetchSlab(ctx.connection, slabPk);
+      const current = isAccountUsed(data, idx) ? parseAccount(data, idx) : null;
+
+      const rows = entries.map((e) => ({
+        time: e.blockTime !== null ? new Date(e.blockTime * 1000).toISOString() : "",
+        slot: e.slot.toString(),
+        action: e.err ? `${e.action} (failed)` : e.action,
+        detail:
+          e.action === "trade"
+            ? `${e.size! > 0n ? "+" : ""}${e.size} as ${e.role} vs #${e.counterpartyIdx}`
+            : e.action === "open"
+              ? `new ${e.role === "lp" ? "LP" : "User"} account, ${e.owner?.toBase58().slice(0, 8)}...`
+              : e.amount !== undefined
+                ? e.amount.toString()
+                : "",
+        netDeposits: e.netDeposits.toString(),
+        position: e.position === null ? "?" : e.position.toString(),
+        signature: e.signature,
+      }));
+
+      if (flags.json) {
+        console.log(
+          JSON.stringify(
+            {
+              slab: slabPk.toBase58(),
+              idx,
+              scanned: signatures.length,
+              oldestSlot: signatures.length > 0 ? signatures[signatures.length - 1].slot : null,
+              current: current
+                ? {
+                    capital: current.capital.toString(),
+                    positionSize: current.positionSize.toString(),
+                  }
+                : null,
+              entries: entries.map((e) => ({
+                signature: e.signature,
+                slot: e.slot,
+                blockTime: e.blockTime,
+                ix: e.ix,
+                action: e.action,
+                role: e.role ?? null,
+                counterpartyIdx: e.counterpartyIdx ?? null,
+                owner: e.owner?.toBase58() ?? null,
+                amount: e.amount?.toString() ?? null,
+                size: e.size?.toString() ?? null,
+                err: e.err,
+                netDeposits: e.netDeposits.toString(),
+                position: e.position?.toString() ?? null,
+              })),
+            },
+            null,
+            2
+          )
+        );
+        return;
+      }
+
+      if (opts.csv) {
+        console.log("time,slot,action,detail,net_deposits,position,signature");
+        for (const r of rows) {
+          console.log(
+            [r.time, r.slot, r.action, r.detail, r.netDeposits, r.position, r.signature]
+              .map(csvField)
+              .join(",")
+          );
+        }
+        return;
+      }
+
+      console.log(`--- Account ${idx} History ---`);
+      console.log(`Signatures scanned: ${signatures.length}`);
+      if (signatures.length > 0) {
+        console.log(`Oldest slot:        ${signatures[signatures.length - 1].slot}`);
+      }
+      console.log(`Entries:            ${entries.length}`);
+      if (current) {
+        console.log(`Current capital:    ${current.capital}`);
+        console.log(`Current position:   ${current.positionSize}`);
+      } else {
+        console.log("Current state:      account not in use");
+      }
+      console.log("");
+      if (entries.length === 0) {
+        console.log("No instructions touching this index in the scanned range");
+        return;
+      }
+
+      console.log(
+        `${"Time".padEnd(24)} ${"Slot".padStart(10)}  ${"Action".padEnd(20)} ${"Detail".padEnd(32)} ${"Net Deposits".padStart(16)} ${"Position".padStart(16)}  Signature`
+      );
+      for (const r of rows) {
+        console.log(
+          `${r.time.padEnd(24)} ${r.slot.padStart(10)}  ${r.action.padEnd(20)} ${r.detail.padEnd(32)} ${r.netDeposits.padStart(16)} ${r.position.padStart(16)}  ${r.signature}`
+        );
+      }
+      console.log("");
+      console.log("Net deposits are collateral moved in and out, not capital (PnL and fees aren't included).");
+      console.log("Running totals start at zero at the oldest scanned entry and at each new account in the slot.");
+      console.log("Position is unknown (?) after a liquidation or a TradeCpi (the matcher sets the fill) until the slot is reset.");
+    });
+}
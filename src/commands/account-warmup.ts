@@ -0,0 +1,131 @@
+import { Command } from "commander";
+import { getGlobalFlags } from "../cli.js";
+import { loadConfig } from "../config.js";
+import { applyMarket } from "../market.js";
+import { createContext } from "../runtime/context.js";
+import {
+  fetchSlab,
+  parseConfig,
+  parseParams,
+  parseEngine,
+  parseAccount,
+  isAccountUsed,
+  findUserIdx,
+  AccountKind,
+} from "../solana/slab.js";
+import { haircutRatio, realizablePnl } from "../health.js";
+import { warmupState, withdrawableAt, slotWhenWithdrawable } from "../warmup.js";
+import { fromEngineUnits, toEngineUnits, formatSlotDuration } from "../units.js";
+import { validatePublicKey, validateIndex, validateAmount } from "../validation.js";
+
+export function registerAccountWarmup(program: Command): void {
+  program
+    .command("account:warmup")
+    .description("Show warmed vs unwarmed PnL and when it will be fully withdrawable")
+    .option("--market <name>", "Market from the registry (fills --slab)")
+    .option("--slab <pubkey>", "Slab account public key")
+    .option("--idx <number>", "Account index (default: the wallet's only User account)")
+    .option("--amount <string>", "Also show when this amount (native units) becomes withdrawable")
+    .action(async (opts, cmd) => {
+      const flags = getGlobalFlags(cmd);
+      const config = loadConfig(flags);
+      applyMarket(opts, config, ["slab"]);
+      const ctx = createContext(config);
+
+      const slabPk = validatePublicKey(opts.slab, "--slab");
+      if (opts.amount !== undefined) {
+        validateAmount(opts.amount, "--amount");
+      }
+
+      const [data, slot] = await Promise.all([fetchSlab(ctx.connection, slabPk), ctx.connection.getSlot()]);
+      const idx =
+        opts.idx !== undefined ? validateIndex(opts.idx, "--idx") : findUserIdx(data, ctx.payer.publicKey, "--idx");
+      if (!isAccountUsed(data, idx)) {
+        if (flags.json) {
+          console.log(JSON.stringify({ error: "Account not in use", idx }, null, 2));
+        } else {
+          console.log(`Account ${idx} is not in use`);
+        }
+        process.exitCode = 1;
+        return;
+      }
+
+      const { unitScale } = parseConfig(data);
+      const params = parseParams(data);
+      const haircut = haircutRatio(parseEngine(data));
+      const account = parseAccount(data, idx);
+      const now = BigInt(slot);
+
+      const state = warmupState(account, now);
+      const withdrawable = withdrawableAt(account, haircut, now);
+      const amountSlot =
+        opts.amount !== undefined
+          ? slotWhenWithdrawable(account, haircut, toEngineUnits(BigInt(opts.amount), unitScale), now)
+          : undefined;
+      // Native (base) units, as withdraw --amount takes them
+      const native = (units: bigint) => fromEngineUnits(units, unitScale);
+
+      if (flags.json) {
+        console.log(
+          JSON.stringify(
+            {
+              idx,
+              kind: account.kind === AccountKind.LP ? "LP" : "User",
+              slot: state.slot.toString(),
+              warmupPeriodSlots: params.warmupPeriodSlots.toString(),
+              warmupStartedAtSlot: account.warmupStartedAtSlot.toString(),
+              warmupSlopePerStep: account.warmupSlopePerStep.toString(),
+              positivePnl: state.positivePnl.toString(),
+              reservedPnl: account.reservedPnl.toString(),
+              warmedPnl: state.warmed.toString(),
+              unwarmedPnl: state.unwarmed.toString(),
+              realizableWarmedPnl: realizablePnl(state.warmed, haircut).toString(),
+              fullyWarmedSlot: state.fullyWarmedSlot?.toString() ?? null,
+              withdrawable: native(withdrawable).toString(),
+              ...(amountSlot !== undefined
+                ? { amount: opts.amount, withdrawableAtSlot: amountSlot?.toString() ?? null }
+                : {}),
+            },
+            null,
+            2
+          )
+        );
+        return;
+      }
+
+      const when = (target: bigint) =>
+        target <= now ? `slot ${target} (now)` : `slot ${target} (${formatSlotDuration(target - now)})`;
+
+      console.log(`--- Account ${idx} Warmup ---`);
+      console.log(`Current Slot:            ${now}`);
+      console.log(`Warmup Period:           ${params.warmupPeriodSlots} slots (${formatSlotDuration(params.warmupPeriodSlots)})`);
+      console.log(`Warmup Started:          slot ${account.warmupStartedAtSlot}`);
+      console.log(`Warmup Slope:            ${account.warmupSlopePerStep} per slot`);
+      console.log("");
+      console.log("--- PnL (engine units) ---");
+      console.log(`Positive PnL:            ${state.positivePnl}`);
+      console.log(`Reserved PnL:            ${account.reservedPnl}`);
+      console.log(`Warmed:                  ${state.warmed} (${realizablePnl(state.warmed, haircut)} after haircut)`);
+      console.log(`Unwarmed:                ${state.unwarmed}`);
+      console.log(
+        `Fully Warmed:            ${
+          state.fullyWarmedSlot !== null
+            ? when(state.fullyWarmedSlot)
+            : state.unwarmed > 0n
+              ? "not scheduled (warmup starts when the account is next touched, e.g. by a crank)"
+              : "nothing warming"
+        }`
+      );
+      console.log("");
+      console.log(`Withdrawable Now:        ${native(withdrawable)} (native units)`);
+      if (amountSlot !== undefined) {
+        console.log(
+          `Requested Amount:        ${opts.amount} ${
+            amountSlot !== null ? `withdrawable at ${when(amountSlot)}` : "is more than capital plus all warmed PnL"
+          }`
+        );
+      }
+      console.log("");
+      console.log("Margin on open positions is not included; withdrawals must also keep the initial margin.");
+    });
+}
@@ -0,0 +1,248 @@
+import { Command } from "commander";
+import { AddressLookupTableProgram, PublicKey, TransactionInstruction } from "@solana/web3.js";
+import { getGlobalFlags } from "../cli.js";
+import { loadConfig } from "../config.js";
+import { createContext, Context } from "../runtime/context.js";
+import { fetchSlab } from "../solana/slab.js";
+import { collectMarketAddresses, LabeledAddress } from "../solana/alt.js";
+import {
+  simulateOrSend,
+  formatResult,
+  fetchLookupTable,
+  TxResult,
+} from "../runtime/tx.js";
+import { validatePublicKey } from "../validation.js";
+
+// Addresses per ExtendLookupTable instruction (32 bytes each, keeps the tx well under 1232 bytes)
+const EXTEND_CHUNK = 20;
+
+/**
+ * Load the market's lookup addresses from its slab.
+ */
+async function loadMarketAddresses(
+  ctx: Context,
+  opts: { slab: string; oracle?: string }
+): Promise<LabeledAddress[]> {
+  const slabPk = validatePublicKey(opts.slab, "--slab");
+  const oracle = opts.oracle ? validatePublicKey(opts.oracle, "--oracle") : undefined;
+  const data = await fetchSlab(ctx.connection, slabPk);
+  return collectMarketAddresses(ctx.programId, slabPk, data, oracle);
+}
+
+/**
+ * Send the given leading instructions plus extend instructions for all addresses,
+ * one transaction per chunk. Stops at the first failure.
+ */
+async function sendExtends(
+  ctx: Context,
+  table: PublicKey,
+  addresses: PublicKey[],
+  simulate: boolean,
+  leading: TransactionInstruction[] = []
+): Promise<TxResult[]> {
+  const results: TxResult[] = [];
+  let first = true;
+  for (let i = 0; i < addresses.length || first; i += EXTEND_CHUNK) {
+    const chunk = addresses.slice(i, i + EXTEND_CHUNK);
+    const ixs = first ? [...leading] : [];
+    if (chunk.length > 0) {
+      ixs.push(
+        AddressLookupTableProgram.extendLookupTable({
+          lookupTable: table,
+          authority: ctx.payer.publicKey,
+          payer: ctx.payer.publicKey,
+          addresses: chunk,
+        })
+      );
+    }
+    first = false;
+
+    const result = await simulateOrSend({
+      connection: ctx.connection,
+      instructions: ixs.map((ix) => ({ ix })),
+      signers: [ctx.payer],
+      simulate,
+      commitment: ctx.commitment,
+      ...ctx.txOptions,
+      // The table being built cannot be used to compile its own transactions
+      lookupTable: undefined,
+    });
+    results.push(result);
+    if (result.err) break;
+  }
+  return results;
+}
+
+export function registerAlt(program: Command): void {
+  const alt = program
+    .command("alt")
+    .description("Manage address lookup tables for v0 transactions");
+
+  alt
+    .command("create")
+    .description("Create a lookup table holding a market's addresses")
+    .requiredOption("--slab <pubkey>", "Slab account public key")
+    .option("--oracle <pubkey>", "Oracle account to include if different from the config feed")
+    .action(async (opts, cmd) => {
+      const flags = getGlobalFlags(cmd);
+      const config = loadConfig(flags);
+      const ctx = createContext(config);
+
+      const entries = await loadMarketAddresses(ctx, opts);
+
+      const recentSlot = await ctx.connection.getSlot("finalized");
+      const [createIx, table] = AddressLookupTableProgram.createLookupTable({
+        authority: ctx.payer.publicKey,
+        payer: ctx.payer.publicKey,
+        recentSlot,
+      });
+
+      const results = await sendExtends(
+        ctx,
+        table,
+        entries.map((e) => e.address),
+        flags.simulate ?? false,
+        [createIx]
+      );
+      const failed = results.find((r) => r.err);
+
+      if (flags.json) {
+        console.log(
+          JSON.stringify(
+            {
+              table: table.toBase58(),
+              addresses: entries.map((e) => ({ label: e.label, address: e.address.toBase58() })),
+              results,
+            },
+            null,
+            2
+          )
+        );
+      } else {
+        console.log(`Lookup Table: ${table.toBase58()}`);
+        console.log(`Addresses:    ${entries.length}`);
+        for (const r of results) {
+          console.log(formatResult(r, false, ctx.cluster, ctx.rpcUrl));
+        }
+        if (!failed) {
+          console.log("");
+          console.log(`Use it with --lookup-table ${table.toBase58()} or "lookupTable" in the config file.`);
+        }
+      }
+      if (failed) process.exitCode = 1;
+    });
+
+  alt
+    .command("extend")
+    .description("Add any of a market's addresses missing from a lookup table")
+    .requiredOption("--table <pubkey>", "Lookup table address")
+    .requiredOption("--slab <pubkey>", "Slab account public key")
+    .option("--oracle <pubkey>", "Oracle account to include if different from the config feed")
+    .action(async (opts, cmd) => {
+      const flags = getGlobalFlags(cmd);
+      const config = loadConfig(flags);
+      const ctx = createContext(config);
+
+      const tablePk = validatePublicKey(opts.table, "--table");
+      const table = await fetchLookupTable(ctx.connection, tablePk);
+      const present = new Set(table.state.addresses.map((a) => a.toBase58()));
+
+      const entries = await loadMarketAddresses(ctx, opts);
+      const missing = entries.filter((e) => !present.has(e.address.toBase58()));
+
+      if (missing.length === 0) {
+        if (flags.json) {
+          console.log(JSON.stringify({ table: tablePk.toBase58(), added: [] }, null, 2));
+        } else {
+          console.log("Lookup table already holds all market addresses");
+        }
+        return;
+      }
+
+      const results = await sendExtends(
+        ctx,
+        tablePk,
+        missing.map((e) => e.address),
+        flags.simulate ?? false
+      );
+      const failed = results.find((r) => r.err);
+
+      if (flags.json) {
+        console.log(
+          JSON.stringify(
+            {
+              table: tablePk.toBase58(),
+              added: missing.map((e) => ({ label: e.label, address: e.address.toBase58() })),
+              results,
+            },
+            null,
+            2
+          )
+        );
+      } else {
+        console.log(`Adding ${missing.length} address(es):`);
+        for (const e of missing) {
+          console.log(`  ${e.label.padEnd(24)} ${e.address.toBase58()}`);
+        }
+        for (const r of results) {
+          console.log(formatResult(r, false, ctx.cluster, ctx.rpcUrl));
+        }
+      }
+      if (failed) process.exitCode = 1;
+    });
+
+  alt
+    .command("show")
+    .description("Display a lookup table's addresses")
+    .requiredOption("--table <pubkey>", "Lookup table address")
+    .option("--slab <pubkey>", "Label addresses belonging to this market")
+    .option("--oracle <pubkey>", "Oracle account to label if different from the config feed")
+    .action(async (opts, cmd) => {
+      const flags = getGlobalFlags(cmd);
+      const config = loadConfig(flags);
+      const ctx = createContext(config);
+
+      const tablePk = validatePublicKey(opts.table, "--table");
+      const table = await fetchLookupTable(ctx.connection, tablePk);
+
+      const labels = new Map<string, string>();
+      if (opts.slab) {
+        for (const e of await loadMarketAddresses(ctx, opts)) {
+          labels.set(e.address.toBase58(), e.label);
+        }
+      }
+
+      const addresses = table.state.addresses.map((a, i) => ({
+        index: i,
+        address: a.toBase58(),
+        label: labels.get(a.toBase58()),
+      }));
+
+      if (flags.json) {
+        console.log(
+          JSON.stringify(
+            {
+              table: tablePk.toBase58(),
+              authority: table.state.authority?.toBase58() ?? null,
+              active: table.isActive(),
+              deactivationSlot: table.state.deactivationSlot.toString(),
+              lastExtendedSlot: table.state.lastExtendedSlot,
+              addresses,
+            },
+            null,
+            2
+          )
+        );
+      } else {
+        console.log(`Lookup Table:      ${tablePk.toBase58()}`);
+        console.log(`Authority:         ${table.state.authority?.toBase58() ?? "(frozen)"}`);
+        console.log(`Active:            ${table.isActive() ? "Yes" : "No"}`);
+        console.log(`Last Extended:     ${table.state.lastExtendedSlot}`);
+        console.log(`Addresses:         ${addresses.length}`);
+        console.log("");
+        for (const a of addresses) {
+          console.log(`${a.index.toString().padStart(3)}  ${a.address}${a.label ? `  (${a.label})` : ""}`);
+        }
+      }
+    });
+}
@@ -0,0 +1,399 @@
+import { Command } from "commander";
+import { readFileSync } from "node:fs";
+import { z } from "zod";
+import { AccountMeta } from "@solana/web3.js";
+import { getGlobalFlags } from "../cli.js";
+import { loadConfig } from "../config.js";
+import { createContext, Context } from "../runtime/context.js";
+import { fetchSlab, parseConfig, parseAccount, MarketConfig, AccountKind } from "../solana/slab.js";
+import { getAta } from "../solana/ata.js";
+import { deriveVaultAuthority, deriveLpPda } from "../solana/pda.js";
+import {
+  encodeKeeperCrank,
+  encodeDepositCollateral,
+  encodeWithdrawCollateral,
+  encodeTradeNoCpi,
+  encodeTradeCpi,
+  encodeLiquidateAtOracle,
+  encodeCloseAccount,
+  encodeTopUpInsurance,
+  encodePushOraclePrice,
+} from "../abi/instructions.js";
+import {
+  ACCOUNTS_KEEPER_CRANK,
+  ACCOUNTS_DEPOSIT_COLLATERAL,
+  ACCOUNTS_WITHDRAW_COLLATERAL,
+  ACCOUNTS_TRADE_NOCPI,
+  ACCOUNTS_TRADE_CPI,
+  ACCOUNTS_LIQUIDATE_AT_ORACLE,
+  ACCOUNTS_CLOSE_ACCOUNT,
+  ACCOUNTS_TOPUP_INSURANCE,
+  ACCOUNTS_PUSH_ORACLE_PRICE,
+  WELL_KNOWN,
+} from "../abi/accounts.js";
+import {
+  buildIx,
+  simulateOrSend,
+  formatResult,
+  TxInstruction,
+  MAX_COMPUTE_UNITS,
+} from "../runtime/tx.js";
+import { buildCheckedAccountMetas } from "../runtime/preflight.js";
+import {
+  validatePublicKey,
+  validateAmount,
+  validateI128,
+  validateU128,
+} from "../validation.js";
+
+// Sentinel value for permissionless crank (no caller account required)
+const CRANK_NO_CALLER = 65535; // u16::MAX
+
+// =============================================================================
+// Plan schema - one entry per CLI-style operation, options in camelCase
+// =============================================================================
+
+const Index = z.number().int().min(0).max(65535);
+const Numeric = z.union([z.string(), z.number().int()]).transform(String);
+
+const OpSchema = z.discriminatedUnion("op", [
+  z.object({
+    op: z.literal("keeper-crank"),
+    slab: z.string(),
+    oracle: z.string(),
+    callerIdx: Index.optional(),
+    allowPanic: z.boolean().optional(),
+  }),
+  z.object({
+    op: z.literal("deposit"),
+    slab: z.string(),
+    userIdx: Index,
+    amount: Numeric,
+  }),
+  z.object({
+    op: z.literal("withdraw"),
+    slab: z.string(),
+    userIdx: Index,
+    amount: Numeric,
+  }),
+  z.object({
+    op: z.literal("trade-nocpi"),
+    slab: z.string(),
+    lpIdx: Index,
+    userIdx: Index,
+    size: Numeric,
+    oracle: z.string(),
+  }),
+  z.object({
+    op: z.literal("trade-cpi"),
+    slab: z.string(),
+    lpIdx: Index,
+    userIdx: Index,
+    size: Numeric,
+    matcherProgram: z.string(),
+    matcherContext: z.string(),
+  }),
+  z.object({
+    op: z.literal("liquidate-at-oracle"),
+    slab: z.string(),
+    targetIdx: Index,
+    oracle: z.string(),
+  }),
+  z.object({
+    op: z.literal("close-account"),
+    slab: z.string(),
+    userIdx: Index,
+  }),
+  z.object({
+    op: z.literal("topup-insurance"),
+    slab: z.string(),
+    amount: Numeric,
+  }),
+  z.object({
+    op: z.literal("push-oracle-price"),
+    slab: z.string(),
+    price: Numeric,
+    timestamp: Numeric.optional(),
+  }),
+]);
+
+const PlanSchema = z.object({
+  computeUnits: z.number().int().positive().optional(),
+  ops: z.array(OpSchema).min(1),
+});
+
+type BatchOp = z.infer<typeof OpSchema>;
+export type BatchPlan = z.infer<typeof PlanSchema>;
+
+/**
+ * Load and validate a batch plan file.
+ */
+export function loadPlan(path: string): BatchPlan {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, "utf-8"));
+  } catch (e) {
+    throw new Error(`Failed to parse plan file ${path}: ${e}`);
+  }
+
+  const result = PlanSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues.map((i) => `${i.path.join(".")}: ${i.message}`);
+    throw new Error(`Invalid plan:\n${issues.join("\n")}`);
+  }
+  return result.data;
+}
+
+// =============================================================================
+// Instruction builders (account orderings match the single-op commands)
+// =============================================================================
+
+/**
+ * Build one plan operation into an instruction.
+ * Slab configs are cached so repeated ops on one market fetch it once.
+ */
+async function buildOp(
+  ctx: Context,
+  op: BatchOp,
+  field: string,
+  slabCache: Map<string, Buffer>
+): Promise<TxInstruction> {
+  const slabPk = validatePublicKey(op.slab, `${field}.slab`);
+
+  const loadSlab = async (): Promise<Buffer> => {
+    const key = slabPk.toBase58();
+    let data = slabCache.get(key);
+    if (!data) {
+      data = await fetchSlab(ctx.connection, slabPk);
+      slabCache.set(key, data);
+    }
+    return data;
+  };
+  const loadMarket = async (): Promise<MarketConfig> => parseConfig(await loadSlab());
+
+  const ix = (keys: AccountMeta[], data: Buffer): TxInstruction => ({
+    ix: buildIx({ programId: ctx.programId, keys, data }),
+  });
+
+  switch (op.op) {
+    case "keeper-crank": {
+      const oracle = validatePublicKey(op.oracle, `${field}.oracle`);
+      return ix(
+        await buildCheckedAccountMetas(ctx, ACCOUNTS_KEEPER_CRANK, [
+          ctx.payer.publicKey,
+          slabPk,
+          WELL_KNOWN.clock,
+          oracle,
+        ], op.callerIdx !== undefined ? [{ idx: op.callerIdx, flag: `${field}.callerIdx` }] : []),
+        encodeKeeperCrank({
+          callerIdx: op.callerIdx ?? CRANK_NO_CALLER,
+          allowPanic: op.allowPanic ?? false,
+        })
+      );
+    }
+
+    case "deposit": {
+      validateAmount(op.amount, `${field}.amount`);
+      const mkt = await loadMarket();
+      const userAta = await getAta(ctx.payer.publicKey, mkt.collateralMint);
+      return ix(
+        await buildCheckedAccountMetas(ctx, ACCOUNTS_DEPOSIT_COLLATERAL, [
+          ctx.payer.publicKey,
+          slabPk,
+          userAta,
+          mkt.vaultPubkey,
+          WELL_KNOWN.tokenProgram,
+          WELL_KNOWN.clock,
+        ], [{ idx: op.userIdx, flag: `${field}.userIdx`, owner: ctx.payer.publicKey }]),
+        encodeDepositCollateral({ userIdx: op.userIdx, amount: op.amount })
+      );
+    }
+
+    case "withdraw": {
+      validateAmount(op.amount, `${field}.amount`);
+      const mkt = await loadMarket();
+      const userAta = await getAta(ctx.payer.publicKey, mkt.collateralMint);
+      const [vaultPda] = deriveVaultAuthority(ctx.programId, slabPk);
+      return ix(
+        await buildCheckedAccountMetas(ctx, ACCOUNTS_WITHDRAW_COLLATERAL, [
+          ctx.payer.publicKey,
+          slabPk,
+          mkt.vaultPubkey,
+          userAta,
+          vaultPda,
+          WELL_KNOWN.tokenProgram,
+          WELL_KNOWN.clock,
+          mkt.indexFeedId,
+        ], [{ idx: op.userIdx, flag: `${field}.userIdx`, owner: ctx.payer.publicKey }]),
+        encodeWithdrawCollateral({ userIdx: op.userIdx, amount: op.amount })
+      );
+    }
+
+    case "trade-nocpi": {
+      validateI128(op.size, `${field}.size`);
+      const oracle = validatePublicKey(op.oracle, `${field}.oracle`);
+      // Batch plans sign with the payer only, so the payer must own the LP
+      return ix(
+        await buildCheckedAccountMetas(ctx, ACCOUNTS_TRADE_NOCPI, [
+          ctx.payer.publicKey,
+          ctx.payer.publicKey,
+          slabPk,
+          WELL_KNOWN.clock,
+          oracle,
+        ], [
+          { idx: op.lpIdx, flag: `${field}.lpIdx`, kind: AccountKind.LP, owner: ctx.payer.publicKey },
+          { idx: op.userIdx, flag: `${field}.userIdx`, kind: AccountKind.User, owner: ctx.payer.publicKey },
+        ]),
+        encodeTradeNoCpi({ lpIdx: op.lpIdx, userIdx: op.userIdx, size: op.size })
+      );
+    }
+
+    case "trade-cpi": {
+      validateI128(op.size, `${field}.size`);
+      const matcherProgram = validatePublicKey(op.matcherProgram, `${field}.matcherProgram`);
+      const matcherContext = validatePublicKey(op.matcherContext, `${field}.matcherContext`);
+      const data = await loadSlab();
+      const mkt = parseConfig(data);
+      const lpOwner = parseAccount(data, op.lpIdx).owner;
+      const [lpPda] = deriveLpPda(ctx.programId, slabPk, op.lpIdx);
+      return ix(
+        await buildCheckedAccountMetas(ctx, ACCOUNTS_TRADE_CPI, [
+          ctx.payer.publicKey,
+          lpOwner,
+          slabPk,
+          WELL_KNOWN.clock,
+          mkt.indexFeedId,
+          matcherProgram,
+          matcherContext,
+          lpPda,
+        ], [
+          { idx: op.lpIdx, flag: `${field}.lpIdx`, kind: AccountKind.LP },
+          { idx: op.userIdx, flag: `${field}.userIdx`, kind: AccountKind.User, owner: ctx.payer.publicKey },
+        ]),
+        encodeTradeCpi({ lpIdx: op.lpIdx, userIdx: op.userIdx, size: op.size })
+      );
+    }
+
+    case "liquidate-at-oracle": {
+      const oracle = validatePublicKey(op.oracle, `${field}.oracle`);
+      return ix(
+        await buildCheckedAccountMetas(ctx, ACCOUNTS_LIQUIDATE_AT_ORACLE, [
+          ctx.payer.publicKey,
+          slabPk,
+          WELL_KNOWN.clock,
+          oracle,
+        ], [{ idx: op.targetIdx, flag: `${field}.targetIdx` }]),
+        encodeLiquidateAtOracle({ targetIdx: op.targetIdx })
+      );
+    }
+
+    case "close-account": {
+      const mkt = await loadMarket();
+      const userAta = await getAta(ctx.payer.publicKey, mkt.collateralMint);
+      const [vaultPda] = deriveVaultAuthority(ctx.programId, slabPk);
+      return ix(
+        await buildCheckedAccountMetas(ctx, ACCOUNTS_CLOSE_ACCOUNT, [
+          ctx.payer.publicKey,
+          slabPk,
+          mkt.vaultPubkey,
+          userAta,
+          vaultPda,
+          WELL_KNOWN.tokenProgram,
+          WELL_KNOWN.clock,
+          mkt.indexFeedId,
+        ], [{ idx: op.userIdx, flag: `${field}.userIdx`, owner: ctx.payer.publicKey }]),
+        encodeCloseAccount({ userIdx: op.userIdx })
+      );
+    }
+
+    case "topup-insurance": {
+      validateU128(op.amount, `${field}.amount`);
+      const mkt = await loadMarket();
+      const userAta = await getAta(ctx.payer.publicKey, mkt.collateralMint);
+      return ix(
+        await buildCheckedAccountMetas(ctx, ACCOUNTS_TOPUP_INSURANCE, [
+          ctx.payer.publicKey,
+          slabPk,
+          userAta,
+          mkt.vaultPubkey,
+          WELL_KNOWN.tokenProgram,
+        ]),
+        encodeTopUpInsurance({ amount: op.amount })
+      );
+    }
+
+    case "push-oracle-price": {
+      validateAmount(op.price, `${field}.price`);
+      const timestamp = op.timestamp ?? String(Math.floor(Date.now() / 1000));
+      return ix(
+        await buildCheckedAccountMetas(ctx, ACCOUNTS_PUSH_ORACLE_PRICE, [ctx.payer.publicKey, slabPk]),
+        encodePushOraclePrice({ priceE6: op.price, timestamp })
+      );
+    }
+  }
+}
+
+export function registerBatch(program: Command): void {
+  program
+    .command("batch")
+    .description("Execute a JSON plan of operations atomically in a single transaction")
+    .requiredOption("--plan <path>", "Path to plan file ({ computeUnits?, ops: [{ op, ...options }] })")
+    .option("--compute-units <number>", `Compute unit limit for the whole batch (max: ${MAX_COMPUTE_UNITS})`)
+    .action(async (opts, cmd) => {
+      const flags = getGlobalFlags(cmd);
+      const config = loadConfig(flags);
+      const ctx = createContext(config);
+
+      const plan = loadPlan(opts.plan);
+
+      const computeUnitLimit = opts.computeUnits
+        ? parseInt(opts.computeUnits, 10)
+        : plan.computeUnits;
+      if (computeUnitLimit !== undefined && computeUnitLimit > MAX_COMPUTE_UNITS) {
+        throw new Error(
+          `Compute unit limit ${computeUnitLimit} exceeds the maximum of ${MAX_COMPUTE_UNITS}`
+        );
+      }
+
+      const slabCache = new Map<string, Buffer>();
+      const instructions: TxInstruction[] = [];
+      for (const [i, op] of plan.ops.entries()) {
+        instructions.push(await buildOp(ctx, op, `ops[${i}]`, slabCache));
+      }
+
+      const txParams = {
+        connection: ctx.connection,
+        instructions,
+        signers: [ctx.payer],
+        commitment: ctx.commitment,
+        ...ctx.txOptions,
+        computeUnitLimit,
+      };
+
+      // Dry-run first so an over-budget or failing plan never reaches the cluster
+      if (!flags.simulate) {
+        const dryRun = await simulateOrSend({ ...txParams, simulate: true });
+        const budget =
+          dryRun.computeUnitLimit ?? Math.min(200_000 * instructions.length, MAX_COMPUTE_UNITS);
+        if (dryRun.err || (dryRun.unitsConsumed ?? 0) > budget) {
+          if (!dryRun.err) {
+            dryRun.err = `Plan needs ${dryRun.unitsConsumed} compute units (limit ${budget})`;
+          }
+          console.log(formatResult(dryRun, flags.json ?? false, ctx.cluster, ctx.rpcUrl));
+          process.exitCode = 1;
+          return;
+        }
+      }
+
+      if (!flags.json) {
+        console.log(`Batch: ${plan.ops.map((op) => op.op).join(", ")}`);
+      }
+
+      const result = await simulateOrSend({
+        ...txParams,
+        simulate: flags.simulate ?? false,
+      });
+
+      console.log(formatResult(result, flags.json ?? false, ctx.cluster, ctx.rpcUrl));
+    });
+}
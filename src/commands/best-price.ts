@@ -2,6 +2,7 @@ import { Command } from "commander";
 import { Connection, PublicKey } from "@solana/web3.js";
 import { getGlobalFlags } from "../cli.js";
 import { loadConfig } from "../config.js";
+import { applyMarket } from "../market.js";
 import { createContext } from "../runtime/context.js";
 import { fetchSlab, parseUsedIndices, parseAccount, AccountKind } from "../solana/slab.js";
 import { validatePublicKey } from "../validation.js";
@@ -108,11 +109,13 @@ export function registerBestPrice(program: Command): void {
   program
     .command("best-price")
     .description("Scan LPs and find best prices for trading")
-    .requiredOption("--slab <pubkey>", "Slab account public key")
-    .requiredOption("--oracle <pubkey>", "Price oracle account")
+    .option("--market <name>", "Market from the registry (fills --slab, --oracle)")
+    .option("--slab <pubkey>", "Slab account public key")
+    .option("--oracle <pubkey>", "Price oracle account")
     .action(async (opts, cmd) => {
       const flags = getGlobalFlags(cmd);
       const config = loadConfig(flags);
+      applyMarket(opts, config, ["slab", "oracle"]);
       const ctx = createContext(config);
 
       const slabPk = validatePublicKey(opts.slab, "--slab");
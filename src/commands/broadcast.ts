@@ -0,0 +1,140 @@
+import { Command } from "commander";
+import fs from "node:fs";
+import { PublicKey, SystemProgram, VersionedTransaction } from "@solana/web3.js";
+import { getGlobalFlags } from "../cli.js";
+import { loadConfig } from "../config.js";
+import { createContext } from "../runtime/context.js";
+import {
+  AnyTransaction,
+  deserializeTransaction,
+  serializeTransaction,
+  partialSign,
+  missingSigners,
+  sendRaw,
+  formatResult,
+  TxResult,
+} from "../runtime/tx.js";
+
+// SystemInstruction::AdvanceNonceAccount
+const ADVANCE_NONCE_TAG = 4;
+
+/**
+ * Read a base64 transaction given inline or as @path.
+ */
+function readTransaction(arg: string): string {
+  if (arg.startsWith("@")) {
+    return fs.readFileSync(arg.slice(1), "utf-8").trim();
+  }
+  return arg.trim();
+}
+
+/**
+ * Recent blockhash (or nonce value) and durable nonce account, if the
+ * transaction's first instruction advances one.
+ */
+function transactionLifetime(tx: AnyTransaction): {
+  blockhash: string;
+  nonceAccount?: PublicKey;
+} {
+  if (tx instanceof VersionedTransaction) {
+    const message = tx.message;
+    const keys = message.staticAccountKeys;
+    const first = message.compiledInstructions[0];
+    const isAdvance =
+      first !== undefined &&
+      keys[first.programIdIndex]?.equals(SystemProgram.programId) &&
+      first.data.length >= 4 &&
+      Buffer.from(first.data).readUInt32LE(0) === ADVANCE_NONCE_TAG;
+    return {
+      blockhash: message.recentBlockhash,
+      nonceAccount: isAdvance ? keys[first.accountKeyIndexes[0]] : undefined,
+    };
+  }
+
+  const first = tx.instructions[0];
+  const isAdvance =
+    first !== undefined &&
+    first.programId.equals(SystemProgram.programId) &&
+    first.data.length >= 4 &&
+    first.data.readUInt32LE(0) === ADVANCE_NONCE_TAG;
+  return {
+    blockhash: tx.recentBlockhash ?? "",
+    nonceAccount: isAdvance ? first.keys[0].pubkey : undefined,
+  };
+}
+
+export function registerBroadcast(program: Command): void {
+  program
+    .command("broadcast")
+    .description("Submit a transaction produced with --sign-only")
+    .requiredOption("--tx <base64|@file>", "Base64 transaction, or @path to a file containing it")
+    .option("--sign", "Add the wallet's signature before sending (e.g. as fee payer)")
+    .action(async (opts, cmd) => {
+      const flags = getGlobalFlags(cmd);
+      const config = loadConfig(flags);
+      const ctx = createContext(config);
+
+      let tx: AnyTransaction;
+      try {
+        tx = deserializeTransaction(readTransaction(opts.tx));
+      } catch (e) {
+        throw new Error(`--tx: not a valid base64 transaction (${e instanceof Error ? e.message : e})`);
+      }
+
+      if (opts.sign) {
+        partialSign(tx, [ctx.payer]);
+      }
+
+      const missing = missingSigners(tx).map((pk) => pk.toBase58());
+      const lifetime = transactionLifetime(tx);
+
+      if (missing.length > 0) {
+        // Still not fully signed: hand the updated blob on to the next signer
+        const result: TxResult = {
+          signature: "(sign-only)",
+          slot: 0,
+          err: null,
+          logs: [],
+          serializedTx: serializeTransaction(tx),
+          missingSigners: missing,
+        };
+        if (!flags.json) {
+          console.log("Transaction is not fully signed; not broadcasting.");
+        }
+        console.log(formatResult(result, flags.json ?? false, ctx.cluster, ctx.rpcUrl));
+        process.exitCode = 1;
+        return;
+      }
+
+      let result: TxResult;
+      try {
+        if (lifetime.nonceAccount) {
+          const { context } = await ctx.connection.getNonceAndContext(
+            lifetime.nonceAccount,
+            ctx.commitment
+          );
+          result = await sendRaw(ctx.connection, tx.serialize(), ctx.commitment, {
+            nonceAccountPubkey: lifetime.nonceAccount,
+            nonceValue: lifetime.blockhash,
+            minContextSlot: context.slot,
+          }, ctx.programId);
+        } else {
+          // The original lastValidBlockHeight is not carried in the transaction, so poll for status
+          result = await sendRaw(ctx.connection, tx.serialize(), ctx.commitment, undefined, ctx.programId);
+        }
+      } catch (e: unknown) {
+        result = {
+          signature: "",
+          slot: 0,
+          err: e instanceof Error ? e.message : String(e),
+          logs: [],
+        };
+      }
+
+      if (!flags.json && lifetime.nonceAccount) {
+        console.log(`Nonce Account: ${lifetime.nonceAccount.toBase58()}`);
+      }
+      console.log(formatResult(result, flags.json ?? false, ctx.cluster, ctx.rpcUrl));
+      if (result.err) process.exitCode = 1;
+    });
+}
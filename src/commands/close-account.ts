@@ -1,38 +1,49 @@
 import { Command } from "commander";
 import { getGlobalFlags } from "../cli.js";
 import { loadConfig } from "../config.js";
+import { applyMarket } from "../market.js";
 import { createContext } from "../runtime/context.js";
-import { fetchSlab, parseConfig } from "../solana/slab.js";
+import { fetchSlab, parseConfig, findUserIdx } from "../solana/slab.js";
 import { getAta } from "../solana/ata.js";
 import { deriveVaultAuthority } from "../solana/pda.js";
 import { encodeCloseAccount } from "../abi/instructions.js";
 import {
   ACCOUNTS_CLOSE_ACCOUNT,
-  buildAccountMetas,
   WELL_KNOWN,
 } from "../abi/accounts.js";
 import { buildIx, simulateOrSend, formatResult } from "../runtime/tx.js";
-import { validatePublicKey, validateIndex } from "../validation.js";
+import { buildCheckedAccountMetas, assertAccountIndices } from "../runtime/preflight.js";
+import { validatePublicKey, validateIndex, validateU64 } from "../validation.js";
 
 export function registerCloseAccount(program: Command): void {
   program
     .command("close-account")
     .description("Close a user account and withdraw remaining collateral")
-    .requiredOption("--slab <pubkey>", "Slab account public key")
-    .requiredOption("--user-idx <number>", "User account index to close")
+    .option("--market <name>", "Market from the registry (fills --slab)")
+    .option("--slab <pubkey>", "Slab account public key")
+    .option("--user-idx <number>", "User account index to close (default: the wallet's only User account)")
+    .option("--account-id <id>", "Expected account ID at the user index; fails if the slot was closed and reused")
     .action(async (opts, cmd) => {
       const flags = getGlobalFlags(cmd);
       const config = loadConfig(flags);
+      applyMarket(opts, config, ["slab"]);
       const ctx = createContext(config);
 
       // Validate inputs
       const slabPk = validatePublicKey(opts.slab, "--slab");
-      const userIdx = validateIndex(opts.userIdx, "--user-idx");
+      const accountId = opts.accountId !== undefined ? validateU64(opts.accountId, "--account-id") : undefined;
 
       // Fetch slab config for vault and oracle
       const data = await fetchSlab(ctx.connection, slabPk);
       const mktConfig = parseConfig(data);
 
+      // Default to the wallet's only User account
+      const userIdx =
+        opts.userIdx !== undefined
+          ? validateIndex(opts.userIdx, "--user-idx")
+          : findUserIdx(data, ctx.payer.publicKey);
+      assertAccountIndices(data, [{ idx: userIdx, flag: "--user-idx", owner: ctx.payer.publicKey, accountId }]);
+
       // Get user's ATA for the collateral mint
       const userAta = await getAta(ctx.payer.publicKey, mktConfig.collateralMint);
 
@@ -43,7 +54,7 @@ export function registerCloseAccount(program: Command): void {
       const ixData = encodeCloseAccount({ userIdx });
 
       // Build account metas (order matches ACCOUNTS_CLOSE_ACCOUNT)
-      const keys = buildAccountMetas(ACCOUNTS_CLOSE_ACCOUNT, [
+      const keys = await buildCheckedAccountMetas(ctx, ACCOUNTS_CLOSE_ACCOUNT, [
         ctx.payer.publicKey, // user
         slabPk, // slab
         mktConfig.vaultPubkey, // vault
@@ -66,8 +77,9 @@ export function registerCloseAccount(program: Command): void {
         signers: [ctx.payer],
         simulate: flags.simulate ?? false,
         commitment: ctx.commitment,
+        ...ctx.txOptions,
       });
 
-      console.log(formatResult(result, flags.json ?? false));
+      console.log(formatResult(result, flags.json ?? false, ctx.cluster, ctx.rpcUrl));
     });
 }
@@ -1,18 +1,12 @@
 import { Command } from "commander";
-import { PublicKey, Transaction, ComputeBudgetProgram, sendAndConfirmTransaction } from "@solana/web3.js";
 import { getGlobalFlags } from "../cli.js";
 import { loadConfig } from "../config.js";
 import { createContext } from "../runtime/context.js";
 import { encodeCloseSlab } from "../abi/instructions.js";
-import {
-  ACCOUNTS_CLOSE_SLAB,
-  buildAccountMetas,
-} from "../abi/accounts.js";
-import { buildIx } from "../runtime/tx.js";
-
-// PERCOLAT magic bytes for filtering
-const PERCOLAT_MAGIC = Buffer.from([0x50, 0x45, 0x52, 0x43, 0x4f, 0x4c, 0x41, 0x54]);
-const SLAB_SIZE = 992560; // Expected slab size (haircut-ratio refactor)
+import { ACCOUNTS_CLOSE_SLAB } from "../abi/accounts.js";
+import { buildIx, simulateOrSend } from "../runtime/tx.js";
+import { buildCheckedAccountMetas } from "../runtime/preflight.js";
+import { fetchAllSlabs } from "../solana/slab.js";
 
 export function registerCloseAllSlabs(program: Command): void {
   program
@@ -26,33 +20,17 @@ export function registerCloseAllSlabs(program: Command): void {
       const ctx = createContext(config);
 
       const dryRun = opts.dryRun ?? false;
+      const simulate = flags.simulate ?? false;
       const limit = parseInt(opts.limit, 10);
+      // One transaction per slab; signed copies would be reported as closed
+      if (ctx.txOptions.signOnly) {
+        throw new Error("close-all-slabs sends a transaction per slab and does not support --sign-only");
+      }
 
       console.log(`Searching for slab accounts owned by ${ctx.programId.toBase58()}...`);
 
-      // Find all program accounts with the correct size
-      let accounts;
-      try {
-        accounts = await ctx.connection.getProgramAccounts(ctx.programId, {
-          filters: [
-            { dataSize: SLAB_SIZE },
-          ],
-        });
-      } catch (e: any) {
-        // Fallback for RPC providers that don't support getProgramAccounts well
-        console.log("getProgramAccounts failed, trying memcmp filter...");
-        accounts = await ctx.connection.getProgramAccounts(ctx.programId, {
-          filters: [
-            { memcmp: { offset: 0, bytes: PERCOLAT_MAGIC.toString("base64") } },
-          ],
-        });
-      }
-
-      // Filter to only include accounts with PERCOLAT magic
-      const slabs = accounts.filter(({ account }) => {
-        if (account.data.length < 8) return false;
-        return account.data.subarray(0, 8).equals(PERCOLAT_MAGIC);
-      });
+      // All program accounts with a known slab size and the PERCOLAT magic
+      const slabs = await fetchAllSlabs(ctx.connection, ctx.programId);
 
       console.log(`Found ${slabs.length} slab account(s)`);
 
@@ -78,12 +56,12 @@ export function registerCloseAllSlabs(program: Command): void {
       let totalRecovered = 0;
 
       const toClose = slabs.slice(0, limit);
-      console.log(`\nClosing ${toClose.length} slab(s)...`);
+      console.log(`\n${simulate ? "Simulating closing" : "Closing"} ${toClose.length} slab(s)...`);
 
       for (const { pubkey, account } of toClose) {
         try {
           const ixData = encodeCloseSlab();
-          const keys = buildAccountMetas(ACCOUNTS_CLOSE_SLAB, [
+          const keys = await buildCheckedAccountMetas(ctx, ACCOUNTS_CLOSE_SLAB, [
             ctx.payer.publicKey,
             pubkey,
           ]);
@@ -94,27 +72,35 @@ export function registerCloseAllSlabs(program: Command): void {
             data: ixData,
           });
 
-          const tx = new Transaction();
-          tx.add(ComputeBudgetProgram.setComputeUnitLimit({ units: 1_400_000 }));
-          tx.add(ix);
-
-          const sig = await sendAndConfirmTransaction(ctx.connection, tx, [ctx.payer], {
+          // Closing a full slab is compute-heavy; size the limit from a simulation
+          const result = await simulateOrSend({
+            connection: ctx.connection,
+            ix,
+            signers: [ctx.payer],
+            simulate,
             commitment: ctx.commitment,
+            ...ctx.txOptions,
+            autoComputeUnits: { marginPct: config.computeUnitMargin },
           });
+          if (result.err) {
+            throw new Error(result.err);
+          }
 
           const solRecovered = account.lamports / 1e9;
           totalRecovered += solRecovered;
           closed++;
-          console.log(`  Closed ${pubkey.toBase58().slice(0, 8)}... (+${solRecovered.toFixed(4)} SOL)`);
+          console.log(
+            `  ${simulate ? "Would close" : "Closed"} ${pubkey.toBase58().slice(0, 8)}... (+${solRecovered.toFixed(4)} SOL)`
+          );
         } catch (e: any) {
           failed++;
           console.log(`  Failed ${pubkey.toBase58().slice(0, 8)}...: ${e.message?.slice(0, 50)}`);
         }
       }
 
-      console.log(`\nSummary:`);
-      console.log(`  Closed: ${closed}`);
+      console.log(`\nSummary${simulate ? " (simulated, nothing sent)" : ""}:`);
+      console.log(`  ${simulate ? "Would close" : "Closed"}: ${closed}`);
       console.log(`  Failed: ${failed}`);
-      console.log(`  SOL recovered: ${totalRecovered.toFixed(4)}`);
+      console.log(`  SOL ${simulate ? "recoverable" : "recovered"}: ${totalRecovered.toFixed(4)}`);
     });
 }
@@ -3,11 +3,9 @@ import { getGlobalFlags } from "../cli.js";
 import { loadConfig } from "../config.js";
 import { createContext } from "../runtime/context.js";
 import { encodeCloseSlab } from "../abi/instructions.js";
-import {
-  ACCOUNTS_CLOSE_SLAB,
-  buildAccountMetas,
-} from "../abi/accounts.js";
+import { ACCOUNTS_CLOSE_SLAB } from "../abi/accounts.js";
 import { buildIx, simulateOrSend, formatResult } from "../runtime/tx.js";
+import { buildCheckedAccountMetas } from "../runtime/preflight.js";
 import { validatePublicKey } from "../validation.js";
 
 export function registerCloseSlab(program: Command): void {
@@ -27,7 +25,7 @@ export function registerCloseSlab(program: Command): void {
       const ixData = encodeCloseSlab();
 
       // Build account metas (order matches ACCOUNTS_CLOSE_SLAB)
-      const keys = buildAccountMetas(ACCOUNTS_CLOSE_SLAB, [
+      const keys = await buildCheckedAccountMetas(ctx, ACCOUNTS_CLOSE_SLAB, [
         ctx.payer.publicKey, // admin
         slabPk, // slab
       ]);
@@ -44,8 +42,9 @@ export function registerCloseSlab(program: Command): void {
         signers: [ctx.payer],
         simulate: flags.simulate ?? false,
         commitment: ctx.commitment,
+        ...ctx.txOptions,
       });
 
-      console.log(formatResult(result, flags.json ?? false));
+      console.log(formatResult(result, flags.json ?? false, ctx.cluster, ctx.rpcUrl));
     });
 }
@@ -1,44 +1,56 @@
 import { Command } from "commander";
 import { getGlobalFlags } from "../cli.js";
 import { loadConfig } from "../config.js";
+import { applyMarket } from "../market.js";
 import { createContext } from "../runtime/context.js";
-import { fetchSlab, parseConfig } from "../solana/slab.js";
+import { fetchSlab, parseConfig, findUserIdx } from "../solana/slab.js";
 import { getAta } from "../solana/ata.js";
 import { encodeDepositCollateral } from "../abi/instructions.js";
 import {
   ACCOUNTS_DEPOSIT_COLLATERAL,
-  buildAccountMetas,
   WELL_KNOWN,
 } from "../abi/accounts.js";
 import { buildIx, simulateOrSend, formatResult } from "../runtime/tx.js";
+import { buildCheckedAccountMetas, assertAccountIndices } from "../runtime/preflight.js";
 import {
   validatePublicKey,
   validateIndex,
   validateAmount,
+  validateU64,
 } from "../validation.js";
 
 export function registerDeposit(program: Command): void {
   program
     .command("deposit")
     .description("Deposit collateral to user account")
-    .requiredOption("--slab <pubkey>", "Slab account public key")
-    .requiredOption("--user-idx <number>", "User account index")
+    .option("--market <name>", "Market from the registry (fills --slab)")
+    .option("--slab <pubkey>", "Slab account public key")
+    .option("--user-idx <number>", "User account index (default: the wallet's only User account)")
     .requiredOption("--amount <string>", "Amount to deposit (native units)")
+    .option("--account-id <id>", "Expected account ID at the user index; fails if the slot was closed and reused")
     .action(async (opts, cmd) => {
       const flags = getGlobalFlags(cmd);
       const config = loadConfig(flags);
+      applyMarket(opts, config, ["slab"]);
       const ctx = createContext(config);
 
       // Validate inputs
       const slabPk = validatePublicKey(opts.slab, "--slab");
-      const userIdx = validateIndex(opts.userIdx, "--user-idx");
       validateAmount(opts.amount, "--amount");
       const amount = opts.amount;
+      const accountId = opts.accountId !== undefined ? validateU64(opts.accountId, "--account-id") : undefined;
 
       // Fetch slab config for vault
       const data = await fetchSlab(ctx.connection, slabPk);
       const mktConfig = parseConfig(data);
 
+      // Default to the wallet's only User account
+      const userIdx =
+        opts.userIdx !== undefined
+          ? validateIndex(opts.userIdx, "--user-idx")
+          : findUserIdx(data, ctx.payer.publicKey);
+      assertAccountIndices(data, [{ idx: userIdx, flag: "--user-idx", owner: ctx.payer.publicKey, accountId }]);
+
       // Get user's ATA for the collateral mint
       const userAta = await getAta(ctx.payer.publicKey, mktConfig.collateralMint);
 
@@ -46,7 +58,7 @@ export function registerDeposit(program: Command): void {
       const ixData = encodeDepositCollateral({ userIdx, amount });
 
       // Build account metas (order matches ACCOUNTS_DEPOSIT_COLLATERAL)
-      const keys = buildAccountMetas(ACCOUNTS_DEPOSIT_COLLATERAL, [
+      const keys = await buildCheckedAccountMetas(ctx, ACCOUNTS_DEPOSIT_COLLATERAL, [
         ctx.payer.publicKey, // user
         slabPk, // slab
         userAta, // userAta
@@ -67,8 +79,9 @@ export function registerDeposit(program: Command): void {
         signers: [ctx.payer],
         simulate: flags.simulate ?? false,
         commitment: ctx.commitment,
+        ...ctx.txOptions,
       });
 
-      console.log(formatResult(result, flags.json ?? false));
+      console.log(formatResult(result, flags.json ?? false, ctx.cluster, ctx.rpcUrl));
     });
 }
@@ -0,0 +1,165 @@
+import { Command } from "commander";
+import { getMint } from "@solana/spl-token";
+import { getGlobalFlags } from "../cli.js";
+import { loadConfig } from "../config.js";
+import { applyMarket } from "../market.js";
+import { createContext } from "../runtime/context.js";
+import { fetchSlab, parseConfig, parseEngine, parseAllAccounts, AccountKind } from "../solana/slab.js";
+import { resolveMarketPrice } from "../solana/oracle.js";
+import { fundingRateBpsPerSlot, fundingIndexAt, unsettledFunding, annualizedBps } from "../funding.js";
+import { formatUnits, fromEngineUnits, formatBpsPercent } from "../units.js";
+import { validatePublicKey, validateU64 } from "../validation.js";
+
+export function registerFunding(program: Command): void {
+  program
+    .command("funding")
+    .description("Project the next funding rate and show each account's unsettled funding")
+    .option("--market <name>", "Market from the registry (fills --slab, --oracle)")
+    .option("--slab <pubkey>", "Slab account public key")
+    .option("--oracle <pubkey>", "Price from this Pyth or Chainlink account (default: the market's last price)")
+    .option("--price <e6>", "Evaluate at this feed price in e6, before inversion and unit scaling")
+    .option("--limit <number>", "Accounts to list, largest unsettled funding first", "20")
+    .option("--check", "Exit 1 if the projected rate differs from the stored one (run right after a crank)")
+    .action(async (opts, cmd) => {
+      const flags = getGlobalFlags(cmd);
+      const config = loadConfig(flags);
+      applyMarket(opts, config, ["slab"], ["oracle"]);
+      const ctx = createContext(config);
+
+      const slabPk = validatePublicKey(opts.slab, "--slab");
+      const limit = parseInt(opts.limit, 10);
+      if (!Number.isInteger(limit) || limit <= 0) {
+        throw new Error("--limit must be a positive integer");
+      }
+
+      const [data, slot] = await Promise.all([fetchSlab(ctx.connection, slabPk), ctx.connection.getSlot()]);
+      const mktConfig = parseConfig(data);
+      const engine = parseEngine(data);
+      const price = await resolveMarketPrice(ctx.connection, mktConfig, {
+        feedPriceE6: opts.price !== undefined ? validateU64(opts.price, "--price") : undefined,
+        oracle: opts.oracle !== undefined ? validatePublicKey(opts.oracle, "--oracle") : undefined,
+      });
+      const now = BigInt(slot);
+
+      const storedRate = engine.fundingRateBpsPerSlotLast;
+      const projectedRate = fundingRateBpsPerSlot(mktConfig, engine.netLpPos, price.enginePriceE6);
+      const matches = projectedRate === storedRate;
+      const lpNotional =
+        ((engine.netLpPos < 0n ? -engine.netLpPos : engine.netLpPos) * price.enginePriceE6) / 1_000_000n;
+      // What the next crank settles against: the stored rate accrued to now
+      const index = fundingIndexAt(engine, price.enginePriceE6, now);
+
+      const accounts = parseAllAccounts(data)
+        .map(({ idx, account }) => ({ idx, account, funding: unsettledFunding(account, index) }))
+        .filter((a) => a.account.positionSize !== 0n || a.funding !== 0n)
+        .sort((a, b) => {
+          const absA = a.funding < 0n ? -a.funding : a.funding;
+          const absB = b.funding < 0n ? -b.funding : b.funding;
+          return absA === absB ? a.idx - b.idx : absA > absB ? -1 : 1;
+        });
+      let owed = 0n;
+      let received = 0n;
+      for (const a of accounts) {
+        if (a.funding > 0n) owed += a.funding;
+        else received -= a.funding;
+      }
+
+      if (opts.check && !matches) {
+        process.exitCode = 1;
+      }
+
+      if (flags.json) {
+        console.log(
+          JSON.stringify(
+            {
+              slab: slabPk.toBase58(),
+              slot: now.toString(),
+              priceSource: price.source,
+              feedPriceE6: price.feedPriceE6?.toString() ?? null,
+              enginePriceE6: price.enginePriceE6.toString(),
+              netLpPos: engine.netLpPos.toString(),
+              lpSumAbs: engine.lpSumAbs.toString(),
+              lpNotional: lpNotional.toString(),
+              params: {
+                horizonSlots: mktConfig.fundingHorizonSlots.toString(),
+                kBps: mktConfig.fundingKBps.toString(),
+                invScaleNotionalE6: mktConfig.fundingInvScaleNotionalE6.toString(),
+                maxPremiumBps: mktConfig.fundingMaxPremiumBps.toString(),
+                maxBpsPerSlot: mktConfig.fundingMaxBpsPerSlot.toString(),
+              },
+              storedRateBpsPerSlot: storedRate.toString(),
+              storedAprBps: annualizedBps(storedRate).toString(),
+              projectedRateBpsPerSlot: projectedRate.toString(),
+              projectedAprBps: annualizedBps(projectedRate).toString(),
+              matchesStored: matches,
+              fundingIndexQpbE6: engine.fundingIndexQpbE6.toString(),
+              lastFundingSlot: engine.lastFundingSlot.toString(),
+              projectedIndexQpbE6: index.toString(),
+              totalOwed: owed.toString(),
+              totalReceived: received.toString(),
+              accounts: accounts.slice(0, limit).map((a) => ({
+                idx: a.idx,
+                kind: a.account.kind === AccountKind.LP ? "LP" : "User",
+                owner: a.account.owner.toBase58(),
+                positionSize: a.account.positionSize.toString(),
+                fundingIndex: a.account.fundingIndex.toString(),
+                unsettledFunding: a.funding.toString(),
+              })),
+            },
+            null,
+            2
+          )
+        );
+        return;
+      }
+
+      const { decimals } = await getMint(ctx.connection, mktConfig.collateralMint);
+      const amount = (units: bigint) => formatUnits(fromEngineUnits(units, mktConfig.unitScale), decimals);
+      const rate = (bps: bigint) => `${bps} bps/slot (${formatBpsPercent(annualizedBps(bps))} APR)`;
+
+      console.log("--- Funding ---");
+      console.log(`Price Source:            ${price.source}`);
+      console.log(`Engine Price:            ${formatUnits(price.enginePriceE6, 6)}`);
+      console.log(`Net LP Position:         ${engine.netLpPos} (${amount(lpNotional)} notional)`);
+      console.log(`Horizon:                 ${mktConfig.fundingHorizonSlots} slots`);
+      console.log(`K:                       ${mktConfig.fundingKBps} bps`);
+      console.log(`Inventory Scale:         ${mktConfig.fundingInvScaleNotionalE6}`);
+      console.log(`Max Premium:             ${mktConfig.fundingMaxPremiumBps} bps`);
+      console.log(`Max Rate:                ${mktConfig.fundingMaxBpsPerSlot} bps/slot`);
+      console.log("");
+      console.log("--- Rate ---");
+      console.log(`Stored (last crank):     ${rate(storedRate)}`);
+      console.log(`Projected (next crank):  ${rate(projectedRate)}`);
+      console.log(
+        `Matches Stored:          ${
+          matches ? "yes" : "NO (LP inventory or price changed since the last crank, or the formula has drifted)"
+        }`
+      );
+      console.log(
+        `Direction:               ${projectedRate > 0n ? "longs pay shorts" : projectedRate < 0n ? "shorts pay longs" : "none"}`
+      );
+      console.log("");
+      console.log("--- Index ---");
+      console.log(`Funding Index:           ${engine.fundingIndexQpbE6} (slot ${engine.lastFundingSlot})`);
+      console.log(`Accrued to Now:          ${index} (slot ${now})`);
+      console.log("");
+
+      console.log(`--- Unsettled Funding (${accounts.length} accounts) ---`);
+      if (accounts.length > 0) {
+        console.log(`${"Idx".padStart(5)}  ${"Kind".padEnd(4)}  ${"Position".padStart(20)}  ${"Funding".padStart(16)}`);
+        for (const a of accounts.slice(0, limit)) {
+          const kind = a.account.kind === AccountKind.LP ? "LP" : "User";
+          console.log(
+            `${a.idx.toString().padStart(5)}  ${kind.padEnd(4)}  ${a.account.positionSize.toString().padStart(20)}  ${amount(-a.funding).padStart(16)}`
+          );
+        }
+        if (accounts.length > limit) {
+          console.log(`  ... ${accounts.length - limit} more (raise --limit)`);
+        }
+      }
+      console.log(`Total Owed:              ${amount(owed)}`);
+      console.log(`Total Received:          ${amount(received)}`);
+      console.log("");
+      console.log("Funding column is the PnL change on settlement (negative = the account pays).");
+    });
+}
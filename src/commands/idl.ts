@@ -0,0 +1,56 @@
+import { Command } from "commander";
+import { readFileSync, writeFileSync } from "node:fs";
+import { getGlobalFlags } from "../cli.js";
+import { loadConfig } from "../config.js";
+import { buildIdl, diffIdl } from "../abi/idl.js";
+
+export function registerIdl(program: Command): void {
+  program
+    .command("idl")
+    .description("Print the program IDL (Anchor/Codama JSON) or check a saved copy against this CLI")
+    .option("--out <file>", "Write the IDL to a file instead of stdout")
+    .option("--check <file>", "Compare a saved IDL with the one this CLI generates; exits 1 on drift")
+    .action(async (opts, cmd) => {
+      const flags = getGlobalFlags(cmd);
+
+      // The check compares against the CLI's own definitions, so it needs no config
+      if (opts.check) {
+        let saved: unknown;
+        try {
+          saved = JSON.parse(readFileSync(opts.check, "utf-8"));
+        } catch (e) {
+          throw new Error(`Failed to read ${opts.check}: ${e}`);
+        }
+        // The address depends on the deployment, not the definitions; keep the saved one
+        const savedAddress = (saved as { address?: unknown }).address;
+        const expected = buildIdl(typeof savedAddress === "string" ? savedAddress : undefined);
+        const diffs = diffIdl(expected, saved);
+
+        if (flags.json) {
+          console.log(JSON.stringify({ file: opts.check, upToDate: diffs.length === 0, differences: diffs }, null, 2));
+        } else if (diffs.length === 0) {
+          console.log(`${opts.check} is up to date`);
+        } else {
+          console.log(`${opts.check} differs from the CLI's definitions at ${diffs.length} path(s):`);
+          for (const path of diffs) {
+            console.log(`  ${path}`);
+          }
+          console.log("");
+          console.log(`Regenerate it with: percolator-cli idl --out ${opts.check}`);
+        }
+        if (diffs.length > 0) {
+          process.exitCode = 1;
+        }
+        return;
+      }
+
+      const config = loadConfig(flags);
+      const json = JSON.stringify(buildIdl(config.programId), null, 2);
+      if (opts.out) {
+        writeFileSync(opts.out, json + "\n");
+        console.log(`Wrote IDL to ${opts.out}`);
+      } else {
+        console.log(json);
+      }
+    });
+}
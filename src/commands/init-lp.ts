@@ -1,29 +1,32 @@
 import { Command } from "commander";
 import { getGlobalFlags } from "../cli.js";
 import { loadConfig } from "../config.js";
+import { applyMarket } from "../market.js";
 import { createContext } from "../runtime/context.js";
 import { fetchSlab, parseConfig } from "../solana/slab.js";
 import { getAta } from "../solana/ata.js";
 import { encodeInitLP } from "../abi/instructions.js";
 import {
   ACCOUNTS_INIT_LP,
-  buildAccountMetas,
   WELL_KNOWN,
 } from "../abi/accounts.js";
 import { buildIx, simulateOrSend, formatResult } from "../runtime/tx.js";
+import { buildCheckedAccountMetas } from "../runtime/preflight.js";
 import { validatePublicKey, validateU128 } from "../validation.js";
 
 export function registerInitLp(program: Command): void {
   program
     .command("init-lp")
     .description("Initialize a new LP account")
-    .requiredOption("--slab <pubkey>", "Slab account public key")
-    .requiredOption("--matcher-program <pubkey>", "Matcher program ID")
-    .requiredOption("--matcher-context <pubkey>", "Matcher context account")
+    .option("--market <name>", "Market from the registry (fills --slab, --matcher-program, --matcher-context)")
+    .option("--slab <pubkey>", "Slab account public key")
+    .option("--matcher-program <pubkey>", "Matcher program ID")
+    .option("--matcher-context <pubkey>", "Matcher context account")
     .requiredOption("--fee <string>", "Fee payment amount (native units)")
     .action(async (opts, cmd) => {
       const flags = getGlobalFlags(cmd);
       const config = loadConfig(flags);
+      applyMarket(opts, config, ["slab", "matcherProgram", "matcherContext"]);
       const ctx = createContext(config);
 
       // Validate inputs
@@ -47,7 +50,7 @@ export function registerInitLp(program: Command): void {
       });
 
       // Build account metas (order matches ACCOUNTS_INIT_LP: 5 accounts)
-      const keys = buildAccountMetas(ACCOUNTS_INIT_LP, [
+      const keys = await buildCheckedAccountMetas(ctx, ACCOUNTS_INIT_LP, [
         ctx.payer.publicKey, // user
         slabPk, // slab
         userAta, // userAta
@@ -67,8 +70,9 @@ export function registerInitLp(program: Command): void {
         signers: [ctx.payer],
         simulate: flags.simulate ?? false,
         commitment: ctx.commitment,
+        ...ctx.txOptions,
       });
 
-      console.log(formatResult(result, flags.json ?? false));
+      console.log(formatResult(result, flags.json ?? false, ctx.cluster, ctx.rpcUrl));
     });
 }
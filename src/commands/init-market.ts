@@ -107,8 +107,9 @@ export function registerInitMarket(program: Command): void {
         signers: [ctx.payer],
         simulate: flags.simulate ?? false,
         commitment: ctx.commitment,
+        ...ctx.txOptions,
       });
 
-      console.log(formatResult(result, flags.json ?? false));
+      console.log(formatResult(result, flags.json ?? false, ctx.cluster, ctx.rpcUrl));
     });
 }
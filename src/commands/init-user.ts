@@ -1,27 +1,30 @@
 import { Command } from "commander";
 import { getGlobalFlags } from "../cli.js";
 import { loadConfig } from "../config.js";
+import { applyMarket } from "../market.js";
 import { createContext } from "../runtime/context.js";
 import { fetchSlab, parseConfig } from "../solana/slab.js";
 import { getAta } from "../solana/ata.js";
 import { encodeInitUser } from "../abi/instructions.js";
 import {
   ACCOUNTS_INIT_USER,
-  buildAccountMetas,
   WELL_KNOWN,
 } from "../abi/accounts.js";
 import { buildIx, simulateOrSend, formatResult } from "../runtime/tx.js";
+import { buildCheckedAccountMetas } from "../runtime/preflight.js";
 import { validatePublicKey, validateU128 } from "../validation.js";
 
 export function registerInitUser(program: Command): void {
   program
     .command("init-user")
     .description("Initialize a new user account")
-    .requiredOption("--slab <pubkey>", "Slab account public key")
+    .option("--market <name>", "Market from the registry (fills --slab)")
+    .option("--slab <pubkey>", "Slab account public key")
     .requiredOption("--fee <string>", "Fee payment amount (native units)")
     .action(async (opts, cmd) => {
       const flags = getGlobalFlags(cmd);
       const config = loadConfig(flags);
+      applyMarket(opts, config, ["slab"]);
       const ctx = createContext(config);
 
       // Validate inputs
@@ -39,7 +42,7 @@ export function registerInitUser(program: Command): void {
       const ixData = encodeInitUser({ feePayment: opts.fee });
 
       // Build account metas (order matches ACCOUNTS_INIT_USER: 5 accounts)
-      const keys = buildAccountMetas(ACCOUNTS_INIT_USER, [
+      const keys = await buildCheckedAccountMetas(ctx, ACCOUNTS_INIT_USER, [
         ctx.payer.publicKey, // user (signer)
         slabPk, // slab (writable)
         userAta, // userAta (writable)
@@ -59,8 +62,9 @@ export function registerInitUser(program: Command): void {
         signers: [ctx.payer],
         simulate: flags.simulate ?? false,
         commitment: ctx.commitment,
+        ...ctx.txOptions,
       });
 
-      console.log(formatResult(result, flags.json ?? false));
+      console.log(formatResult(result, flags.json ?? false, ctx.cluster, ctx.rpcUrl));
     });
 }
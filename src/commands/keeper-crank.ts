@@ -1,14 +1,15 @@
 import { Command } from "commander";
 import { getGlobalFlags } from "../cli.js";
 import { loadConfig } from "../config.js";
+import { applyMarket } from "../market.js";
 import { createContext } from "../runtime/context.js";
 import { encodeKeeperCrank } from "../abi/instructions.js";
 import {
   ACCOUNTS_KEEPER_CRANK,
-  buildAccountMetas,
   WELL_KNOWN,
 } from "../abi/accounts.js";
 import { buildIx, simulateOrSend, formatResult } from "../runtime/tx.js";
+import { buildCheckedAccountMetas } from "../runtime/preflight.js";
 import {
   validatePublicKey,
   validateIndex,
@@ -21,14 +22,16 @@ export function registerKeeperCrank(program: Command): void {
   program
     .command("keeper-crank")
     .description("Execute keeper crank operation (permissionless by default, funding rate computed on-chain)")
-    .requiredOption("--slab <pubkey>", "Slab account public key")
+    .option("--market <name>", "Market from the registry (fills --slab, --oracle)")
+    .option("--slab <pubkey>", "Slab account public key")
     .option("--caller-idx <number>", "Caller account index (default: 65535 for permissionless)")
     .option("--allow-panic", "Allow panic mode")
-    .requiredOption("--oracle <pubkey>", "Price oracle account")
+    .option("--oracle <pubkey>", "Price oracle account")
     .option("--compute-units <number>", "Custom compute unit limit (default: 200000, max: 1400000)")
     .action(async (opts, cmd) => {
       const flags = getGlobalFlags(cmd);
       const config = loadConfig(flags);
+      applyMarket(opts, config, ["slab", "oracle"]);
       const ctx = createContext(config);
 
       // Validate inputs
@@ -49,12 +52,12 @@ export function registerKeeperCrank(program: Command): void {
       });
 
       // Build account metas (order matches ACCOUNTS_KEEPER_CRANK)
-      const keys = buildAccountMetas(ACCOUNTS_KEEPER_CRANK, [
+      const keys = await buildCheckedAccountMetas(ctx, ACCOUNTS_KEEPER_CRANK, [
         ctx.payer.publicKey, // caller
         slabPk, // slab
         WELL_KNOWN.clock, // clock
         oracle, // oracle
-      ]);
+      ], callerIdx !== CRANK_NO_CALLER ? [{ idx: callerIdx, flag: "--caller-idx" }] : []);
 
       const ix = buildIx({
         programId: ctx.programId,
@@ -73,9 +76,10 @@ export function registerKeeperCrank(program: Command): void {
         signers: [ctx.payer],
         simulate: flags.simulate ?? false,
         commitment: ctx.commitment,
+        ...ctx.txOptions,
         computeUnitLimit,
       });
 
-      console.log(formatResult(result, flags.json ?? false));
+      console.log(formatResult(result, flags.json ?? false, ctx.cluster, ctx.rpcUrl));
     });
 }
@@ -1,26 +1,29 @@
 import { Command } from "commander";
 import { getGlobalFlags } from "../cli.js";
 import { loadConfig } from "../config.js";
+import { applyMarket } from "../market.js";
 import { createContext } from "../runtime/context.js";
 import { encodeLiquidateAtOracle } from "../abi/instructions.js";
 import {
   ACCOUNTS_LIQUIDATE_AT_ORACLE,
-  buildAccountMetas,
   WELL_KNOWN,
 } from "../abi/accounts.js";
 import { buildIx, simulateOrSend, formatResult } from "../runtime/tx.js";
+import { buildCheckedAccountMetas } from "../runtime/preflight.js";
 import { validatePublicKey, validateIndex } from "../validation.js";
 
 export function registerLiquidateAtOracle(program: Command): void {
   program
     .command("liquidate-at-oracle")
     .description("Liquidate an undercollateralized account at oracle price")
-    .requiredOption("--slab <pubkey>", "Slab account public key")
+    .option("--market <name>", "Market from the registry (fills --slab, --oracle)")
+    .option("--slab <pubkey>", "Slab account public key")
     .requiredOption("--target-idx <number>", "Target account index to liquidate")
-    .requiredOption("--oracle <pubkey>", "Price oracle account")
+    .option("--oracle <pubkey>", "Price oracle account")
     .action(async (opts, cmd) => {
       const flags = getGlobalFlags(cmd);
       const config = loadConfig(flags);
+      applyMarket(opts, config, ["slab", "oracle"]);
       const ctx = createContext(config);
 
       // Validate inputs
@@ -33,12 +36,12 @@ export function registerLiquidateAtOracle(program: Command): void {
 
       // Build account metas (order matches ACCOUNTS_LIQUIDATE_AT_ORACLE)
       // Note: account[0] is unused but required
-      const keys = buildAccountMetas(ACCOUNTS_LIQUIDATE_AT_ORACLE, [
+      const keys = await buildCheckedAccountMetas(ctx, ACCOUNTS_LIQUIDATE_AT_ORACLE, [
         ctx.payer.publicKey, // unused (but must be present)
         slabPk, // slab
         WELL_KNOWN.clock, // clock
         oracle, // oracle
-      ]);
+      ], [{ idx: targetIdx, flag: "--target-idx" }]);
 
       const ix = buildIx({
         programId: ctx.programId,
@@ -52,8 +55,9 @@ export function registerLiquidateAtOracle(program: Command): void {
         signers: [ctx.payer],
         simulate: flags.simulate ?? false,
         commitment: ctx.commitment,
+        ...ctx.txOptions,
       });
 
-      console.log(formatResult(result, flags.json ?? false));
+      console.log(formatResult(result, flags.json ?? false, ctx.cluster, ctx.rpcUrl));
     });
 }
@@ -1,15 +1,8 @@
 import { Command } from "commander";
-import { PublicKey } from "@solana/web3.js";
 import { getGlobalFlags } from "../cli.js";
 import { loadConfig } from "../config.js";
 import { createContext } from "../runtime/context.js";
-import { parseHeader, parseConfig, parseEngine, parseParams } from "../solana/slab.js";
-
-// PERCOLAT magic bytes
-const PERCOLAT_MAGIC = Buffer.from([0x50, 0x45, 0x52, 0x43, 0x4f, 0x4c, 0x41, 0x54]);
-// New slab size after haircut-ratio refactor (removed ADL scratch arrays)
-// = ENGINE_OFF(376) + ENGINE_ACCOUNTS_OFF(9136) + MAX_ACCOUNTS(4096) * ACCOUNT_SIZE(248)
-const SLAB_SIZE = 992560;
+import { fetchAllSlabs, parseHeader, parseConfig, parseEngine, parseParams } from "../solana/slab.js";
 
 export function registerListMarkets(program: Command): void {
   program
@@ -25,26 +18,7 @@ export function registerListMarkets(program: Command): void {
 
       console.log(`Searching for markets owned by ${ctx.programId.toBase58()}...`);
 
-      // Find all program accounts with slab size
-      let accounts;
-      try {
-        accounts = await ctx.connection.getProgramAccounts(ctx.programId, {
-          filters: [{ dataSize: SLAB_SIZE }],
-        });
-      } catch {
-        // Fallback with memcmp filter
-        accounts = await ctx.connection.getProgramAccounts(ctx.programId, {
-          filters: [
-            { memcmp: { offset: 0, bytes: PERCOLAT_MAGIC.toString("base64") } },
-          ],
-        });
-      }
-
-      // Filter to valid slabs
-      const markets = accounts.filter(({ account }) => {
-        if (account.data.length < 8) return false;
-        return account.data.subarray(0, 8).equals(PERCOLAT_MAGIC);
-      });
+      const markets = await fetchAllSlabs(ctx.connection, ctx.programId);
 
       if (json) {
         const result = markets.map(({ pubkey, account }) => {
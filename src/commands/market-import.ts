@@ -0,0 +1,123 @@
+import { Command } from "commander";
+import { readFileSync } from "node:fs";
+import { PublicKey } from "@solana/web3.js";
+import { getMint } from "@solana/spl-token";
+import { z } from "zod";
+import { getGlobalFlags } from "../cli.js";
+import { loadConfig, MarketManifest, MarketManifestSchema } from "../config.js";
+import { createContext } from "../runtime/context.js";
+import { loadRegistry, saveRegistry } from "../market.js";
+
+/**
+ * Shape of the devnet-market.json files written by the setup scripts.
+ * LP entries ("lp", "vammLp", ...) sit at the top level.
+ */
+const DeploymentFileSchema = z
+  .object({
+    network: z.string().optional(),
+    programId: z.string().optional(),
+    matcherProgramId: z.string().optional(),
+    slab: z.string(),
+    mint: z.string(),
+    oracle: z.string(),
+  })
+  .passthrough();
+
+const DeploymentLpSchema = z.object({
+  index: z.number().int(),
+  pda: z.string().optional(),
+  matcherContext: z.string().optional(),
+});
+
+/**
+ * Convert a deployment file to a manifest (without decimals), using the named LP entry.
+ */
+function fromDeploymentFile(raw: unknown, lpKey: string): Omit<MarketManifest, "decimals"> {
+  const file = DeploymentFileSchema.parse(raw);
+  const lpRaw = (file as Record<string, unknown>)[lpKey];
+  const lp = lpRaw !== undefined ? DeploymentLpSchema.parse(lpRaw) : undefined;
+  if (lpRaw === undefined && lpKey !== "lp") {
+    throw new Error(`File has no "${lpKey}" entry`);
+  }
+
+  return {
+    slab: file.slab,
+    oracle: file.oracle,
+    mint: file.mint,
+    matcher:
+      file.matcherProgramId && lp?.matcherContext
+        ? { program: file.matcherProgramId, context: lp.matcherContext }
+        : undefined,
+    lp: lp ? { index: lp.index, pda: lp.pda } : undefined,
+    programId: file.programId,
+    network: file.network,
+  };
+}
+
+export function registerMarketImport(program: Command): void {
+  program
+    .command("market:import")
+    .description("Add a market to the registry from a manifest or devnet-market.json file")
+    .argument("<file>", "Market manifest or deployment file (e.g. devnet-market.json)")
+    .requiredOption("--name <name>", "Name to register the market under")
+    .option("--lp <key>", "LP entry to use from a deployment file (e.g. lp, vammLp)", "lp")
+    .option("--decimals <number>", "Collateral mint decimals (default: read from the mint)")
+    .option("--force", "Replace an existing market with the same name")
+    .action(async (file: string, opts, cmd) => {
+      const flags = getGlobalFlags(cmd);
+      const config = loadConfig(flags);
+
+      let raw: unknown;
+      try {
+        raw = JSON.parse(readFileSync(file, "utf-8"));
+      } catch (e) {
+        throw new Error(`Failed to read ${file}: ${e}`);
+      }
+
+      // Accept a manifest as-is, otherwise treat it as a deployment file
+      const direct = MarketManifestSchema.safeParse(raw);
+      const base = direct.success ? direct.data : fromDeploymentFile(raw, opts.lp);
+
+      let decimals: number;
+      if (opts.decimals !== undefined) {
+        decimals = parseInt(opts.decimals, 10);
+      } else if (direct.success) {
+        decimals = direct.data.decimals;
+      } else {
+        const ctx = createContext(config);
+        decimals = (await getMint(ctx.connection, new PublicKey(base.mint))).decimals;
+      }
+
+      const result = MarketManifestSchema.safeParse({ ...base, decimals });
+      if (!result.success) {
+        const issues = result.error.issues.map((i) => `${i.path.join(".")}: ${i.message}`);
+        throw new Error(`Invalid market manifest:\n${issues.join("\n")}`);
+      }
+      const manifest = result.data;
+
+      const markets = loadRegistry(config.marketRegistry);
+      if (markets[opts.name] && !opts.force) {
+        throw new Error(`Market "${opts.name}" already exists in ${config.marketRegistry} (use --force to replace it)`);
+      }
+      markets[opts.name] = manifest;
+      saveRegistry(config.marketRegistry, markets);
+
+      if (flags.json) {
+        console.log(JSON.stringify({ name: opts.name, registry: config.marketRegistry, market: manifest }, null, 2));
+      } else {
+        console.log(`Imported market "${opts.name}" into ${config.marketRegistry}`);
+        console.log(`Slab:            ${manifest.slab}`);
+        console.log(`Oracle:          ${manifest.oracle}`);
+        console.log(`Mint:            ${manifest.mint} (${manifest.decimals} decimals)`);
+        if (manifest.lp) {
+          console.log(`LP Index:        ${manifest.lp.index}`);
+        }
+        if (manifest.matcher) {
+          console.log(`Matcher Program: ${manifest.matcher.program}`);
+          console.log(`Matcher Context: ${manifest.matcher.context}`);
+        }
+        console.log("");
+        console.log(`Use it with --market ${opts.name}`);
+      }
+    });
+}
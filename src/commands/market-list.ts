@@ -0,0 +1,42 @@
+import { Command } from "commander";
+import { getGlobalFlags } from "../cli.js";
+import { loadConfig } from "../config.js";
+import { listMarkets } from "../market.js";
+
+export function registerMarketList(program: Command): void {
+  program
+    .command("market:list")
+    .description("List markets usable with --market (registry file and config)")
+    .action(async (_opts, cmd) => {
+      const flags = getGlobalFlags(cmd);
+      const config = loadConfig(flags);
+      const markets = listMarkets(config);
+
+      if (flags.json) {
+        console.log(JSON.stringify(markets, null, 2));
+        return;
+      }
+
+      const names = Object.keys(markets);
+      if (names.length === 0) {
+        console.log(`No markets configured (registry: ${config.marketRegistry})`);
+        return;
+      }
+
+      for (const name of names) {
+        const m = markets[name];
+        console.log(`--- ${name}${m.network ? ` (${m.network})` : ""} ---`);
+        console.log(`Slab:            ${m.slab}`);
+        console.log(`Oracle:          ${m.oracle}`);
+        console.log(`Mint:            ${m.mint} (${m.decimals} decimals)`);
+        if (m.lp) {
+          console.log(`LP Index:        ${m.lp.index}`);
+        }
+        if (m.matcher) {
+          console.log(`Matcher Program: ${m.matcher.program}`);
+          console.log(`Matcher Context: ${m.matcher.context}`);
+        }
+        console.log("");
+      }
+    });
+}
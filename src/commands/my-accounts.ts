@@ -0,0 +1,91 @@
+import { Command } from "commander";
+import { PublicKey } from "@solana/web3.js";
+import { getGlobalFlags } from "../cli.js";
+import { loadConfig } from "../config.js";
+import { createContext } from "../runtime/context.js";
+import { fetchAllSlabs, findAccountsByOwner, AccountKind } from "../solana/slab.js";
+import { validatePublicKey } from "../validation.js";
+
+export function registerMyAccounts(program: Command): void {
+  program
+    .command("my-accounts")
+    .description("List the wallet's account indices across all markets")
+    .option("--owner <pubkey>", "Owner to look up (default: wallet)")
+    .action(async (opts, cmd) => {
+      const flags = getGlobalFlags(cmd);
+      const config = loadConfig(flags);
+      const ctx = createContext(config);
+
+      const owner = opts.owner
+        ? validatePublicKey(opts.owner, "--owner")
+        : ctx.payer.publicKey;
+
+      const slabs = await fetchAllSlabs(ctx.connection, ctx.programId);
+      // One slab with an unknown layout (older version, partial init) shouldn't hide the rest
+      const markets: { slab: PublicKey; accounts: ReturnType<typeof findAccountsByOwner> }[] = [];
+      const skipped: { slab: PublicKey; error: string }[] = [];
+      for (const { pubkey, account } of slabs) {
+        try {
+          const accounts = findAccountsByOwner(account.data, owner);
+          if (accounts.length > 0) markets.push({ slab: pubkey, accounts });
+        } catch (e) {
+          skipped.push({ slab: pubkey, error: e instanceof Error ? e.message : String(e) });
+        }
+      }
+
+      if (flags.json) {
+        console.log(
+          JSON.stringify(
+            {
+              owner: owner.toBase58(),
+              marketsScanned: slabs.length,
+              markets: markets.map((m) => ({
+                slab: m.slab.toBase58(),
+                accounts: m.accounts.map(({ idx, account }) => ({
+                  idx,
+                  kind: account.kind === AccountKind.LP ? "LP" : "User",
+                  accountId: account.accountId.toString(),
+                  capital: account.capital.toString(),
+                  pnl: account.pnl.toString(),
+                  positionSize: account.positionSize.toString(),
+                })),
+              })),
+              skipped: skipped.map((s) => ({ slab: s.slab.toBase58(), error: s.error })),
+            },
+            null,
+            2
+          )
+        );
+        return;
+      }
+
+      console.log(`Owner: ${owner.toBase58()}`);
+      console.log(`Markets scanned: ${slabs.length}`);
+      console.log("");
+
+      if (skipped.length > 0) {
+        console.log(`Skipped ${skipped.length} slab(s) that could not be read:`);
+        for (const s of skipped) {
+          console.log(`  ${s.slab.toBase58()}: ${s.error}`);
+        }
+        console.log("");
+      }
+
+      if (markets.length === 0) {
+        console.log("No accounts found.");
+        return;
+      }
+
+      for (const m of markets) {
+        console.log(`Market: ${m.slab.toBase58()}`);
+        console.log(`  ${"Idx".padStart(5)}  ${"Kind".padEnd(5)} ${"ID".padStart(8)} ${"Capital".padStart(20)} ${"PnL".padStart(20)} ${"Position".padStart(20)}`);
+        for (const { idx, account } of m.accounts) {
+          const kind = account.kind === AccountKind.LP ? "LP" : "User";
+          console.log(
+            `  ${idx.toString().padStart(5)}  ${kind.padEnd(5)} ${account.accountId.toString().padStart(8)} ${account.capital.toString().padStart(20)} ${account.pnl.toString().padStart(20)} ${account.positionSize.toString().padStart(20)}`
+          );
+        }
+        console.log();
+      }
+    });
+}
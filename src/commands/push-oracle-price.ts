@@ -3,8 +3,9 @@ import { getGlobalFlags } from "../cli.js";
 import { loadConfig } from "../config.js";
 import { createContext } from "../runtime/context.js";
 import { encodePushOraclePrice } from "../abi/instructions.js";
-import { ACCOUNTS_PUSH_ORACLE_PRICE, buildAccountMetas } from "../abi/accounts.js";
+import { ACCOUNTS_PUSH_ORACLE_PRICE } from "../abi/accounts.js";
 import { buildIx, simulateOrSend, formatResult } from "../runtime/tx.js";
+import { buildCheckedAccountMetas } from "../runtime/preflight.js";
 import { validatePublicKey } from "../validation.js";
 
 export function registerPushOraclePrice(program: Command): void {
@@ -26,7 +27,7 @@ export function registerPushOraclePrice(program: Command): void {
         : BigInt(Math.floor(Date.now() / 1000));
 
       const ixData = encodePushOraclePrice({ priceE6, timestamp });
-      const keys = buildAccountMetas(ACCOUNTS_PUSH_ORACLE_PRICE, [
+      const keys = await buildCheckedAccountMetas(ctx, ACCOUNTS_PUSH_ORACLE_PRICE, [
         ctx.payer.publicKey,
         slabPk,
       ]);
@@ -43,8 +44,9 @@ export function registerPushOraclePrice(program: Command): void {
         signers: [ctx.payer],
         simulate: flags.simulate ?? false,
         commitment: ctx.commitment,
+        ...ctx.txOptions,
       });
 
-      console.log(formatResult(result, flags.json ?? false));
+      console.log(formatResult(result, flags.json ?? false, ctx.cluster, ctx.rpcUrl));
     });
 }
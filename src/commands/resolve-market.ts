@@ -3,8 +3,9 @@ import { getGlobalFlags } from "../cli.js";
 import { loadConfig } from "../config.js";
 import { createContext } from "../runtime/context.js";
 import { encodeResolveMarket } from "../abi/instructions.js";
-import { ACCOUNTS_RESOLVE_MARKET, buildAccountMetas } from "../abi/accounts.js";
+import { ACCOUNTS_RESOLVE_MARKET } from "../abi/accounts.js";
 import { buildIx, simulateOrSend, formatResult } from "../runtime/tx.js";
+import { buildCheckedAccountMetas } from "../runtime/preflight.js";
 import { validatePublicKey } from "../validation.js";
 
 export function registerResolveMarket(program: Command): void {
@@ -20,7 +21,7 @@ export function registerResolveMarket(program: Command): void {
       const slabPk = validatePublicKey(opts.slab, "--slab");
 
       const ixData = encodeResolveMarket();
-      const keys = buildAccountMetas(ACCOUNTS_RESOLVE_MARKET, [
+      const keys = await buildCheckedAccountMetas(ctx, ACCOUNTS_RESOLVE_MARKET, [
         ctx.payer.publicKey,
         slabPk,
       ]);
@@ -37,8 +38,9 @@ export function registerResolveMarket(program: Command): void {
         signers: [ctx.payer],
         simulate: flags.simulate ?? false,
         commitment: ctx.commitment,
+        ...ctx.txOptions,
       });
 
-      console.log(formatResult(result, flags.json ?? false));
+      console.log(formatResult(result, flags.json ?? false, ctx.cluster, ctx.rpcUrl));
     });
 }
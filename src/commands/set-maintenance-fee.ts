@@ -0,0 +1,100 @@
+import { Command } from "commander";
+import { getMint } from "@solana/spl-token";
+import { getGlobalFlags } from "../cli.js";
+import { loadConfig } from "../config.js";
+import { applyMarket } from "../market.js";
+import { createContext } from "../runtime/context.js";
+import { encodeSetMaintenanceFee } from "../abi/instructions.js";
+import { ACCOUNTS_SET_MAINTENANCE_FEE } from "../abi/accounts.js";
+import { buildIx, simulateOrSend, formatResult } from "../runtime/tx.js";
+import { buildCheckedAccountMetas } from "../runtime/preflight.js";
+import { fetchSlab, parseConfig, parseParams } from "../solana/slab.js";
+import { formatUnits, fromEngineUnits, toEngineUnits, SLOT_MS } from "../units.js";
+import { validatePublicKey, validateU128, validateDecimal } from "../validation.js";
+
+const SLOTS_PER_DAY = BigInt((24 * 60 * 60 * 1000) / SLOT_MS);
+
+export function registerSetMaintenanceFee(program: Command): void {
+  program
+    .command("set-maintenance-fee")
+    .description("Set the maintenance fee charged per slot to every account (admin only)")
+    .option("--market <name>", "Market from the registry (fills --slab)")
+    .option("--slab <pubkey>", "Slab account public key")
+    .option("--fee <amount>", "Fee per slot in collateral tokens (e.g. 0.000000463)")
+    .option("--fee-units <n>", "Fee per slot in raw engine units")
+    .action(async (opts, cmd) => {
+      const flags = getGlobalFlags(cmd);
+      const config = loadConfig(flags);
+      applyMarket(opts, config, ["slab"]);
+      const ctx = createContext(config);
+
+      // Validate inputs
+      const slabPk = validatePublicKey(opts.slab, "--slab");
+      if ((opts.fee === undefined) === (opts.feeUnits === undefined)) {
+        throw new Error("Pass exactly one of --fee or --fee-units");
+      }
+
+      // The preview is best effort when signing offline, where the cluster may be unreachable
+      const offline = ctx.txOptions.signOnly || ctx.txOptions.blockhash !== undefined;
+      const market = await (async () => {
+        const data = await fetchSlab(ctx.connection, slabPk);
+        const mktConfig = parseConfig(data);
+        const { decimals } = await getMint(ctx.connection, mktConfig.collateralMint);
+        return { mktConfig, params: parseParams(data), decimals };
+      })().catch((e) => {
+        if (!offline) throw e;
+        return undefined;
+      });
+
+      let newFee: bigint;
+      if (opts.feeUnits !== undefined) {
+        newFee = validateU128(opts.feeUnits, "--fee-units");
+      } else if (market !== undefined) {
+        newFee = toEngineUnits(validateDecimal(opts.fee, market.decimals, "--fee"), market.mktConfig.unitScale);
+      } else {
+        throw new Error("Couldn't read the market to convert --fee; pass --fee-units when signing offline");
+      }
+
+      // Build instruction data
+      const ixData = encodeSetMaintenanceFee({ newFee });
+
+      // Build account metas (order matches ACCOUNTS_SET_MAINTENANCE_FEE)
+      const keys = await buildCheckedAccountMetas(ctx, ACCOUNTS_SET_MAINTENANCE_FEE, [
+        ctx.payer.publicKey, // admin
+        slabPk, // slab
+      ]);
+
+      const ix = buildIx({
+        programId: ctx.programId,
+        keys,
+        data: ixData,
+      });
+
+      if (!flags.json) {
+        const describe = (fee: bigint) => {
+          if (market === undefined) return `${fee} units per slot`;
+          const { mktConfig, decimals } = market;
+          const perSlot = formatUnits(fromEngineUnits(fee, mktConfig.unitScale), decimals);
+          const perDay = formatUnits(fromEngineUnits(fee * SLOTS_PER_DAY, mktConfig.unitScale), decimals);
+          return `${perSlot} per slot (${fee} units), ~${perDay} per day`;
+        };
+        console.log("Maintenance fee:");
+        console.log(
+          `  Before: ${market !== undefined ? describe(market.params.maintenanceFeePerSlot) : "unknown (market not read)"}`
+        );
+        console.log(`  After:  ${describe(newFee)}`);
+        console.log("");
+      }
+
+      const result = await simulateOrSend({
+        connection: ctx.connection,
+        ix,
+        signers: [ctx.payer],
+        simulate: flags.simulate ?? false,
+        commitment: ctx.commitment,
+        ...ctx.txOptions,
+      });
+
+      console.log(formatResult(result, flags.json ?? false, ctx.cluster, ctx.rpcUrl));
+    });
+}
@@ -3,8 +3,9 @@ import { getGlobalFlags } from "../cli.js";
 import { loadConfig } from "../config.js";
 import { createContext } from "../runtime/context.js";
 import { encodeSetOracleAuthority } from "../abi/instructions.js";
-import { ACCOUNTS_SET_ORACLE_AUTHORITY, buildAccountMetas } from "../abi/accounts.js";
+import { ACCOUNTS_SET_ORACLE_AUTHORITY } from "../abi/accounts.js";
 import { buildIx, simulateOrSend, formatResult } from "../runtime/tx.js";
+import { buildCheckedAccountMetas } from "../runtime/preflight.js";
 import { validatePublicKey } from "../validation.js";
 
 export function registerSetOracleAuthority(program: Command): void {
@@ -22,7 +23,7 @@ export function registerSetOracleAuthority(program: Command): void {
       const authority = validatePublicKey(opts.authority, "--authority");
 
       const ixData = encodeSetOracleAuthority({ newAuthority: authority });
-      const keys = buildAccountMetas(ACCOUNTS_SET_ORACLE_AUTHORITY, [
+      const keys = await buildCheckedAccountMetas(ctx, ACCOUNTS_SET_ORACLE_AUTHORITY, [
         ctx.payer.publicKey,
         slabPk,
       ]);
@@ -39,8 +40,9 @@ export function registerSetOracleAuthority(program: Command): void {
         signers: [ctx.payer],
         simulate: flags.simulate ?? false,
         commitment: ctx.commitment,
+        ...ctx.txOptions,
       });
 
-      console.log(formatResult(result, flags.json ?? false));
+      console.log(formatResult(result, flags.json ?? false, ctx.cluster, ctx.rpcUrl));
     });
 }
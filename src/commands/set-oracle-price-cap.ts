@@ -0,0 +1,79 @@
+import { Command } from "commander";
+import { getGlobalFlags } from "../cli.js";
+import { loadConfig } from "../config.js";
+import { applyMarket } from "../market.js";
+import { createContext } from "../runtime/context.js";
+import { encodeSetOraclePriceCap } from "../abi/instructions.js";
+import { ACCOUNTS_SET_ORACLE_PRICE_CAP } from "../abi/accounts.js";
+import { buildIx, simulateOrSend, formatResult } from "../runtime/tx.js";
+import { buildCheckedAccountMetas } from "../runtime/preflight.js";
+import { fetchSlab, parseConfig } from "../solana/slab.js";
+import { formatE2bpsPercent } from "../units.js";
+import { validatePublicKey, validateDecimal, validateU64 } from "../validation.js";
+
+// Percent to e2bps (0.01 bps): 4 decimal places, 1_000_000 e2bps = 100%
+const PERCENT_DECIMALS = 4;
+
+export function registerSetOraclePriceCap(program: Command): void {
+  program
+    .command("set-oracle-price-cap")
+    .description("Set the oracle price circuit breaker: max price change per update (admin only)")
+    .option("--market <name>", "Market from the registry (fills --slab)")
+    .option("--slab <pubkey>", "Slab account public key")
+    .requiredOption("--max-change-pct <percent>", "Max price change per update in percent (e.g. 5 = 5%, 0 = disabled)")
+    .action(async (opts, cmd) => {
+      const flags = getGlobalFlags(cmd);
+      const config = loadConfig(flags);
+      applyMarket(opts, config, ["slab"]);
+      const ctx = createContext(config);
+
+      // Validate inputs
+      const slabPk = validatePublicKey(opts.slab, "--slab");
+      const maxChangeE2bps = validateU64(
+        validateDecimal(opts.maxChangePct, PERCENT_DECIMALS, "--max-change-pct").toString(),
+        "--max-change-pct"
+      );
+
+      // The preview is best effort when signing offline, where the cluster may be unreachable
+      const offline = ctx.txOptions.signOnly || ctx.txOptions.blockhash !== undefined;
+      const mktConfig = await fetchSlab(ctx.connection, slabPk).then(parseConfig, (e) => {
+        if (!offline) throw e;
+        return undefined;
+      });
+
+      // Build instruction data
+      const ixData = encodeSetOraclePriceCap({ maxChangeE2bps });
+
+      // Build account metas (order matches ACCOUNTS_SET_ORACLE_PRICE_CAP)
+      const keys = await buildCheckedAccountMetas(ctx, ACCOUNTS_SET_ORACLE_PRICE_CAP, [
+        ctx.payer.publicKey, // admin
+        slabPk, // slab
+      ]);
+
+      const ix = buildIx({
+        programId: ctx.programId,
+        keys,
+        data: ixData,
+      });
+
+      if (!flags.json) {
+        const describe = (cap: bigint) =>
+          cap === 0n ? "disabled" : `${formatE2bpsPercent(cap)} per update (${cap} e2bps)`;
+        console.log("Oracle price cap:");
+        console.log(`  Before: ${mktConfig !== undefined ? describe(mktConfig.oraclePriceCapE2bps) : "unknown (market not read)"}`);
+        console.log(`  After:  ${describe(maxChangeE2bps)}`);
+        console.log("");
+      }
+
+      const result = await simulateOrSend({
+        connection: ctx.connection,
+        ix,
+        signers: [ctx.payer],
+        simulate: flags.simulate ?? false,
+        commitment: ctx.commitment,
+        ...ctx.txOptions,
+      });
+
+      console.log(formatResult(result, flags.json ?? false, ctx.cluster, ctx.rpcUrl));
+    });
+}
@@ -3,11 +3,9 @@ import { getGlobalFlags } from "../cli.js";
 import { loadConfig } from "../config.js";
 import { createContext } from "../runtime/context.js";
 import { encodeSetRiskThreshold } from "../abi/instructions.js";
-import {
-  ACCOUNTS_SET_RISK_THRESHOLD,
-  buildAccountMetas,
-} from "../abi/accounts.js";
+import { ACCOUNTS_SET_RISK_THRESHOLD } from "../abi/accounts.js";
 import { buildIx, simulateOrSend, formatResult } from "../runtime/tx.js";
+import { buildCheckedAccountMetas } from "../runtime/preflight.js";
 import { validatePublicKey, validateU128 } from "../validation.js";
 
 export function registerSetRiskThreshold(program: Command): void {
@@ -29,7 +27,7 @@ export function registerSetRiskThreshold(program: Command): void {
       const ixData = encodeSetRiskThreshold({ newThreshold: opts.newThreshold });
 
       // Build account metas (order matches ACCOUNTS_SET_RISK_THRESHOLD)
-      const keys = buildAccountMetas(ACCOUNTS_SET_RISK_THRESHOLD, [
+      const keys = await buildCheckedAccountMetas(ctx, ACCOUNTS_SET_RISK_THRESHOLD, [
         ctx.payer.publicKey, // admin
         slabPk, // slab
       ]);
@@ -46,8 +44,9 @@ export function registerSetRiskThreshold(program: Command): void {
         signers: [ctx.payer],
         simulate: flags.simulate ?? false,
         commitment: ctx.commitment,
+        ...ctx.txOptions,
       });
 
-      console.log(formatResult(result, flags.json ?? false));
+      console.log(formatResult(result, flags.json ?? false, ctx.cluster, ctx.rpcUrl));
     });
 }
@@ -2,8 +2,10 @@ import { Command } from "commander";
 import { getGlobalFlags } from "../cli.js";
 import { loadConfig } from "../config.js";
 import { createContext } from "../runtime/context.js";
-import { fetchSlab, parseAccount, isAccountUsed, AccountKind } from "../solana/slab.js";
-import { validatePublicKey, validateIndex } from "../validation.js";
+import { fetchSlab, parseAccount, parseEngine, isAccountUsed, AccountKind } from "../solana/slab.js";
+import { haircutRatio, haircutBps, realizablePnl } from "../health.js";
+import { formatBpsPercent } from "../units.js";
+import { validatePublicKey, validateIndex, validateDecimal } from "../validation.js";
 
 export function registerSlabAccount(program: Command): void {
   program
@@ -11,6 +13,7 @@ export function registerSlabAccount(program: Command): void {
     .description("Display a single account by index")
     .requiredOption("--slab <pubkey>", "Slab account public key")
     .requiredOption("--idx <number>", "Account index (0-4095)")
+    .option("--haircut-warn <percent>", "Warn when the haircut ratio is below this (default: haircutWarnPercent, 100)")
     .action(async (opts, cmd) => {
       const flags = getGlobalFlags(cmd);
       const config = loadConfig(flags);
@@ -32,6 +35,12 @@ export function registerSlabAccount(program: Command): void {
 
       const account = parseAccount(data, idx);
       const kindStr = account.kind === AccountKind.LP ? "LP" : "User";
+      const haircut = haircutRatio(parseEngine(data));
+      const ratioBps = haircutBps(haircut);
+      const warnBps =
+        opts.haircutWarn !== undefined
+          ? validateDecimal(opts.haircutWarn, 2, "--haircut-warn")
+          : BigInt(Math.round(config.haircutWarnPercent * 100));
 
       if (flags.json) {
         console.log(
@@ -44,6 +53,9 @@ export function registerSlabAccount(program: Command): void {
               capital: account.capital.toString(),
               pnl: account.pnl.toString(),
               reservedPnl: account.reservedPnl.toString(),
+              realizablePnl: realizablePnl(account.pnl, haircut).toString(),
+              haircutRatioBps: ratioBps.toString(),
+              haircutWarning: ratioBps < warnBps,
               positionSize: account.positionSize.toString(),
               entryPrice: account.entryPrice.toString(),
               fundingIndex: account.fundingIndex.toString(),
@@ -66,6 +78,7 @@ export function registerSlabAccount(program: Command): void {
         console.log("--- Capital & PnL ---");
         console.log(`Capital:                 ${account.capital}`);
         console.log(`PnL:                     ${account.pnl}`);
+        console.log(`Realizable PnL:          ${realizablePnl(account.pnl, haircut)} (haircut ratio ${formatBpsPercent(ratioBps)})`);
         console.log(`Reserved PnL:            ${account.reservedPnl}`);
         console.log(`Fee Credits:             ${account.feeCredits}`);
         console.log(`Last Fee Slot:           ${account.lastFeeSlot}`);
@@ -84,6 +97,12 @@ export function registerSlabAccount(program: Command): void {
           console.log(`Matcher Program:         ${account.matcherProgram.toBase58()}`);
           console.log(`Matcher Context:         ${account.matcherContext.toBase58()}`);
         }
+        if (ratioBps < warnBps) {
+          console.log("");
+          console.log(
+            `WARNING: haircut ratio is below ${formatBpsPercent(warnBps)}; only ${formatBpsPercent(ratioBps)} of positive PnL can be realized`
+          );
+        }
       }
     });
 }
@@ -3,13 +3,16 @@ import { getGlobalFlags } from "../cli.js";
 import { loadConfig } from "../config.js";
 import { createContext } from "../runtime/context.js";
 import { fetchSlab, parseEngine } from "../solana/slab.js";
-import { validatePublicKey } from "../validation.js";
+import { haircutRatio, haircutBps } from "../health.js";
+import { formatBpsPercent } from "../units.js";
+import { validatePublicKey, validateDecimal } from "../validation.js";
 
 export function registerSlabEngine(program: Command): void {
   program
     .command("slab:engine")
     .description("Display RiskEngine state (vault, insurance, funding, flags)")
     .requiredOption("--slab <pubkey>", "Slab account public key")
+    .option("--haircut-warn <percent>", "Warn when the haircut ratio is below this (default: haircutWarnPercent, 100)")
     .action(async (opts, cmd) => {
       const flags = getGlobalFlags(cmd);
       const config = loadConfig(flags);
@@ -18,6 +21,12 @@ export function registerSlabEngine(program: Command): void {
       const slabPk = validatePublicKey(opts.slab, "--slab");
       const data = await fetchSlab(ctx.connection, slabPk);
       const engine = parseEngine(data);
+      const haircut = haircutRatio(engine);
+      const ratioBps = haircutBps(haircut);
+      const warnBps =
+        opts.haircutWarn !== undefined
+          ? validateDecimal(opts.haircutWarn, 2, "--haircut-warn")
+          : BigInt(Math.round(config.haircutWarnPercent * 100));
 
       if (flags.json) {
         console.log(
@@ -36,6 +45,14 @@ export function registerSlabEngine(program: Command): void {
               totalOpenInterest: engine.totalOpenInterest.toString(),
               cTot: engine.cTot.toString(),
               pnlPosTot: engine.pnlPosTot.toString(),
+              haircut: {
+                residual: haircut.residual.toString(),
+                num: haircut.num.toString(),
+                den: haircut.den.toString(),
+                ratioBps: ratioBps.toString(),
+                warnBelowBps: warnBps.toString(),
+                warning: ratioBps < warnBps,
+              },
               lifetimeLiquidations: engine.lifetimeLiquidations.toString(),
               lifetimeForceCloses: engine.lifetimeForceCloses.toString(),
               netLpPos: engine.netLpPos.toString(),
@@ -64,6 +81,15 @@ export function registerSlabEngine(program: Command): void {
         console.log(`C_tot (total capital):   ${engine.cTot}`);
         console.log(`PnL_pos_tot (pos PnL):   ${engine.pnlPosTot}`);
         console.log("");
+        console.log("--- Haircut ---");
+        console.log(`Residual:                ${haircut.residual} (vault - C_tot - insurance)`);
+        console.log(`Haircut Ratio:           ${formatBpsPercent(ratioBps)} (${haircut.num}/${haircut.den})`);
+        if (ratioBps < warnBps) {
+          console.log(
+            `WARNING: haircut ratio is below ${formatBpsPercent(warnBps)}; positive PnL is only ${formatBpsPercent(ratioBps)} backed by the vault`
+          );
+        }
+        console.log("");
         console.log("--- LP ---");
         console.log(`Net LP Position:         ${engine.netLpPos}`);
         console.log(`LP Sum Abs:              ${engine.lpSumAbs}`);
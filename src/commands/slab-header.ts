@@ -2,7 +2,7 @@ import { Command } from "commander";
 import { getGlobalFlags } from "../cli.js";
 import { loadConfig } from "../config.js";
 import { createContext } from "../runtime/context.js";
-import { fetchSlab, parseHeader } from "../solana/slab.js";
+import { fetchSlab, parseHeader, slabLayout, SlabLayout } from "../solana/slab.js";
 import { validatePublicKey } from "../validation.js";
 
 export function registerSlabHeader(program: Command): void {
@@ -18,6 +18,13 @@ export function registerSlabHeader(program: Command): void {
       const slabPk = validatePublicKey(opts.slab, "--slab");
       const data = await fetchSlab(ctx.connection, slabPk);
       const header = parseHeader(data);
+      // The header reads for any version; report which layout (if any) the rest uses
+      let layout: SlabLayout | null = null;
+      try {
+        layout = slabLayout(data);
+      } catch {
+        // Unknown version or size
+      }
 
       if (flags.json) {
         console.log(
@@ -25,6 +32,8 @@ export function registerSlabHeader(program: Command): void {
             {
               magic: header.magic.toString(16),
               version: header.version,
+              layout: layout?.name ?? null,
+              dataLen: data.length,
               bump: header.bump,
               admin: header.admin.toBase58(),
               nonce: header.nonce.toString(),
@@ -37,6 +46,8 @@ export function registerSlabHeader(program: Command): void {
       } else {
         console.log(`Magic:              0x${header.magic.toString(16)}`);
         console.log(`Version:            ${header.version}`);
+        console.log(`Layout:             ${layout ? layout.name : "unsupported by this CLI"}`);
+        console.log(`Data Length:        ${data.length}`);
         console.log(`Bump:               ${header.bump}`);
         console.log(`Admin:              ${header.admin.toBase58()}`);
         console.log(`Nonce:              ${header.nonce}`);
@@ -0,0 +1,165 @@
+import { Command } from "commander";
+import { getMint } from "@solana/spl-token";
+import { getGlobalFlags } from "../cli.js";
+import { loadConfig } from "../config.js";
+import { applyMarket } from "../market.js";
+import { createContext } from "../runtime/context.js";
+import { fetchSlab, parseConfig, parseParams, parseAllAccounts, AccountKind } from "../solana/slab.js";
+import { resolveMarketPrice } from "../solana/oracle.js";
+import { accountHealth, liquidationPrice, exposureAtRisk } from "../health.js";
+import { formatUnits, fromEngineUnits, formatBpsPercent } from "../units.js";
+import { validatePublicKey, validateU64, validateDecimal } from "../validation.js";
+
+export function registerSlabRisk(program: Command): void {
+  program
+    .command("slab:risk")
+    .description("Rank open positions by distance to maintenance margin and show exposure under price shocks")
+    .option("--market <name>", "Market from the registry (fills --slab, --oracle)")
+    .option("--slab <pubkey>", "Slab account public key")
+    .option("--oracle <pubkey>", "Price from this Pyth or Chainlink account (default: the market's last price)")
+    .option("--price <e6>", "Evaluate at this feed price in e6, before inversion and unit scaling")
+    .option("--shocks <percents>", "Comma-separated price shocks, applied both ways", "1,5,10")
+    .option("--limit <number>", "Accounts to list, closest to liquidation first", "20")
+    .action(async (opts, cmd) => {
+      const flags = getGlobalFlags(cmd);
+      const config = loadConfig(flags);
+      applyMarket(opts, config, ["slab"], ["oracle"]);
+      const ctx = createContext(config);
+
+      const slabPk = validatePublicKey(opts.slab, "--slab");
+      // Percent to bps, ascending
+      const shocksBps = String(opts.shocks)
+        .split(",")
+        .map((s) => validateDecimal(s.trim(), 2, "--shocks"))
+        .sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+      if (shocksBps.some((bps) => bps === 0n || bps >= 10_000n)) {
+        throw new Error("--shocks must be percents between 0 and 100 (exclusive)");
+      }
+      const limit = parseInt(opts.limit, 10);
+      if (!Number.isInteger(limit) || limit <= 0) {
+        throw new Error("--limit must be a positive integer");
+      }
+
+      const data = await fetchSlab(ctx.connection, slabPk);
+      const mktConfig = parseConfig(data);
+      const params = parseParams(data);
+      const price = await resolveMarketPrice(ctx.connection, mktConfig, {
+        feedPriceE6: opts.price !== undefined ? validateU64(opts.price, "--price") : undefined,
+        oracle: opts.oracle !== undefined ? validatePublicKey(opts.oracle, "--oracle") : undefined,
+      });
+
+      // Flat accounts can't be liquidated
+      const open = parseAllAccounts(data).filter(({ account }) => account.positionSize !== 0n);
+      const ranked = open
+        .map(({ idx, account }) => {
+          const health = accountHealth(account, params, price.enginePriceE6);
+          const liqPrice = liquidationPrice(account, params);
+          return {
+            idx,
+            account,
+            health,
+            // Margin ratio above maintenance, the ranking key; null for dust with no notional
+            headroomBps:
+              health.marginRatioBps !== null ? health.marginRatioBps - params.maintenanceMarginBps : null,
+            liqPrice,
+            moveBps:
+              liqPrice !== null && price.enginePriceE6 > 0n
+                ? ((liqPrice - price.enginePriceE6) * 10_000n) / price.enginePriceE6
+                : null,
+          };
+        })
+        .sort((a, b) => {
+          if (a.headroomBps === b.headroomBps) return a.idx - b.idx;
+          if (a.headroomBps === null) return 1;
+          if (b.headroomBps === null) return -1;
+          return a.headroomBps < b.headroomBps ? -1 : 1;
+        });
+      const liquidatable = ranked.filter((r) => r.health.liquidatable).length;
+
+      const accounts = open.map(({ account }) => account);
+      const shocks = [...shocksBps.map((bps) => -bps).reverse(), ...shocksBps].map((bps) => ({
+        shockBps: bps,
+        ...exposureAtRisk(accounts, params, (price.enginePriceE6 * (10_000n + bps)) / 10_000n),
+      }));
+
+      if (flags.json) {
+        console.log(
+          JSON.stringify(
+            {
+              slab: slabPk.toBase58(),
+              priceSource: price.source,
+              feedPriceE6: price.feedPriceE6?.toString() ?? null,
+              enginePriceE6: price.enginePriceE6.toString(),
+              maintenanceMarginBps: params.maintenanceMarginBps.toString(),
+              openPositions: ranked.length,
+              liquidatable,
+              accounts: ranked.slice(0, limit).map((r) => ({
+                idx: r.idx,
+                kind: r.account.kind === AccountKind.LP ? "LP" : "User",
+                owner: r.account.owner.toBase58(),
+                positionSize: r.account.positionSize.toString(),
+                equity: r.health.equity.toString(),
+                notional: r.health.notional.toString(),
+                marginRatioBps: r.health.marginRatioBps?.toString() ?? null,
+                headroomBps: r.headroomBps?.toString() ?? null,
+                marginBuffer: r.health.marginBuffer.toString(),
+                liquidatable: r.health.liquidatable,
+                liquidationPriceE6: r.liqPrice?.toString() ?? null,
+                moveToLiquidationBps: r.moveBps?.toString() ?? null,
+              })),
+              shocks: shocks.map((s) => ({
+                shockBps: s.shockBps.toString(),
+                priceE6: s.priceE6.toString(),
+                liquidatable: s.liquidatable,
+                longNotional: s.longNotional.toString(),
+                shortNotional: s.shortNotional.toString(),
+                shortfall: s.shortfall.toString(),
+              })),
+            },
+            null,
+            2
+          )
+        );
+        return;
+      }
+
+      const { decimals } = await getMint(ctx.connection, mktConfig.collateralMint);
+      const amount = (units: bigint) => formatUnits(fromEngineUnits(units, mktConfig.unitScale), decimals);
+      const signedPercent = (bps: bigint) => `${bps > 0n ? "+" : ""}${formatBpsPercent(bps)}`;
+
+      console.log("--- Slab Risk ---");
+      console.log(`Price Source:       ${price.source}`);
+      console.log(`Engine Price:       ${formatUnits(price.enginePriceE6, 6)}`);
+      console.log(`Maintenance Margin: ${formatBpsPercent(params.maintenanceMarginBps)}`);
+      console.log(`Open Positions:     ${ranked.length} (${liquidatable} liquidatable)`);
+      console.log("");
+
+      if (ranked.length > 0) {
+        console.log(
+          `${"Idx".padStart(5)}  ${"Kind".padEnd(4)}  ${"Position".padStart(20)}  ${"Equity".padStart(16)}  ${"Margin".padStart(9)}  ${"Headroom".padStart(9)}  ${"Liq Price".padStart(16)}  ${"Move".padStart(9)}  Status`
+        );
+        for (const r of ranked.slice(0, limit)) {
+          const kind = r.account.kind === AccountKind.LP ? "LP" : "User";
+          console.log(
+            `${r.idx.toString().padStart(5)}  ${kind.padEnd(4)}  ${r.account.positionSize.toString().padStart(20)}  ${amount(r.health.equity).padStart(16)}  ${(r.health.marginRatioBps !== null ? formatBpsPercent(r.health.marginRatioBps) : "-").padStart(9)}  ${(r.headroomBps !== null ? signedPercent(r.headroomBps) : "-").padStart(9)}  ${(r.liqPrice !== null ? formatUnits(r.liqPrice, 6) : "none").padStart(16)}  ${(r.moveBps !== null ? signedPercent(r.moveBps) : "-").padStart(9)}  ${r.health.liquidatable ? "LIQUIDATABLE" : ""}`
+          );
+        }
+        if (ranked.length > limit) {
+          console.log(`  ... ${ranked.length - limit} more (raise --limit)`);
+        }
+        console.log("");
+      }
+
+      console.log("--- Price Shocks ---");
+      console.log(
+        `${"Shock".padStart(8)}  ${"Price".padStart(16)}  ${"Liquidatable".padStart(12)}  ${"Long at Risk".padStart(16)}  ${"Short at Risk".padStart(16)}  ${"Shortfall".padStart(16)}`
+      );
+      for (const s of shocks) {
+        console.log(
+          `${signedPercent(s.shockBps).padStart(8)}  ${formatUnits(s.priceE6, 6).padStart(16)}  ${s.liquidatable.toString().padStart(12)}  ${amount(s.longNotional).padStart(16)}  ${amount(s.shortNotional).padStart(16)}  ${amount(s.shortfall).padStart(16)}`
+        );
+      }
+      console.log("");
+      console.log("Prices are engine prices (inverted and unit-scaled). Settled PnL only; unsettled funding and fees are not included.");
+    });
+}
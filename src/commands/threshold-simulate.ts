@@ -0,0 +1,153 @@
+import { Command } from "commander";
+import { getMint } from "@solana/spl-token";
+import { getGlobalFlags } from "../cli.js";
+import { loadConfig } from "../config.js";
+import { applyMarket } from "../market.js";
+import { createContext } from "../runtime/context.js";
+import { fetchSlab, parseHeader, parseConfig, parseParams, parseEngine } from "../solana/slab.js";
+import { resolveMarketPrice } from "../solana/oracle.js";
+import { riskUnits, thresholdTarget, simulateThreshold, ThresholdParams } from "../threshold.js";
+import { formatUnits, fromEngineUnits, formatSlotDuration } from "../units.js";
+import { validatePublicKey, validateU64 } from "../validation.js";
+import { CONFIG_FIELDS } from "./update-config.js";
+
+type ThresholdField = (typeof CONFIG_FIELDS)[number] & { key: keyof ThresholdParams };
+
+const THRESHOLD_FIELDS = CONFIG_FIELDS.filter((f): f is ThresholdField => f.key.startsWith("thresh"));
+
+export function registerThresholdSimulate(program: Command): void {
+  const command = program
+    .command("threshold:simulate")
+    .description("Predict the next risk-reduction threshold updates and compare them with the insurance fund")
+    .option("--market <name>", "Market from the registry (fills --slab, --oracle)")
+    .option("--slab <pubkey>", "Slab account public key")
+    .option("--oracle <pubkey>", "Price from this Pyth or Chainlink account (default: the market's last price)")
+    .option("--price <e6>", "Evaluate at this feed price in e6, before inversion and unit scaling")
+    .option("--steps <number>", "Updates to predict", "10");
+  // The same threshold options as update-config, as what-if values
+  for (const f of THRESHOLD_FIELDS) {
+    command.option(`${f.flag} <n>`, `Hypothetical ${f.label.toLowerCase()} (default: current)`);
+  }
+
+  command.action(async (opts, cmd) => {
+    const flags = getGlobalFlags(cmd);
+    const config = loadConfig(flags);
+    applyMarket(opts, config, ["slab"], ["oracle"]);
+    const ctx = createContext(config);
+
+    const slabPk = validatePublicKey(opts.slab, "--slab");
+    const steps = parseInt(opts.steps, 10);
+    if (!Number.isInteger(steps) || steps <= 0) {
+      throw new Error("--steps must be a positive integer");
+    }
+
+    const [data, slot] = await Promise.all([fetchSlab(ctx.connection, slabPk), ctx.connection.getSlot()]);
+    const mktConfig = parseConfig(data);
+    const engine = parseEngine(data);
+    const threshold = parseParams(data).riskReductionThreshold;
+    const lastUpdateSlot = parseHeader(data).lastThrUpdateSlot;
+    const price = await resolveMarketPrice(ctx.connection, mktConfig, {
+      feedPriceE6: opts.price !== undefined ? validateU64(opts.price, "--price") : undefined,
+      oracle: opts.oracle !== undefined ? validatePublicKey(opts.oracle, "--oracle") : undefined,
+    });
+    const now = BigInt(slot);
+
+    // On-chain parameters, overridden by any hypothetical values
+    const params = {} as ThresholdParams;
+    for (const f of THRESHOLD_FIELDS) {
+      params[f.key] = opts[f.option] !== undefined ? f.validate(opts[f.option], f.flag) : mktConfig[f.key];
+    }
+    const overridden = THRESHOLD_FIELDS.filter((f) => params[f.key] !== mktConfig[f.key]);
+
+    const units = riskUnits(engine);
+    const target = thresholdTarget(params, units, price.enginePriceE6);
+    const insurance = engine.insuranceFund.balance;
+    const updates = simulateThreshold(
+      params,
+      { threshold, lastUpdateSlot, riskUnits: units, priceE6: price.enginePriceE6 },
+      now,
+      steps
+    );
+    // First predicted update that leaves the insurance fund at or below the threshold
+    const crossing = insurance > threshold ? updates.findIndex((u) => insurance <= u.threshold) : -1;
+
+    if (flags.json) {
+      console.log(
+        JSON.stringify(
+          {
+            slab: slabPk.toBase58(),
+            slot: now.toString(),
+            priceSource: price.source,
+            feedPriceE6: price.feedPriceE6?.toString() ?? null,
+            enginePriceE6: price.enginePriceE6.toString(),
+            lpMaxAbs: engine.lpMaxAbs.toString(),
+            lpSumAbs: engine.lpSumAbs.toString(),
+            riskUnits: units.toString(),
+            params: Object.fromEntries(THRESHOLD_FIELDS.map((f) => [f.key, params[f.key].toString()])),
+            overridden: overridden.map((f) => f.key),
+            lastUpdateSlot: lastUpdateSlot.toString(),
+            threshold: threshold.toString(),
+            target: target.toString(),
+            insuranceBalance: insurance.toString(),
+            riskReductionOnly: insurance <= threshold,
+            updates: updates.map((u) => ({
+              slot: u.slot.toString(),
+              threshold: u.threshold.toString(),
+              buffer: (insurance - u.threshold).toString(),
+              riskReductionOnly: insurance <= u.threshold,
+            })),
+            firstRiskReductionUpdate: crossing >= 0 ? crossing + 1 : null,
+          },
+          null,
+          2
+        )
+      );
+      return;
+    }
+
+    const { decimals } = await getMint(ctx.connection, mktConfig.collateralMint);
+    const amount = (units: bigint) => formatUnits(fromEngineUnits(units, mktConfig.unitScale), decimals);
+    const mode = (t: bigint) => (insurance <= t ? "RISK-REDUCTION ONLY" : "normal");
+
+    console.log("--- Threshold ---");
+    console.log(`Price Source:            ${price.source}`);
+    console.log(`Engine Price:            ${formatUnits(price.enginePriceE6, 6)}`);
+    console.log(`Risk Units:              ${units} (LP max ${engine.lpMaxAbs} + LP sum ${engine.lpSumAbs} / 8)`);
+    console.log(`Current Threshold:       ${amount(threshold)}`);
+    console.log(`Target:                  ${amount(target)}`);
+    console.log(`Insurance Balance:       ${amount(insurance)}`);
+    console.log(`Buffer:                  ${amount(insurance - threshold)}`);
+    console.log(`Mode:                    ${mode(threshold)}`);
+    console.log(`Last Update Slot:        ${lastUpdateSlot} (now ${now})`);
+    console.log("");
+
+    console.log(overridden.length > 0 ? "--- Parameters (hypothetical) ---" : "--- Parameters ---");
+    for (const f of THRESHOLD_FIELDS) {
+      const changed = params[f.key] !== mktConfig[f.key] ? ` (on chain: ${mktConfig[f.key]}${f.unit})` : "";
+      console.log(`${(f.label + ":").padEnd(25)}${params[f.key]}${f.unit}${changed}`);
+    }
+    console.log("");
+
+    console.log(`--- Next ${updates.length} Updates ---`);
+    console.log(
+      `${"Step".padStart(4)}  ${"Slot".padStart(12)}  ${"In".padStart(8)}  ${"Threshold".padStart(20)}  ${"Buffer".padStart(20)}  Mode`
+    );
+    updates.forEach((u, i) => {
+      const wait = u.slot > now ? formatSlotDuration(u.slot - now) : "now";
+      console.log(
+        `${(i + 1).toString().padStart(4)}  ${u.slot.toString().padStart(12)}  ${wait.padStart(8)}  ${amount(u.threshold).padStart(20)}  ${amount(insurance - u.threshold).padStart(20)}  ${mode(u.threshold)}`
+      );
+    });
+    console.log("");
+
+    if (crossing >= 0) {
+      const u = updates[crossing];
+      console.log(
+        `WARNING: the threshold reaches the insurance balance at update ${crossing + 1} (slot ${u.slot}); the market turns risk-reduction only.`
+      );
+    } else if (insurance > threshold && insurance <= target) {
+      console.log("The target is at or above the insurance balance; the threshold gets there after more updates (raise --steps).");
+    }
+    console.log("Assumes a crank at every update and LP positions, price and insurance unchanged.");
+  });
+}
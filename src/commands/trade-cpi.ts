@@ -2,35 +2,41 @@ import { Command } from "commander";
 import { Keypair, PublicKey } from "@solana/web3.js";
 import { getGlobalFlags } from "../cli.js";
 import { loadConfig } from "../config.js";
+import { applyMarket } from "../market.js";
 import { createContext } from "../runtime/context.js";
-import { fetchSlab, parseConfig, parseAccount } from "../solana/slab.js";
+import { fetchSlab, parseConfig, parseAccount, findUserIdx, AccountKind } from "../solana/slab.js";
 import { deriveLpPda } from "../solana/pda.js";
 import { encodeTradeCpi } from "../abi/instructions.js";
 import {
   ACCOUNTS_TRADE_CPI,
-  buildAccountMetas,
   WELL_KNOWN,
 } from "../abi/accounts.js";
 import { buildIx, simulateOrSend, formatResult } from "../runtime/tx.js";
+import { buildCheckedAccountMetas, assertAccountIndices } from "../runtime/preflight.js";
 import {
   validatePublicKey,
   validateIndex,
   validateI128,
+  validateU64,
 } from "../validation.js";
 
 export function registerTradeCpi(program: Command): void {
   program
     .command("trade-cpi")
     .description("Execute trade via CPI through matcher")
-    .requiredOption("--slab <pubkey>", "Slab account public key")
-    .requiredOption("--lp-idx <number>", "LP account index")
-    .requiredOption("--user-idx <number>", "User account index")
+    .option("--market <name>", "Market from the registry (fills --slab, --lp-idx, --matcher-program, --matcher-context)")
+    .option("--slab <pubkey>", "Slab account public key")
+    .option("--lp-idx <number>", "LP account index")
+    .option("--user-idx <number>", "User account index (default: the wallet's only User account)")
     .requiredOption("--size <string>", "Trade size (i128, positive=long, negative=short)")
-    .requiredOption("--matcher-program <pubkey>", "Matcher program ID")
-    .requiredOption("--matcher-context <pubkey>", "Matcher context account")
+    .option("--matcher-program <pubkey>", "Matcher program ID")
+    .option("--matcher-context <pubkey>", "Matcher context account")
+    .option("--account-id <id>", "Expected account ID at the user index; fails if the slot was closed and reused")
+    .option("--lp-account-id <id>", "Expected account ID at the LP index; fails if the slot was closed and reused")
     .action(async (opts, cmd) => {
       const flags = getGlobalFlags(cmd);
       const config = loadConfig(flags);
+      applyMarket(opts, config, ["slab", "lpIdx", "matcherProgram", "matcherContext"]);
       const ctx = createContext(config);
 
       // Validate inputs
@@ -38,13 +44,26 @@ export function registerTradeCpi(program: Command): void {
       const matcherProgram = validatePublicKey(opts.matcherProgram, "--matcher-program");
       const matcherContext = validatePublicKey(opts.matcherContext, "--matcher-context");
       const lpIdx = validateIndex(opts.lpIdx, "--lp-idx");
-      const userIdx = validateIndex(opts.userIdx, "--user-idx");
       validateI128(opts.size, "--size");
+      const accountId = opts.accountId !== undefined ? validateU64(opts.accountId, "--account-id") : undefined;
+      const lpAccountId =
+        opts.lpAccountId !== undefined ? validateU64(opts.lpAccountId, "--lp-account-id") : undefined;
 
       // Fetch slab config for oracle
       const data = await fetchSlab(ctx.connection, slabPk);
       const mktConfig = parseConfig(data);
 
+      // Default to the wallet's only User account
+      const userIdx =
+        opts.userIdx !== undefined
+          ? validateIndex(opts.userIdx, "--user-idx")
+          : findUserIdx(data, ctx.payer.publicKey);
+      assertAccountIndices(data, [
+        // The LP owner isn't a signer here, so only --lp-account-id can pin the LP
+        { idx: lpIdx, flag: "--lp-idx", kind: AccountKind.LP, accountId: lpAccountId },
+        { idx: userIdx, flag: "--user-idx", kind: AccountKind.User, owner: ctx.payer.publicKey, accountId },
+      ]);
+
       // Derive LP PDA
       const [lpPda] = deriveLpPda(ctx.programId, slabPk, lpIdx);
 
@@ -60,7 +79,7 @@ export function registerTradeCpi(program: Command): void {
       });
 
       // Build account metas (order matches ACCOUNTS_TRADE_CPI)
-      const keys = buildAccountMetas(ACCOUNTS_TRADE_CPI, [
+      const keys = await buildCheckedAccountMetas(ctx, ACCOUNTS_TRADE_CPI, [
         ctx.payer.publicKey, // user (signer)
         lpOwnerPk, // lpOwner (read from slab, not a signer)
         slabPk, // slab
@@ -86,8 +105,9 @@ export function registerTradeCpi(program: Command): void {
         signers,
         simulate: flags.simulate ?? false,
         commitment: ctx.commitment,
+        ...ctx.txOptions,
       });
 
-      console.log(formatResult(result, flags.json ?? false));
+      console.log(formatResult(result, flags.json ?? false, ctx.cluster, ctx.rpcUrl));
     });
 }
@@ -2,46 +2,68 @@ import { Command } from "commander";
 import { Keypair } from "@solana/web3.js";
 import { getGlobalFlags } from "../cli.js";
 import { loadConfig } from "../config.js";
+import { applyMarket } from "../market.js";
 import { createContext } from "../runtime/context.js";
+import { fetchSlab, findUserIdx, AccountKind } from "../solana/slab.js";
 import { loadKeypair } from "../solana/wallet.js";
 import { encodeTradeNoCpi } from "../abi/instructions.js";
 import {
   ACCOUNTS_TRADE_NOCPI,
-  buildAccountMetas,
   WELL_KNOWN,
 } from "../abi/accounts.js";
 import { buildIx, simulateOrSend, formatResult } from "../runtime/tx.js";
+import { buildCheckedAccountMetas, assertAccountIndices } from "../runtime/preflight.js";
 import {
   validatePublicKey,
   validateIndex,
   validateI128,
+  validateU64,
 } from "../validation.js";
 
 export function registerTradeNocpi(program: Command): void {
   program
     .command("trade-nocpi")
     .description("Execute direct trade (no CPI)")
-    .requiredOption("--slab <pubkey>", "Slab account public key")
-    .requiredOption("--lp-idx <number>", "LP account index")
-    .requiredOption("--user-idx <number>", "User account index")
+    .option("--market <name>", "Market from the registry (fills --slab, --lp-idx, --oracle)")
+    .option("--slab <pubkey>", "Slab account public key")
+    .option("--lp-idx <number>", "LP account index")
+    .option("--user-idx <number>", "User account index (default: the wallet's only User account)")
     .requiredOption("--size <string>", "Trade size (i128, positive=long, negative=short)")
-    .requiredOption("--oracle <pubkey>", "Price oracle account")
+    .option("--oracle <pubkey>", "Price oracle account")
     .option("--lp-wallet <path>", "LP wallet keypair (if different from payer)")
+    .option("--account-id <id>", "Expected account ID at the user index; fails if the slot was closed and reused")
+    .option("--lp-account-id <id>", "Expected account ID at the LP index; fails if the slot was closed and reused")
     .action(async (opts, cmd) => {
       const flags = getGlobalFlags(cmd);
       const config = loadConfig(flags);
+      applyMarket(opts, config, ["slab", "lpIdx", "oracle"]);
       const ctx = createContext(config);
 
       // Validate inputs
       const slabPk = validatePublicKey(opts.slab, "--slab");
       const oracle = validatePublicKey(opts.oracle, "--oracle");
       const lpIdx = validateIndex(opts.lpIdx, "--lp-idx");
-      const userIdx = validateIndex(opts.userIdx, "--user-idx");
       validateI128(opts.size, "--size");
+      const accountId = opts.accountId !== undefined ? validateU64(opts.accountId, "--account-id") : undefined;
+      const lpAccountId =
+        opts.lpAccountId !== undefined ? validateU64(opts.lpAccountId, "--lp-account-id") : undefined;
 
       // Load LP keypair if provided, otherwise use payer
       const lpKeypair = opts.lpWallet ? loadKeypair(opts.lpWallet) : ctx.payer;
 
+      // Fetch slab to resolve and check the account indices
+      const data = await fetchSlab(ctx.connection, slabPk);
+
+      // Default to the wallet's only User account
+      const userIdx =
+        opts.userIdx !== undefined
+          ? validateIndex(opts.userIdx, "--user-idx")
+          : findUserIdx(data, ctx.payer.publicKey);
+      assertAccountIndices(data, [
+        { idx: lpIdx, flag: "--lp-idx", kind: AccountKind.LP, owner: lpKeypair.publicKey, accountId: lpAccountId },
+        { idx: userIdx, flag: "--user-idx", kind: AccountKind.User, owner: ctx.payer.publicKey, accountId },
+      ]);
+
       // Build instruction data
       const ixData = encodeTradeNoCpi({
         lpIdx,
@@ -50,7 +72,7 @@ export function registerTradeNocpi(program: Command): void {
       });
 
       // Build account metas (order matches ACCOUNTS_TRADE_NOCPI)
-      const keys = buildAccountMetas(ACCOUNTS_TRADE_NOCPI, [
+      const keys = await buildCheckedAccountMetas(ctx, ACCOUNTS_TRADE_NOCPI, [
         ctx.payer.publicKey, // user
         lpKeypair.publicKey, // lp
         slabPk, // slab
@@ -76,8 +98,9 @@ export function registerTradeNocpi(program: Command): void {
         signers,
         simulate: flags.simulate ?? false,
         commitment: ctx.commitment,
+        ...ctx.txOptions,
       });
 
-      console.log(formatResult(result, flags.json ?? false));
+      console.log(formatResult(result, flags.json ?? false, ctx.cluster, ctx.rpcUrl));
     });
 }
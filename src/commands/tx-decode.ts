@@ -0,0 +1,166 @@
+import { Command } from "commander";
+import {
+  PublicKey,
+  VersionedMessage,
+  VersionedTransaction,
+  MessageAccountKeys,
+  AddressLookupTableAccount,
+} from "@solana/web3.js";
+import { getGlobalFlags } from "../cli.js";
+import { loadConfig } from "../config.js";
+import { createContext, Context } from "../runtime/context.js";
+import { deserializeTransaction, fetchLookupTable } from "../runtime/tx.js";
+import { decodeMessageInstructions } from "../abi/decode.js";
+
+// Base58 transaction signature (64 bytes); serialized transactions are longer and base64
+const SIGNATURE_RE = /^[1-9A-HJ-NP-Za-km-z]{64,88}$/;
+
+interface TxSource {
+  signature?: string;
+  slot?: number;
+  err?: unknown;
+  message: VersionedMessage;
+  accountKeys: MessageAccountKeys;
+}
+
+/**
+ * Fetch a confirmed transaction and resolve its account keys, including lookup table entries.
+ */
+async function fetchBySignature(ctx: Context, signature: string): Promise<TxSource> {
+  const tx = await ctx.connection.getTransaction(signature, {
+    commitment: "confirmed",
+    maxSupportedTransactionVersion: 0,
+  });
+  if (!tx) {
+    throw new Error(`Transaction not found: ${signature}`);
+  }
+  const message = tx.transaction.message;
+  return {
+    signature,
+    slot: tx.slot,
+    err: tx.meta?.err ?? null,
+    message,
+    accountKeys: message.getAccountKeys({
+      accountKeysFromLookups: tx.meta?.loadedAddresses,
+    }),
+  };
+}
+
+/**
+ * Parse a base64 transaction, fetching any lookup tables it references.
+ */
+async function parseSerialized(ctx: Context, base64: string): Promise<TxSource> {
+  const tx = deserializeTransaction(base64);
+  if (!(tx instanceof VersionedTransaction)) {
+    const message = tx.compileMessage();
+    return { message, accountKeys: message.getAccountKeys() };
+  }
+
+  const message = tx.message;
+  const tables: AddressLookupTableAccount[] = [];
+  for (const lookup of message.addressTableLookups) {
+    tables.push(await fetchLookupTable(ctx.connection, lookup.accountKey));
+  }
+  return {
+    message,
+    accountKeys: message.getAccountKeys({ addressLookupTableAccounts: tables }),
+  };
+}
+
+/**
+ * Render an arg value for display/JSON (bigint and PublicKey to strings).
+ */
+function formatArg(value: unknown): string | number | boolean {
+  if (typeof value === "bigint") return value.toString();
+  if (value instanceof PublicKey) return value.toBase58();
+  return value as string | number | boolean;
+}
+
+export function registerTxDecode(program: Command): void {
+  program
+    .command("tx:decode")
+    .description("Decode the Percolator instructions in a transaction")
+    .argument("<signature|base64>", "Transaction signature to fetch, or a base64 serialized transaction")
+    .action(async (input: string, _opts, cmd) => {
+      const flags = getGlobalFlags(cmd);
+      const config = loadConfig(flags);
+      const ctx = createContext(config);
+
+      const source = SIGNATURE_RE.test(input.trim())
+        ? await fetchBySignature(ctx, input.trim())
+        : await parseSerialized(ctx, input);
+      const entries = decodeMessageInstructions(ctx.programId, source.message, source.accountKeys);
+
+      if (flags.json) {
+        console.log(
+          JSON.stringify(
+            {
+              signature: source.signature ?? null,
+              slot: source.slot ?? null,
+              err: source.err ?? null,
+              instructions: entries.map((e) => ({
+                index: e.index,
+                programId: e.programId.toBase58(),
+                name: e.decoded?.name ?? null,
+                tag: e.decoded?.tag ?? null,
+                args: e.decoded
+                  ? Object.fromEntries(
+                      Object.entries(e.decoded.args).map(([k, v]) => [k, formatArg(v)])
+                    )
+                  : null,
+                accounts: e.decoded?.accounts.map((a) => ({
+                  name: a.name,
+                  pubkey: a.pubkey.toBase58(),
+                  signer: a.signer,
+                  writable: a.writable,
+                })) ?? null,
+                error: e.error ?? null,
+              })),
+            },
+            null,
+            2
+          )
+        );
+        return;
+      }
+
+      if (source.signature) {
+        console.log(`Signature: ${source.signature}`);
+        console.log(`Slot:      ${source.slot}`);
+        console.log(`Status:    ${source.err ? `Failed ${JSON.stringify(source.err)}` : "Success"}`);
+        console.log("");
+      }
+
+      for (const e of entries) {
+        if (!e.decoded && !e.error) {
+          console.log(`--- Instruction ${e.index}: ${e.programId.toBase58()} (not Percolator) ---`);
+          console.log("");
+          continue;
+        }
+        if (e.error) {
+          console.log(`--- Instruction ${e.index}: undecodable ---`);
+          console.log(`Error: ${e.error}`);
+          console.log("");
+          continue;
+        }
+
+        const ix = e.decoded!;
+        console.log(`--- Instruction ${e.index}: ${ix.name} (tag ${ix.tag}) ---`);
+        const args = Object.entries(ix.args);
+        if (args.length > 0) {
+          console.log("Args:");
+          for (const [k, v] of args) {
+            console.log(`  ${(k + ":").padEnd(28)} ${formatArg(v)}`);
+          }
+        }
+        console.log("Accounts:");
+        for (const a of ix.accounts) {
+          const flagsStr = [a.signer ? "signer" : "", a.writable ? "writable" : ""]
+            .filter(Boolean)
+            .join(", ");
+          console.log(`  ${a.name.padEnd(16)} ${a.pubkey.toBase58()}${flagsStr ? `  (${flagsStr})` : ""}`);
+        }
+        console.log("");
+      }
+    });
+}
@@ -3,11 +3,9 @@ import { getGlobalFlags } from "../cli.js";
 import { loadConfig } from "../config.js";
 import { createContext } from "../runtime/context.js";
 import { encodeUpdateAdmin } from "../abi/instructions.js";
-import {
-  ACCOUNTS_UPDATE_ADMIN,
-  buildAccountMetas,
-} from "../abi/accounts.js";
+import { ACCOUNTS_UPDATE_ADMIN } from "../abi/accounts.js";
 import { buildIx, simulateOrSend, formatResult } from "../runtime/tx.js";
+import { buildCheckedAccountMetas } from "../runtime/preflight.js";
 import { validatePublicKey } from "../validation.js";
 
 export function registerUpdateAdmin(program: Command): void {
@@ -29,7 +27,7 @@ export function registerUpdateAdmin(program: Command): void {
       const ixData = encodeUpdateAdmin({ newAdmin });
 
       // Build account metas (order matches ACCOUNTS_UPDATE_ADMIN)
-      const keys = buildAccountMetas(ACCOUNTS_UPDATE_ADMIN, [
+      const keys = await buildCheckedAccountMetas(ctx, ACCOUNTS_UPDATE_ADMIN, [
         ctx.payer.publicKey, // admin (current)
         slabPk, // slab
       ]);
@@ -46,8 +44,9 @@ export function registerUpdateAdmin(program: Command): void {
         signers: [ctx.payer],
         simulate: flags.simulate ?? false,
         commitment: ctx.commitment,
+        ...ctx.txOptions,
       });
 
-      console.log(formatResult(result, flags.json ?? false));
+      console.log(formatResult(result, flags.json ?? false, ctx.cluster, ctx.rpcUrl));
     });
 }
@@ -2,16 +2,23 @@ import { Command } from "commander";
 import { getGlobalFlags } from "../cli.js";
 import { loadConfig } from "../config.js";
 import { createContext } from "../runtime/context.js";
-import { encodeUpdateConfig } from "../abi/instructions.js";
-import {
-  ACCOUNTS_UPDATE_CONFIG,
-  buildAccountMetas,
-} from "../abi/accounts.js";
+import { confirmAction } from "../runtime/confirm.js";
+import { encodeUpdateConfig, UpdateConfigArgs } from "../abi/instructions.js";
+import { ACCOUNTS_UPDATE_CONFIG } from "../abi/accounts.js";
 import { buildIx, simulateOrSend, formatResult } from "../runtime/tx.js";
-import { validatePublicKey } from "../validation.js";
+import { buildCheckedAccountMetas } from "../runtime/preflight.js";
+import { fetchSlab, parseConfig } from "../solana/slab.js";
+import {
+  validatePublicKey,
+  validateU64,
+  validateU128,
+  validateI64,
+} from "../validation.js";
 
-// Default values (from percolator-prog constants)
-const DEFAULTS = {
+export type ConfigField = keyof UpdateConfigArgs;
+
+// Default values (from percolator-prog constants), used with --reset-defaults
+const DEFAULTS: Record<ConfigField, bigint> = {
   fundingHorizonSlots: 500n,
   fundingKBps: 100n,
   fundingInvScaleNotionalE6: 1_000_000_000_000n, // $1M in e6
@@ -27,26 +34,55 @@ const DEFAULTS = {
   threshMinStep: 1n,
 };
 
+/**
+ * Each UpdateConfig field with its command option, display label and validator.
+ * threshold:simulate takes the threshold fields as hypothetical values.
+ */
+export const CONFIG_FIELDS: {
+  key: ConfigField;
+  option: string;
+  flag: string;
+  label: string;
+  unit: string;
+  validate: (value: string, field: string) => bigint;
+}[] = [
+  { key: "fundingHorizonSlots", option: "fundingHorizonSlots", flag: "--funding-horizon-slots", label: "Funding Horizon", unit: " slots", validate: validateU64 },
+  { key: "fundingKBps", option: "fundingKBps", flag: "--funding-k-bps", label: "Funding K", unit: " bps", validate: validateU64 },
+  { key: "fundingInvScaleNotionalE6", option: "fundingScale", flag: "--funding-scale", label: "Funding Scale", unit: "", validate: validateU128 },
+  { key: "fundingMaxPremiumBps", option: "fundingMaxPremiumBps", flag: "--funding-max-premium-bps", label: "Funding Max Premium", unit: " bps", validate: validateI64 },
+  { key: "fundingMaxBpsPerSlot", option: "fundingMaxBpsPerSlot", flag: "--funding-max-bps-per-slot", label: "Funding Max/Slot", unit: " bps", validate: validateI64 },
+  { key: "threshFloor", option: "threshFloor", flag: "--thresh-floor", label: "Thresh Floor", unit: "", validate: validateU128 },
+  { key: "threshRiskBps", option: "threshRiskBps", flag: "--thresh-risk-bps", label: "Thresh Risk", unit: " bps", validate: validateU64 },
+  { key: "threshUpdateIntervalSlots", option: "threshUpdateInterval", flag: "--thresh-update-interval", label: "Thresh Interval", unit: " slots", validate: validateU64 },
+  { key: "threshStepBps", option: "threshStepBps", flag: "--thresh-step-bps", label: "Thresh Step", unit: " bps", validate: validateU64 },
+  { key: "threshAlphaBps", option: "threshAlphaBps", flag: "--thresh-alpha-bps", label: "Thresh Alpha", unit: " bps", validate: validateU64 },
+  { key: "threshMin", option: "threshMin", flag: "--thresh-min", label: "Thresh Min", unit: "", validate: validateU128 },
+  { key: "threshMax", option: "threshMax", flag: "--thresh-max", label: "Thresh Max", unit: "", validate: validateU128 },
+  { key: "threshMinStep", option: "threshMinStep", flag: "--thresh-min-step", label: "Thresh Min Step", unit: "", validate: validateU128 },
+];
+
 export function registerUpdateConfig(program: Command): void {
   program
     .command("update-config")
     .description("Update funding and threshold parameters (admin only)")
     .requiredOption("--slab <pubkey>", "Slab account public key")
     // Funding parameters
-    .option("--funding-horizon-slots <n>", "Funding horizon in slots (default: 500)")
-    .option("--funding-k-bps <n>", "Funding multiplier in bps (default: 100 = 1.00x)")
-    .option("--funding-scale <n>", "Funding inventory scale notional e6 (default: 1000000000000 = $1M)")
-    .option("--funding-max-premium-bps <n>", "Max funding premium in bps (default: 500)")
-    .option("--funding-max-bps-per-slot <n>", "Max funding rate per slot in bps (default: 5)")
+    .option("--funding-horizon-slots <n>", "Funding horizon in slots (default: current)")
+    .option("--funding-k-bps <n>", "Funding multiplier in bps, 100 = 1.00x (default: current)")
+    .option("--funding-scale <n>", "Funding inventory scale notional e6 (default: current)")
+    .option("--funding-max-premium-bps <n>", "Max funding premium in bps (default: current)")
+    .option("--funding-max-bps-per-slot <n>", "Max funding rate per slot in bps (default: current)")
     // Threshold parameters
-    .option("--thresh-floor <n>", "Threshold floor (default: 0)")
-    .option("--thresh-risk-bps <n>", "Threshold risk coefficient in bps (default: 50)")
-    .option("--thresh-update-interval <n>", "Threshold update interval in slots (default: 10)")
-    .option("--thresh-step-bps <n>", "Max threshold step in bps (default: 500)")
-    .option("--thresh-alpha-bps <n>", "Threshold EWMA alpha in bps (default: 1000)")
-    .option("--thresh-min <n>", "Minimum threshold (default: 0)")
-    .option("--thresh-max <n>", "Maximum threshold (default: 10000000000000000000)")
-    .option("--thresh-min-step <n>", "Minimum threshold step (default: 1)")
+    .option("--thresh-floor <n>", "Threshold floor (default: current)")
+    .option("--thresh-risk-bps <n>", "Threshold risk coefficient in bps (default: current)")
+    .option("--thresh-update-interval <n>", "Threshold update interval in slots (default: current)")
+    .option("--thresh-step-bps <n>", "Max threshold step in bps (default: current)")
+    .option("--thresh-alpha-bps <n>", "Threshold EWMA alpha in bps (default: current)")
+    .option("--thresh-min <n>", "Minimum threshold (default: current)")
+    .option("--thresh-max <n>", "Maximum threshold (default: current)")
+    .option("--thresh-min-step <n>", "Minimum threshold step (default: current)")
+    .option("--reset-defaults", "Start from the program defaults instead of the current on-chain values")
+    .option("--yes", "Skip the confirmation prompt")
     .action(async (opts, cmd) => {
       const flags = getGlobalFlags(cmd);
       const config = loadConfig(flags);
@@ -54,26 +90,77 @@ export function registerUpdateConfig(program: Command): void {
 
       const slabPk = validatePublicKey(opts.slab, "--slab");
 
-      // Build config with defaults, overridden by provided options
-      const configArgs = {
-        fundingHorizonSlots: opts.fundingHorizonSlots ? BigInt(opts.fundingHorizonSlots) : DEFAULTS.fundingHorizonSlots,
-        fundingKBps: opts.fundingKBps ? BigInt(opts.fundingKBps) : DEFAULTS.fundingKBps,
-        fundingInvScaleNotionalE6: opts.fundingScale ? BigInt(opts.fundingScale) : DEFAULTS.fundingInvScaleNotionalE6,
-        fundingMaxPremiumBps: opts.fundingMaxPremiumBps ? BigInt(opts.fundingMaxPremiumBps) : DEFAULTS.fundingMaxPremiumBps,
-        fundingMaxBpsPerSlot: opts.fundingMaxBpsPerSlot ? BigInt(opts.fundingMaxBpsPerSlot) : DEFAULTS.fundingMaxBpsPerSlot,
-        threshFloor: opts.threshFloor ? BigInt(opts.threshFloor) : DEFAULTS.threshFloor,
-        threshRiskBps: opts.threshRiskBps ? BigInt(opts.threshRiskBps) : DEFAULTS.threshRiskBps,
-        threshUpdateIntervalSlots: opts.threshUpdateInterval ? BigInt(opts.threshUpdateInterval) : DEFAULTS.threshUpdateIntervalSlots,
-        threshStepBps: opts.threshStepBps ? BigInt(opts.threshStepBps) : DEFAULTS.threshStepBps,
-        threshAlphaBps: opts.threshAlphaBps ? BigInt(opts.threshAlphaBps) : DEFAULTS.threshAlphaBps,
-        threshMin: opts.threshMin ? BigInt(opts.threshMin) : DEFAULTS.threshMin,
-        threshMax: opts.threshMax ? BigInt(opts.threshMax) : DEFAULTS.threshMax,
-        threshMinStep: opts.threshMinStep ? BigInt(opts.threshMinStep) : DEFAULTS.threshMinStep,
-      };
+      // Signing offline can't read the slab, so every value must come from options or defaults
+      const offline = ctx.txOptions.signOnly || ctx.txOptions.blockhash !== undefined;
+      if (offline && !opts.resetDefaults) {
+        const missing = CONFIG_FIELDS.filter((f) => opts[f.option] === undefined);
+        if (missing.length > 0) {
+          throw new Error(
+            `Signing offline can't read the current config; pass every field or use --reset-defaults (missing: ${missing.map((f) => f.flag).join(", ")})`
+          );
+        }
+      }
+      const current = offline ? undefined : parseConfig(await fetchSlab(ctx.connection, slabPk));
+
+      // Start from the current on-chain values (or defaults), overridden by provided options
+      const configArgs = {} as Record<ConfigField, bigint>;
+      for (const f of CONFIG_FIELDS) {
+        configArgs[f.key] =
+          opts[f.option] !== undefined
+            ? f.validate(opts[f.option], f.flag)
+            : opts.resetDefaults || current === undefined
+              ? DEFAULTS[f.key]
+              : current[f.key];
+      }
+
+      // Without the on-chain values every field counts as written
+      const changes = current !== undefined ? CONFIG_FIELDS.filter((f) => configArgs[f.key] !== current[f.key]) : CONFIG_FIELDS;
+
+      if (current === undefined) {
+        // Nothing to compare against: show every value that will be written
+        if (!flags.json) {
+          console.log("Config to write (on-chain values not read):");
+          for (const f of CONFIG_FIELDS) {
+            const source = opts[f.option] !== undefined ? "" : " (default)";
+            console.log(`  ${(f.label + ":").padEnd(21)}${configArgs[f.key]}${f.unit}${source}`);
+          }
+          console.log("");
+        }
+      } else {
+        if (!flags.json) {
+          console.log("Config changes:");
+          if (changes.length === 0) {
+            console.log("  (none)");
+          }
+          for (const f of changes) {
+            console.log(
+              `  ${(f.label + ":").padEnd(21)}${current[f.key]}${f.unit} -> ${configArgs[f.key]}${f.unit}`
+            );
+          }
+          console.log("");
+        }
+
+        if (changes.length === 0) {
+          if (flags.json) {
+            console.log(JSON.stringify({ changes: [] }, null, 2));
+          } else {
+            console.log("Nothing to update");
+          }
+          return;
+        }
+      }
+
+      // Simulating or signing offline sends nothing, so needs no confirmation
+      const sending = !(flags.simulate ?? false) && !ctx.txOptions.signOnly;
+      if (sending && !(await confirmAction(`Update ${current !== undefined ? changes.length : "all"} field(s) on ${slabPk.toBase58()}?`, opts.yes ?? false))) {
+        console.log("Aborted");
+        process.exitCode = 1;
+        return;
+      }
 
       const ixData = encodeUpdateConfig(configArgs);
 
-      const keys = buildAccountMetas(ACCOUNTS_UPDATE_CONFIG, [
+      const keys = await buildCheckedAccountMetas(ctx, ACCOUNTS_UPDATE_CONFIG, [
         ctx.payer.publicKey, // admin
         slabPk, // slab
       ]);
@@ -90,25 +177,9 @@ export function registerUpdateConfig(program: Command): void {
         signers: [ctx.payer],
         simulate: flags.simulate ?? false,
         commitment: ctx.commitment,
+        ...ctx.txOptions,
       });
 
-      if (!flags.json) {
-        console.log("Config updated:");
-        console.log(`  Funding Horizon:     ${configArgs.fundingHorizonSlots} slots`);
-        console.log(`  Funding K:           ${configArgs.fundingKBps} bps`);
-        console.log(`  Funding Scale:       ${configArgs.fundingInvScaleNotionalE6}`);
-        console.log(`  Funding Max Premium: ${configArgs.fundingMaxPremiumBps} bps`);
-        console.log(`  Funding Max/Slot:    ${configArgs.fundingMaxBpsPerSlot} bps`);
-        console.log(`  Thresh Floor:        ${configArgs.threshFloor}`);
-        console.log(`  Thresh Risk:         ${configArgs.threshRiskBps} bps`);
-        console.log(`  Thresh Interval:     ${configArgs.threshUpdateIntervalSlots} slots`);
-        console.log(`  Thresh Step:         ${configArgs.threshStepBps} bps`);
-        console.log(`  Thresh Alpha:        ${configArgs.threshAlphaBps} bps`);
-        console.log(`  Thresh Min:          ${configArgs.threshMin}`);
-        console.log(`  Thresh Max:          ${configArgs.threshMax}`);
-        console.log(`  Thresh Min Step:     ${configArgs.threshMinStep}`);
-      }
-
-      console.log(formatResult(result, flags.json ?? false));
+      console.log(formatResult(result, flags.json ?? false, ctx.cluster, ctx.rpcUrl));
     });
 }
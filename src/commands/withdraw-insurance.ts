@@ -4,8 +4,9 @@ import { getGlobalFlags } from "../cli.js";
 import { loadConfig } from "../config.js";
 import { createContext } from "../runtime/context.js";
 import { encodeWithdrawInsurance } from "../abi/instructions.js";
-import { ACCOUNTS_WITHDRAW_INSURANCE, buildAccountMetas } from "../abi/accounts.js";
+import { ACCOUNTS_WITHDRAW_INSURANCE } from "../abi/accounts.js";
 import { buildIx, simulateOrSend, formatResult } from "../runtime/tx.js";
+import { buildCheckedAccountMetas } from "../runtime/preflight.js";
 import { validatePublicKey } from "../validation.js";
 import { fetchSlab, parseConfig } from "../solana/slab.js";
 import { deriveVaultAuthority } from "../solana/pda.js";
@@ -34,7 +35,7 @@ export function registerWithdrawInsurance(program: Command): void {
       );
 
       const ixData = encodeWithdrawInsurance();
-      const keys = buildAccountMetas(ACCOUNTS_WITHDRAW_INSURANCE, [
+      const keys = await buildCheckedAccountMetas(ctx, ACCOUNTS_WITHDRAW_INSURANCE, [
         ctx.payer.publicKey,
         slabPk,
         adminAta,
@@ -55,8 +56,9 @@ export function registerWithdrawInsurance(program: Command): void {
         signers: [ctx.payer],
         simulate: flags.simulate ?? false,
         commitment: ctx.commitment,
+        ...ctx.txOptions,
       });
 
-      console.log(formatResult(result, flags.json ?? false));
+      console.log(formatResult(result, flags.json ?? false, ctx.cluster, ctx.rpcUrl));
     });
 }
@@ -1,45 +1,102 @@
 import { Command } from "commander";
 import { getGlobalFlags } from "../cli.js";
 import { loadConfig } from "../config.js";
+import { applyMarket } from "../market.js";
 import { createContext } from "../runtime/context.js";
-import { fetchSlab, parseConfig } from "../solana/slab.js";
+import { Connection, PublicKey } from "@solana/web3.js";
+import { fetchSlab, parseConfig, parseEngine, parseAccount, findUserIdx } from "../solana/slab.js";
 import { getAta } from "../solana/ata.js";
 import { deriveVaultAuthority } from "../solana/pda.js";
 import { encodeWithdrawCollateral } from "../abi/instructions.js";
 import {
   ACCOUNTS_WITHDRAW_COLLATERAL,
-  buildAccountMetas,
   WELL_KNOWN,
 } from "../abi/accounts.js";
 import { buildIx, simulateOrSend, formatResult } from "../runtime/tx.js";
+import { haircutRatio } from "../health.js";
+import { warmupState, withdrawableAt, slotWhenWithdrawable } from "../warmup.js";
+import { toEngineUnits, fromEngineUnits, formatSlotDuration, SLOT_MS } from "../units.js";
+import { buildCheckedAccountMetas, assertAccountIndices } from "../runtime/preflight.js";
 import {
   validatePublicKey,
   validateIndex,
   validateAmount,
+  validateU64,
 } from "../validation.js";
 
+/** Longest sleep between re-checks while waiting for warmup */
+const MAX_WAIT_MS = 30_000;
+
+/**
+ * Poll the slab until `amount` (native units) is withdrawable from the account
+ * by warmup alone. Re-reads the account each time, since the engine restarts
+ * warmup whenever its PnL changes.
+ */
+async function waitUntilWithdrawable(
+  connection: Connection,
+  slabPk: PublicKey,
+  userIdx: number,
+  amount: bigint
+): Promise<void> {
+  for (;;) {
+    const [data, slot] = await Promise.all([fetchSlab(connection, slabPk), connection.getSlot()]);
+    const { unitScale } = parseConfig(data);
+    const account = parseAccount(data, userIdx);
+    const haircut = haircutRatio(parseEngine(data));
+    const now = BigInt(slot);
+    const needed = toEngineUnits(amount, unitScale);
+
+    if (withdrawableAt(account, haircut, now) >= needed) return;
+    const target = slotWhenWithdrawable(account, haircut, needed, now);
+    if (target === null) {
+      const fullSlot = warmupState(account, now).fullyWarmedSlot ?? now;
+      const max = fromEngineUnits(withdrawableAt(account, haircut, fullSlot > now ? fullSlot : now), unitScale);
+      throw new Error(`--amount ${amount} will not become withdrawable by warmup; at most ${max} once fully warmed`);
+    }
+
+    console.error(`Waiting until slot ${target} (${formatSlotDuration(target - now)}); now at slot ${now}...`);
+    const waitMs = Math.min(Number(target - now) * SLOT_MS, MAX_WAIT_MS);
+    await new Promise((r) => setTimeout(r, waitMs));
+  }
+}
+
 export function registerWithdraw(program: Command): void {
   program
     .command("withdraw")
     .description("Withdraw collateral from user account")
-    .requiredOption("--slab <pubkey>", "Slab account public key")
-    .requiredOption("--user-idx <number>", "User account index")
+    .option("--market <name>", "Market from the registry (fills --slab)")
+    .option("--slab <pubkey>", "Slab account public key")
+    .option("--user-idx <number>", "User account index (default: the wallet's only User account)")
     .requiredOption("--amount <string>", "Amount to withdraw (native units)")
+    .option("--account-id <id>", "Expected account ID at the user index; fails if the slot was closed and reused")
+    .option("--when-warm", "Wait until enough PnL has warmed up for the amount, then send")
     .action(async (opts, cmd) => {
       const flags = getGlobalFlags(cmd);
       const config = loadConfig(flags);
+      applyMarket(opts, config, ["slab"]);
       const ctx = createContext(config);
 
       // Validate inputs
       const slabPk = validatePublicKey(opts.slab, "--slab");
-      const userIdx = validateIndex(opts.userIdx, "--user-idx");
       validateAmount(opts.amount, "--amount");
       const amount = opts.amount;
+      const accountId = opts.accountId !== undefined ? validateU64(opts.accountId, "--account-id") : undefined;
 
       // Fetch slab config for vault and oracles
       const data = await fetchSlab(ctx.connection, slabPk);
       const mktConfig = parseConfig(data);
 
+      // Default to the wallet's only User account
+      const userIdx =
+        opts.userIdx !== undefined
+          ? validateIndex(opts.userIdx, "--user-idx")
+          : findUserIdx(data, ctx.payer.publicKey);
+      assertAccountIndices(data, [{ idx: userIdx, flag: "--user-idx", owner: ctx.payer.publicKey, accountId }]);
+
+      if (opts.whenWarm) {
+        await waitUntilWithdrawable(ctx.connection, slabPk, userIdx, BigInt(amount));
+      }
+
       // Get user's ATA for the collateral mint
       const userAta = await getAta(ctx.payer.publicKey, mktConfig.collateralMint);
 
@@ -50,7 +107,7 @@ export function registerWithdraw(program: Command): void {
       const ixData = encodeWithdrawCollateral({ userIdx, amount });
 
       // Build account metas (order matches ACCOUNTS_WITHDRAW_COLLATERAL)
-      const keys = buildAccountMetas(ACCOUNTS_WITHDRAW_COLLATERAL, [
+      const keys = await buildCheckedAccountMetas(ctx, ACCOUNTS_WITHDRAW_COLLATERAL, [
         ctx.payer.publicKey, // user
         slabPk, // slab
         mktConfig.vaultPubkey, // vault
@@ -73,8 +130,9 @@ export function registerWithdraw(program: Command): void {
         signers: [ctx.payer],
         simulate: flags.simulate ?? false,
         commitment: ctx.commitment,
+        ...ctx.txOptions,
       });
 
-      console.log(formatResult(result, flags.json ?? false));
+      console.log(formatResult(result, flags.json ?? false, ctx.cluster, ctx.rpcUrl));
     });
 }
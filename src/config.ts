@@ -1,27 +1,112 @@
 import { readFileSync, existsSync } from "node:fs";
 import { resolve } from "node:path";
 import { z } from "zod";
-import { Commitment } from "@solana/web3.js";
+import { Commitment, PublicKey } from "@solana/web3.js";
 
 const CommitmentSchema = z.enum(["processed", "confirmed", "finalized"]);
+const ClusterSchema = z.enum(["mainnet-beta", "devnet", "testnet", "localnet"]);
+
+export type Cluster = z.infer<typeof ClusterSchema>;
+
+const PubkeySchema = z.string().refine((s) => {
+  try {
+    new PublicKey(s);
+    return true;
+  } catch {
+    return false;
+  }
+}, "must be a base58 public key");
+
+/**
+ * A market's addresses, so commands can take --market <name> instead of raw pubkeys.
+ */
+export const MarketManifestSchema = z.object({
+  slab: PubkeySchema,
+  oracle: PubkeySchema,
+  mint: PubkeySchema,
+  decimals: z.number().int().min(0).max(18),
+  matcher: z
+    .object({
+      program: PubkeySchema,
+      context: PubkeySchema,
+    })
+    .optional(),
+  lp: z
+    .object({
+      index: z.number().int().min(0).max(4095),
+      pda: PubkeySchema.optional(),
+    })
+    .optional(),
+  programId: PubkeySchema.optional(),
+  network: z.string().optional(),
+});
+
+export type MarketManifest = z.infer<typeof MarketManifestSchema>;
 
 const ConfigSchema = z.object({
   rpcUrl: z.string().url(),
   programId: z.string(),
   wallet: z.string(),
   commitment: CommitmentSchema.default("confirmed"),
+  // Explorer cluster for transaction links (inferred from rpcUrl if not set)
+  cluster: ClusterSchema,
+  // Name of the profile the settings came from, if any
+  profile: z.string().optional(),
+  // Priority fee: "auto" (estimate from recent fees) or a fixed price in micro-lamports per CU
+  priorityFee: z
+    .string()
+    .regex(/^(auto|\d+)$/, 'must be "auto" or a non-negative integer (micro-lamports per CU)')
+    .optional(),
+  priorityFeePercentile: z.number().int().min(0).max(100).default(75),
+  priorityFeeCap: z.number().int().nonnegative().default(1_000_000),
+  // Simulate first and size the compute unit limit from unitsConsumed + margin (percent)
+  autoComputeUnits: z.boolean().default(false),
+  computeUnitMargin: z.number().nonnegative().default(10),
+  // Address lookup table for v0 transactions (see `alt create`)
+  lookupTable: z.string().optional(),
+  // Offline signing: durable nonce account/authority, fixed blockhash, external fee payer
+  signOnly: z.boolean().default(false),
+  nonceAccount: z.string().optional(),
+  nonceAuthority: z.string().optional(),
+  blockhash: z.string().optional(),
+  feePayer: z.string().optional(),
+  // Skip the on-chain account checks run before sending (see runtime/preflight.ts)
+  skipPreflight: z.boolean().default(false),
+  // slab:engine / slab:account warn when the haircut ratio is below this percent
+  haircutWarnPercent: z.number().min(0).max(100).default(100),
+  // Markets by name (see --market); the registry file holds imported ones
+  markets: z.record(MarketManifestSchema).default({}),
+  marketRegistry: z.string().default("~/.config/percolator-cli/markets.json"),
 });
 
 export type Config = z.infer<typeof ConfigSchema>;
 
+/**
+ * Config file contents: top-level settings plus named profiles that override them.
+ */
+type FileConfig = Partial<Config> & {
+  profiles?: Record<string, Partial<Config>>;
+  defaultProfile?: string;
+};
+
 export interface GlobalFlags {
   config?: string;
+  profile?: string;
   rpc?: string;
   program?: string;
   wallet?: string;
   commitment?: Commitment;
   json?: boolean;
   simulate?: boolean;
+  priorityFee?: string;
+  autoComputeUnits?: boolean;
+  lookupTable?: string;
+  signOnly?: boolean;
+  nonceAccount?: string;
+  nonceAuthority?: string;
+  blockhash?: string;
+  feePayer?: string;
+  skipPreflight?: boolean;
 }
 
 const DEFAULT_CONFIG_NAME = "percolator-cli.json";
@@ -33,22 +118,56 @@ export function loadConfig(flags: GlobalFlags): Config {
   // Find config file
   const configPath = flags.config ?? findConfig();
 
-  let fileConfig: Partial<Config> = {};
+  let file: FileConfig = {};
   if (configPath && existsSync(configPath)) {
     try {
       const raw = readFileSync(configPath, "utf-8");
-      fileConfig = JSON.parse(raw);
+      file = JSON.parse(raw);
     } catch (e) {
       throw new Error(`Failed to parse config file ${configPath}: ${e}`);
     }
   }
 
+  // Profile settings override the top-level ones
+  const { profiles, defaultProfile, ...topLevel } = file;
+  const profileName = flags.profile ?? defaultProfile;
+  let fileConfig: Partial<Config> = topLevel;
+  if (profileName !== undefined) {
+    const profile = profiles?.[profileName];
+    if (!profile) {
+      const available = Object.keys(profiles ?? {});
+      throw new Error(
+        `Unknown profile "${profileName}"` +
+          (available.length > 0 ? ` (available: ${available.join(", ")})` : " (config file has no profiles)")
+      );
+    }
+    fileConfig = { ...topLevel, ...profile };
+  }
+
   // Merge: CLI flags override file config
+  const rpcUrl = flags.rpc ?? fileConfig.rpcUrl ?? process.env.SOLANA_RPC_URL ?? "https://api.devnet.solana.com";
   const merged = {
-    rpcUrl: flags.rpc ?? fileConfig.rpcUrl ?? process.env.SOLANA_RPC_URL ?? "https://api.devnet.solana.com",
+    rpcUrl,
     programId: flags.program ?? fileConfig.programId,
     wallet: flags.wallet ?? fileConfig.wallet ?? "~/.config/solana/id.json",
     commitment: flags.commitment ?? fileConfig.commitment ?? "confirmed",
+    cluster: fileConfig.cluster ?? inferCluster(rpcUrl),
+    profile: profileName,
+    priorityFee: flags.priorityFee ?? fileConfig.priorityFee,
+    priorityFeePercentile: fileConfig.priorityFeePercentile,
+    priorityFeeCap: fileConfig.priorityFeeCap,
+    autoComputeUnits: flags.autoComputeUnits || fileConfig.autoComputeUnits,
+    computeUnitMargin: fileConfig.computeUnitMargin,
+    lookupTable: flags.lookupTable ?? fileConfig.lookupTable,
+    signOnly: flags.signOnly ?? false,
+    nonceAccount: flags.nonceAccount ?? fileConfig.nonceAccount,
+    nonceAuthority: flags.nonceAuthority ?? fileConfig.nonceAuthority,
+    blockhash: flags.blockhash,
+    feePayer: flags.feePayer ?? fileConfig.feePayer,
+    skipPreflight: flags.skipPreflight || fileConfig.skipPreflight,
+    haircutWarnPercent: fileConfig.haircutWarnPercent,
+    markets: fileConfig.markets,
+    marketRegistry: fileConfig.marketRegistry,
   };
 
   // Validate
@@ -61,6 +180,16 @@ export function loadConfig(flags: GlobalFlags): Config {
   return result.data;
 }
 
+/**
+ * Guess the explorer cluster from an RPC URL. Unrecognised hosts are treated as mainnet.
+ */
+function inferCluster(rpcUrl: string): Cluster {
+  if (/localhost|127\.0\.0\.1|0\.0\.0\.0/.test(rpcUrl)) return "localnet";
+  if (rpcUrl.includes("devnet")) return "devnet";
+  if (rpcUrl.includes("testnet")) return "testnet";
+  return "mainnet-beta";
+}
+
 /**
  * Find config file in cwd.
  */
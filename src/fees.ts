@@ -0,0 +1,83 @@
+/**
+ * Maintenance fees, mirroring the engine's settlement. Each account owes
+ * maintenanceFeePerSlot for every slot since lastFeeSlot. On settlement the
+ * fee comes out of feeCredits first; any debt left is paid from capital (to
+ * the insurance fund), so an idle account's capital drains once its credits
+ * run out. Negative credits block close-account, and a flat account with no
+ * capital left can be garbage-collected by the crank.
+ */
+
+import { Account, RiskParams } from "./solana/slab.js";
+import { accountHealth } from "./health.js";
+
+type FeeFields = Pick<Account, "capital" | "feeCredits" | "lastFeeSlot">;
+
+export interface FeeState {
+  slot: bigint;
+  accrued: bigint;    // Due since lastFeeSlot, not yet settled
+  feeCredits: bigint; // After settlement; negative is debt capital could not cover
+  capital: bigint;    // After settlement
+  paidFromCapital: bigint;
+}
+
+/**
+ * The account as it would be after settling maintenance fees at a slot.
+ */
+export function feeStateAt(account: FeeFields, feePerSlot: bigint, slot: bigint): FeeState {
+  const dt = slot > account.lastFeeSlot ? slot - account.lastFeeSlot : 0n;
+  const accrued = feePerSlot * dt;
+  const credits = account.feeCredits - accrued;
+  const owed = credits < 0n ? -credits : 0n;
+  const pay = owed < account.capital ? owed : account.capital;
+  return {
+    slot,
+    accrued,
+    feeCredits: credits + pay,
+    capital: account.capital - pay,
+    paidFromCapital: pay,
+  };
+}
+
+/**
+ * First slot at which fees have taken `amount` of the account's capital, or
+ * null if there is no fee or the capital is smaller than that.
+ */
+export function slotWhenFeesConsume(account: FeeFields, feePerSlot: bigint, amount: bigint): bigint | null {
+  if (amount <= 0n) return account.lastFeeSlot;
+  if (feePerSlot <= 0n || amount > account.capital) return null;
+  // Credits are used up first; fees beyond them come out of capital
+  const due = account.feeCredits + amount;
+  if (due <= 0n) return account.lastFeeSlot;
+  return account.lastFeeSlot + (due + feePerSlot - 1n) / feePerSlot;
+}
+
+export interface FeeProjection extends FeeState {
+  capitalExhaustedSlot: bigint | null; // null when there is no fee
+  liquidatableSlot: bigint | null;     // null when flat, unpriced, or fees alone can't make it liquidatable
+}
+
+/**
+ * Fee state at a slot, plus when fees will have drained the capital and when
+ * they will push the position to maintenance margin at a fixed engine price
+ * (skipped when no price is given). Slots at or before `slot` mean it has
+ * already happened.
+ */
+export function feeProjection(
+  account: FeeFields & Pick<Account, "pnl" | "positionSize" | "entryPrice">,
+  params: Pick<RiskParams, "maintenanceFeePerSlot" | "initialMarginBps" | "maintenanceMarginBps" | "liquidationBufferBps">,
+  priceE6: bigint | null,
+  slot: bigint
+): FeeProjection {
+  const feePerSlot = params.maintenanceFeePerSlot;
+  let liquidatableSlot: bigint | null = null;
+  if (account.positionSize !== 0n && priceE6 !== null) {
+    // Capital taken by fees comes straight off equity
+    const health = accountHealth(account, params, priceE6);
+    liquidatableSlot = health.liquidatable ? slot : slotWhenFeesConsume(account, feePerSlot, health.marginBuffer);
+  }
+  return {
+    ...feeStateAt(account, feePerSlot, slot),
+    capitalExhaustedSlot: slotWhenFeesConsume(account, feePerSlot, account.capital),
+    liquidatableSlot,
+  };
+}
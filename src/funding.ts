@@ -0,0 +1,74 @@
+/**
+ * Inventory funding, mirroring the program. At each crank the engine first
+ * accrues the stored rate (fundingRateBpsPerSlotLast) into the global index
+ * over the slots since lastFundingSlot, then sets the rate for the next
+ * interval from the LP book's net position: a premium proportional to its
+ * notional, capped, spread over the funding horizon and clamped per slot.
+ * A positive rate means longs pay shorts.
+ *
+ * Accounts settle against the index when touched: they pay
+ * positionSize * (index - account.fundingIndex) / 1e6 out of PnL.
+ */
+
+import { MarketConfig, EngineState, Account } from "./solana/slab.js";
+import { SLOT_MS } from "./units.js";
+
+const PRICE_SCALE = 1_000_000n;
+const BPS = 10_000n;
+export const SLOTS_PER_YEAR = BigInt((365 * 24 * 60 * 60 * 1000) / SLOT_MS);
+
+type FundingParams = Pick<
+  MarketConfig,
+  | "fundingHorizonSlots"
+  | "fundingKBps"
+  | "fundingInvScaleNotionalE6"
+  | "fundingMaxPremiumBps"
+  | "fundingMaxBpsPerSlot"
+>;
+type FundingEngine = Pick<EngineState, "fundingIndexQpbE6" | "lastFundingSlot" | "fundingRateBpsPerSlotLast">;
+
+const abs = (x: bigint) => (x < 0n ? -x : x);
+
+/**
+ * Funding rate in bps per slot for an LP net position at an engine price.
+ * Zero when the LP book is flat, the price is zero, or no horizon is set.
+ */
+export function fundingRateBpsPerSlot(params: FundingParams, netLpPos: bigint, priceE6: bigint): bigint {
+  if (netLpPos === 0n || priceE6 === 0n || params.fundingHorizonSlots === 0n) return 0n;
+
+  const notional = (abs(netLpPos) * priceE6) / PRICE_SCALE;
+  const scale = params.fundingInvScaleNotionalE6 > 0n ? params.fundingInvScaleNotionalE6 : 1n;
+  let premiumBps = (notional * params.fundingKBps) / scale;
+  const maxPremium = abs(params.fundingMaxPremiumBps);
+  if (premiumBps > maxPremium) premiumBps = maxPremium;
+
+  // Division truncates toward zero, as in Rust
+  const perSlot = (netLpPos > 0n ? premiumBps : -premiumBps) / params.fundingHorizonSlots;
+  const max = abs(params.fundingMaxBpsPerSlot);
+  return perSlot > max ? max : perSlot < -max ? -max : perSlot;
+}
+
+/**
+ * Global funding index at a slot: the stored index plus the stored rate
+ * accrued since lastFundingSlot, as the next crank would write it.
+ */
+export function fundingIndexAt(engine: FundingEngine, priceE6: bigint, slot: bigint): bigint {
+  const dt = slot > engine.lastFundingSlot ? slot - engine.lastFundingSlot : 0n;
+  return engine.fundingIndexQpbE6 + (priceE6 * engine.fundingRateBpsPerSlotLast * dt) / BPS;
+}
+
+/**
+ * Funding an account owes against an index (positive = the account pays).
+ * Payments round up and receipts round down, like the engine.
+ */
+export function unsettledFunding(account: Pick<Account, "positionSize" | "fundingIndex">, index: bigint): bigint {
+  const raw = account.positionSize * (index - account.fundingIndex);
+  return raw > 0n ? (raw + PRICE_SCALE - 1n) / PRICE_SCALE : raw / PRICE_SCALE;
+}
+
+/**
+ * Annualized rate in bps from a per-slot rate (not compounded).
+ */
+export function annualizedBps(bpsPerSlot: bigint): bigint {
+  return bpsPerSlot * SLOTS_PER_YEAR;
+}
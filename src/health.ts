@@ -0,0 +1,178 @@
+/**
+ * Account margin math, mirroring the engine's mark-to-market checks.
+ *
+ * Amounts are engine units and prices are engine prices (e6, after inversion
+ * and unit scaling; see toEnginePrice). Only settled PnL is counted: funding
+ * and maintenance fees accrued since the account was last touched are not.
+ */
+
+import { Account, RiskParams, EngineState } from "./solana/slab.js";
+
+const PRICE_SCALE = 1_000_000n;
+const BPS = 10_000n;
+/** Prices are u64 on chain */
+const MAX_PRICE = (1n << 64n) - 1n;
+
+type PositionFields = Pick<Account, "capital" | "pnl" | "positionSize" | "entryPrice">;
+type MarginParams = Pick<RiskParams, "initialMarginBps" | "maintenanceMarginBps" | "liquidationBufferBps">;
+
+export interface AccountHealth {
+  priceE6: bigint;
+  markPnl: bigint;           // Unrealized PnL of the position at priceE6
+  equity: bigint;            // capital + pnl + markPnl, floored at zero
+  notional: bigint;          // |position| * price
+  marginRatioBps: bigint | null; // equity / notional; null when flat
+  initialMargin: bigint;     // Required to open or increase a position, and to withdraw
+  maintenanceMargin: bigint; // Liquidatable at or below this
+  marginBuffer: bigint;      // equity - maintenanceMargin (negative when liquidatable)
+  freeCollateral: bigint;    // Equity above the initial margin
+  liquidatable: boolean;
+  liquidationTarget: bigint; // Margin a partial liquidation restores: maintenance plus the liquidation buffer
+  liquidationCloseSize: bigint; // Position a liquidation at priceE6 closes to reach the target (0 when safe)
+}
+
+/**
+ * Unrealized PnL of a position at a price, truncated toward zero like the engine.
+ */
+export function markPnl(positionSize: bigint, entryPrice: bigint, priceE6: bigint): bigint {
+  if (positionSize === 0n) return 0n;
+  const abs = positionSize < 0n ? -positionSize : positionSize;
+  const diff = positionSize > 0n ? priceE6 - entryPrice : entryPrice - priceE6;
+  return (diff * abs) / PRICE_SCALE;
+}
+
+/**
+ * Margin state of an account at an engine price.
+ */
+export function accountHealth(account: PositionFields, params: MarginParams, priceE6: bigint): AccountHealth {
+  const mark = markPnl(account.positionSize, account.entryPrice, priceE6);
+  const total = account.capital + account.pnl + mark;
+  const equity = total > 0n ? total : 0n;
+
+  const abs = account.positionSize < 0n ? -account.positionSize : account.positionSize;
+  const notional = (abs * priceE6) / PRICE_SCALE;
+  const initialMargin = (notional * params.initialMarginBps) / BPS;
+  const maintenanceMargin = (notional * params.maintenanceMarginBps) / BPS;
+
+  // Closing at the mark leaves equity unchanged (liquidation fees aside), so keep
+  // the largest remaining position whose buffered requirement equity still covers
+  let liquidationCloseSize = 0n;
+  const targetBps = params.maintenanceMarginBps + params.liquidationBufferBps;
+  if (account.positionSize !== 0n && equity <= maintenanceMargin) {
+    const keep = priceE6 > 0n && targetBps > 0n ? (equity * PRICE_SCALE * BPS) / (priceE6 * targetBps) : abs;
+    liquidationCloseSize = keep < abs ? abs - keep : 0n;
+  }
+
+  return {
+    priceE6,
+    markPnl: mark,
+    equity,
+    notional,
+    marginRatioBps: notional > 0n ? (equity * BPS) / notional : null,
+    initialMargin,
+    maintenanceMargin,
+    marginBuffer: equity - maintenanceMargin,
+    freeCollateral: equity > initialMargin ? equity - initialMargin : 0n,
+    liquidatable: account.positionSize !== 0n && equity <= maintenanceMargin,
+    liquidationTarget: (notional * targetBps) / BPS,
+    liquidationCloseSize,
+  };
+}
+
+/**
+ * The price at which the account turns liquidatable: the last liquidatable
+ * price before the position is safe again. `toEngine` maps the price being
+ * searched to the engine price, so passing a feed-to-engine conversion gives
+ * the answer as a feed price. Null when flat, or when no price liquidates it.
+ */
+export function liquidationPrice(
+  account: PositionFields,
+  params: MarginParams,
+  toEngine: (price: bigint) => bigint = (price) => price
+): bigint | null {
+  if (account.positionSize === 0n) return null;
+  const liquidatable = (price: bigint) => accountHealth(account, params, toEngine(price)).liquidatable;
+
+  // Liquidatable at one end of the range only; bisect for the crossing
+  let lo = 1n;
+  let hi = MAX_PRICE;
+  const atLow = liquidatable(lo);
+  if (atLow === liquidatable(hi)) return null;
+  while (hi - lo > 1n) {
+    const mid = (lo + hi) / 2n;
+    if (liquidatable(mid) === atLow) {
+      lo = mid;
+    } else {
+      hi = mid;
+    }
+  }
+  return atLow ? lo : hi;
+}
+
+export interface ExposureAtRisk {
+  priceE6: bigint;
+  liquidatable: number;      // Accounts at or below maintenance at this price
+  longNotional: bigint;      // Notional of liquidatable longs
+  shortNotional: bigint;     // Notional of liquidatable shorts
+  shortfall: bigint;         // Losses beyond those accounts' capital (bad debt)
+}
+
+/**
+ * Positions that would be liquidatable at a price, summed by side.
+ */
+export function exposureAtRisk(accounts: PositionFields[], params: MarginParams, priceE6: bigint): ExposureAtRisk {
+  const out: ExposureAtRisk = { priceE6, liquidatable: 0, longNotional: 0n, shortNotional: 0n, shortfall: 0n };
+  for (const account of accounts) {
+    const health = accountHealth(account, params, priceE6);
+    if (!health.liquidatable) continue;
+    out.liquidatable++;
+    if (account.positionSize > 0n) {
+      out.longNotional += health.notional;
+    } else {
+      out.shortNotional += health.notional;
+    }
+    const total = account.capital + account.pnl + health.markPnl;
+    if (total < 0n) {
+      out.shortfall -= total;
+    }
+  }
+  return out;
+}
+
+export interface HaircutRatio {
+  residual: bigint;          // Vault left after capital and insurance, floored at zero
+  num: bigint;
+  den: bigint;               // 1/1 when no account has positive PnL
+}
+
+/**
+ * Share of positive PnL the vault can pay out: h = min(residual, pnlPosTot) / pnlPosTot,
+ * where residual = vault - cTot - insurance. The engine applies it to positive
+ * PnL when it converts to capital, in place of auto-deleveraging.
+ */
+export function haircutRatio(engine: Pick<EngineState, "vault" | "cTot" | "pnlPosTot" | "insuranceFund">): HaircutRatio {
+  const left = engine.vault - engine.cTot - engine.insuranceFund.balance;
+  const residual = left > 0n ? left : 0n;
+  if (engine.pnlPosTot <= 0n) {
+    return { residual, num: 1n, den: 1n };
+  }
+  return {
+    residual,
+    num: residual < engine.pnlPosTot ? residual : engine.pnlPosTot,
+    den: engine.pnlPosTot,
+  };
+}
+
+/**
+ * The haircut ratio in bps (10_000 = fully backed).
+ */
+export function haircutBps(haircut: HaircutRatio): bigint {
+  return (haircut.num * BPS) / haircut.den;
+}
+
+/**
+ * PnL after the haircut: positive PnL is scaled down (rounding down), losses are not.
+ */
+export function realizablePnl(pnl: bigint, haircut: HaircutRatio): bigint {
+  return pnl > 0n ? (pnl * haircut.num) / haircut.den : pnl;
+}
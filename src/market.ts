@@ -0,0 +1,112 @@
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+import { z } from "zod";
+import { Config, MarketManifest, MarketManifestSchema, expandPath } from "./config.js";
+
+const RegistrySchema = z.object({
+  markets: z.record(MarketManifestSchema),
+});
+
+/**
+ * Command options a market manifest can fill in.
+ */
+export type MarketOption = "slab" | "oracle" | "matcherProgram" | "matcherContext" | "lpIdx";
+
+const OPTION_FLAGS: Record<MarketOption, string> = {
+  slab: "--slab",
+  oracle: "--oracle",
+  matcherProgram: "--matcher-program",
+  matcherContext: "--matcher-context",
+  lpIdx: "--lp-idx",
+};
+
+/**
+ * Load the market registry file. A missing file is an empty registry.
+ */
+export function loadRegistry(path: string): Record<string, MarketManifest> {
+  const fullPath = expandPath(path);
+  if (!existsSync(fullPath)) return {};
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(fullPath, "utf-8"));
+  } catch (e) {
+    throw new Error(`Failed to parse market registry ${fullPath}: ${e}`);
+  }
+  const result = RegistrySchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues.map((i) => `${i.path.join(".")}: ${i.message}`);
+    throw new Error(`Invalid market registry ${fullPath}:\n${issues.join("\n")}`);
+  }
+  return result.data.markets;
+}
+
+/**
+ * Write the market registry file, creating its directory if needed.
+ */
+export function saveRegistry(path: string, markets: Record<string, MarketManifest>): void {
+  const fullPath = expandPath(path);
+  mkdirSync(dirname(fullPath), { recursive: true });
+  writeFileSync(fullPath, JSON.stringify({ markets }, null, 2) + "\n");
+}
+
+/**
+ * All known markets: the registry file, overridden by markets in the config file.
+ */
+export function listMarkets(config: Config): Record<string, MarketManifest> {
+  return { ...loadRegistry(config.marketRegistry), ...config.markets };
+}
+
+/**
+ * Look up a market by name.
+ */
+export function findMarket(config: Config, name: string): MarketManifest {
+  const markets = listMarkets(config);
+  const market = markets[name];
+  if (!market) {
+    const available = Object.keys(markets);
+    throw new Error(
+      `Unknown market "${name}"` +
+        (available.length > 0 ? ` (available: ${available.join(", ")})` : " (no markets configured; see market:import)")
+    );
+  }
+  return market;
+}
+
+/**
+ * Fill command options from opts.market, then check the required ones are set.
+ * Options given explicitly on the command line take precedence over the manifest.
+ * `optional` options are filled when the manifest defines them but may stay unset.
+ */
+export function applyMarket(
+  opts: Record<string, unknown>,
+  config: Config,
+  required: MarketOption[],
+  optional: MarketOption[] = []
+): void {
+  if (typeof opts.market === "string") {
+    const market = findMarket(config, opts.market);
+    const values: Partial<Record<MarketOption, string>> = {
+      slab: market.slab,
+      oracle: market.oracle,
+      matcherProgram: market.matcher?.program,
+      matcherContext: market.matcher?.context,
+      lpIdx: market.lp?.index.toString(),
+    };
+    for (const key of [...required, ...optional]) {
+      if (opts[key] === undefined && values[key] !== undefined) {
+        opts[key] = values[key];
+      }
+    }
+  }
+
+  const missing = required.filter((key) => opts[key] === undefined);
+  if (missing.length > 0) {
+    const names = missing.map((key) => OPTION_FLAGS[key]).join(", ");
+    throw new Error(
+      typeof opts.market === "string"
+        ? `Market "${opts.market}" does not define ${names}; pass ${missing.length > 1 ? "them" : "it"} explicitly`
+        : `Missing required option ${names} (or use --market <name>)`
+    );
+  }
+}
@@ -0,0 +1,22 @@
+import { createInterface } from "node:readline/promises";
+
+/**
+ * Ask the user to confirm an action on the terminal.
+ * Returns true straight away when `yes` is set (--yes). Without a terminal
+ * to prompt on, refuses rather than proceeding silently.
+ */
+export async function confirmAction(question: string, yes: boolean): Promise<boolean> {
+  if (yes) return true;
+  if (!process.stdin.isTTY) {
+    throw new Error("Confirmation required: pass --yes to proceed without a terminal");
+  }
+
+  // Prompt on stderr so stdout stays clean for --json
+  const rl = createInterface({ input: process.stdin, output: process.stderr });
+  try {
+    const answer = await rl.question(`${question} [y/N] `);
+    return /^y(es)?$/i.test(answer.trim());
+  } finally {
+    rl.close();
+  }
+}
@@ -1,6 +1,7 @@
 import { Connection, PublicKey, Commitment, Keypair } from "@solana/web3.js";
-import { Config } from "../config.js";
+import { Config, Cluster } from "../config.js";
 import { loadKeypair } from "../solana/wallet.js";
+import { TxOptions, PriorityFee } from "./tx.js";
 
 /**
  * Runtime context for all commands.
@@ -10,6 +11,10 @@ export interface Context {
   payer: Keypair;
   programId: PublicKey;
   commitment: Commitment;
+  cluster: Cluster;          // Explorer cluster for transaction links
+  rpcUrl: string;            // Endpoint localnet explorer links point at
+  txOptions: TxOptions;      // Spread into every simulateOrSend call
+  preflight: boolean;        // Check accounts on chain before sending (buildCheckedAccountMetas)
 }
 
 /**
@@ -25,5 +30,41 @@ export function createContext(config: Config): Context {
     payer,
     programId,
     commitment: config.commitment,
+    cluster: config.cluster,
+    rpcUrl: config.rpcUrl,
+    // Offline signing (--blockhash) must not touch the cluster
+    preflight: !config.skipPreflight && config.blockhash === undefined,
+    txOptions: {
+      priorityFee: resolvePriorityFeeConfig(config),
+      autoComputeUnits: config.autoComputeUnits
+        ? { marginPct: config.computeUnitMargin }
+        : undefined,
+      lookupTable: config.lookupTable ? new PublicKey(config.lookupTable) : undefined,
+      signOnly: config.signOnly,
+      nonce: config.nonceAccount
+        ? {
+            account: new PublicKey(config.nonceAccount),
+            authority: new PublicKey(config.nonceAuthority ?? payer.publicKey),
+          }
+        : undefined,
+      blockhash: config.blockhash,
+      feePayer: config.feePayer ? new PublicKey(config.feePayer) : undefined,
+      programId,
+    },
   };
 }
+
+/**
+ * Translate the priorityFee config value into a PriorityFee setting.
+ */
+function resolvePriorityFeeConfig(config: Config): PriorityFee | undefined {
+  if (config.priorityFee === undefined) return undefined;
+  if (config.priorityFee === "auto") {
+    return {
+      mode: "auto",
+      percentile: config.priorityFeePercentile,
+      capMicroLamports: config.priorityFeeCap,
+    };
+  }
+  return { mode: "fixed", microLamports: Number(config.priorityFee) };
+}
@@ -0,0 +1,203 @@
+import { AccountInfo, AccountMeta, PublicKey } from "@solana/web3.js";
+import { AccountLayout, TOKEN_PROGRAM_ID } from "@solana/spl-token";
+import { AccountSpec, buildAccountMetas } from "../abi/accounts.js";
+import { deriveVaultAuthority } from "../solana/pda.js";
+import {
+  parseHeader,
+  parseConfig,
+  parseAccount,
+  isAccountUsed,
+  maxAccountIndex,
+  slabLayout,
+  AccountKind,
+  MarketConfig,
+} from "../solana/slab.js";
+import { Context } from "./context.js";
+
+/**
+ * An account index argument and what the account there must be.
+ * Slots are reused once an account is closed, so `owner` and `accountId`
+ * guard against a stale index pointing at someone else's account.
+ */
+export interface IndexCheck {
+  idx: number;
+  flag: string;          // CLI option it came from, for messages (e.g. "--lp-idx")
+  kind?: AccountKind;    // Omit when either kind is accepted
+  owner?: PublicKey;     // Signer that must own the account
+  accountId?: bigint;    // Exact account generation (--account-id)
+}
+
+/**
+ * Preflight checks failed; `problems` lists each one with what to do about it.
+ */
+export class PreflightError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(
+      `Preflight checks failed (nothing was sent):\n${problems.map((p) => `  - ${p}`).join("\n")}\n` +
+        "Pass --skip-preflight to send anyway."
+    );
+    this.name = "PreflightError";
+  }
+}
+
+const kindName = (kind: AccountKind) => (kind === AccountKind.LP ? "an LP" : "a User");
+
+/**
+ * Check the instruction's token accounts against the market config: the vault
+ * is the market's and belongs to the vault PDA, and user token accounts exist
+ * and hold the collateral mint.
+ */
+function checkTokenAccounts(
+  spec: readonly AccountSpec[],
+  keys: PublicKey[],
+  infos: (AccountInfo<Buffer> | null)[],
+  slab: PublicKey,
+  config: MarketConfig,
+  programId: PublicKey
+): string[] {
+  const problems: string[] = [];
+  const [vaultAuthority] = deriveVaultAuthority(programId, slab);
+
+  spec.forEach((s, i) => {
+    const key = keys[i];
+    const info = infos[i];
+    const token = info && info.owner.equals(TOKEN_PROGRAM_ID) && info.data.length >= AccountLayout.span
+      ? AccountLayout.decode(info.data)
+      : null;
+
+    switch (s.name) {
+      case "vault":
+        if (!key.equals(config.vaultPubkey)) {
+          problems.push(`Vault ${key.toBase58()} is not this market's vault (${config.vaultPubkey.toBase58()}).`);
+        } else if (!token) {
+          problems.push(`Vault ${key.toBase58()} is not a token account.`);
+        } else if (!token.owner.equals(vaultAuthority)) {
+          problems.push(
+            `Vault ${key.toBase58()} is owned by ${token.owner.toBase58()}, not the market's vault PDA (${vaultAuthority.toBase58()}).`
+          );
+        }
+        break;
+      case "vaultPda":
+        if (!key.equals(vaultAuthority)) {
+          problems.push(`Vault PDA ${key.toBase58()} does not match the derived one (${vaultAuthority.toBase58()}).`);
+        }
+        break;
+      case "userAta":
+      case "adminAta":
+        if (!info) {
+          problems.push(
+            `Token account ${key.toBase58()} does not exist. Create it first (e.g. 'spl-token create-account ${config.collateralMint.toBase58()}').`
+          );
+        } else if (!token) {
+          problems.push(`Account ${key.toBase58()} is not an SPL token account.`);
+        } else if (!token.mint.equals(config.collateralMint)) {
+          problems.push(
+            `Token account ${key.toBase58()} holds mint ${token.mint.toBase58()}, but the market's collateral mint is ${config.collateralMint.toBase58()}.`
+          );
+        }
+        break;
+    }
+  });
+  return problems;
+}
+
+/**
+ * Check each index argument refers to an account in use, of the expected kind,
+ * owner and generation.
+ */
+function checkIndices(data: Buffer, indices: IndexCheck[]): string[] {
+  const problems: string[] = [];
+  const maxIdx = maxAccountIndex(data.length, slabLayout(data));
+  for (const { idx, flag, kind, owner, accountId } of indices) {
+    // maxAccountIndex is the account count; the last valid index is one less
+    if (idx >= maxIdx) {
+      problems.push(`${flag} ${idx} is out of range for this slab (max ${maxIdx - 1}).`);
+      continue;
+    }
+    if (!isAccountUsed(data, idx)) {
+      problems.push(`${flag} ${idx} is not an open account. Check the index with 'slab:accounts', or create one with 'init-user'/'init-lp'.`);
+      continue;
+    }
+
+    const account = parseAccount(data, idx);
+    if (kind !== undefined && account.kind !== kind) {
+      problems.push(`${flag} ${idx} is ${kindName(account.kind)} account, not ${kindName(kind)} account.`);
+    }
+    if (accountId !== undefined && account.accountId !== accountId) {
+      problems.push(
+        `${flag} ${idx} now holds account ID ${account.accountId}, not ${accountId}. The account was closed and its slot reused.`
+      );
+    } else if (owner !== undefined && !account.owner.equals(owner)) {
+      problems.push(
+        `${flag} ${idx} belongs to ${account.owner.toBase58()}, not ${owner.toBase58()}. The slot may have been reused; find your accounts with 'my-accounts'.`
+      );
+    }
+  }
+  return problems;
+}
+
+/**
+ * checkIndices against slab data the command already fetched, throwing if any
+ * fail. Unlike the preflight this always runs, so --skip-preflight and offline
+ * signing can't send to a reused slot.
+ */
+export function assertAccountIndices(data: Buffer, indices: IndexCheck[]): void {
+  const problems = checkIndices(data, indices);
+  if (problems.length > 0) {
+    throw new Error(`Account checks failed (nothing was sent):\n${problems.map((p) => `  - ${p}`).join("\n")}`);
+  }
+}
+
+/**
+ * buildAccountMetas, after checking the accounts on chain first so the common
+ * InvalidVaultAta / InvalidMint / EngineAccountNotFound failures are caught
+ * without paying for a transaction. The slab must be owned by the program with
+ * valid magic, token accounts must match the market, and `indices` must be
+ * open accounts of the right kind, owner and generation. Throws PreflightError
+ * listing every problem.
+ *
+ * Skipped (plain buildAccountMetas) with --skip-preflight or when signing offline.
+ */
+export async function buildCheckedAccountMetas(
+  ctx: Context,
+  spec: readonly AccountSpec[],
+  keys: PublicKey[],
+  indices: IndexCheck[] = []
+): Promise<AccountMeta[]> {
+  const metas = buildAccountMetas(spec, keys);
+  if (!ctx.preflight) return metas;
+
+  const slabPos = spec.findIndex((s) => s.name === "slab");
+  if (slabPos === -1) return metas;
+  const slab = keys[slabPos];
+
+  // One round trip for every account the instruction touches
+  const infos = await ctx.connection.getMultipleAccountsInfo(keys);
+  const slabInfo = infos[slabPos];
+
+  if (!slabInfo) {
+    throw new PreflightError([`Slab ${slab.toBase58()} does not exist. Check --slab (or --market) and the cluster.`]);
+  }
+  if (!slabInfo.owner.equals(ctx.programId)) {
+    throw new PreflightError([
+      `Slab ${slab.toBase58()} is owned by ${slabInfo.owner.toBase58()}, not the Percolator program ${ctx.programId.toBase58()}. Check --slab and --program.`,
+    ]);
+  }
+
+  let config: MarketConfig;
+  try {
+    parseHeader(slabInfo.data);
+    config = parseConfig(slabInfo.data);
+  } catch (e) {
+    throw new PreflightError([`Slab ${slab.toBase58()} is not a valid market: ${e instanceof Error ? e.message : e}`]);
+  }
+
+  const problems = [
+    ...checkTokenAccounts(spec, keys, infos, slab, config, ctx.programId),
+    ...checkIndices(slabInfo.data, indices),
+  ];
+  if (problems.length > 0) {
+    throw new PreflightError(problems);
+  }
+  return metas;
+}
@@ -8,8 +8,17 @@ import {
   Commitment,
   AccountMeta,
   ComputeBudgetProgram,
+  PACKET_DATA_SIZE,
+  VersionedTransaction,
+  TransactionMessage,
+  AddressLookupTableAccount,
+  SystemProgram,
+  BlockheightBasedTransactionConfirmationStrategy,
+  DurableNonceTransactionConfirmationStrategy,
+  SendTransactionError,
 } from "@solana/web3.js";
-import { parseErrorFromLogs } from "../abi/errors.js";
+import { decodeTxError, formatTxError, TxError } from "../abi/errors.js";
+import { Cluster } from "../config.js";
 
 export interface BuildIxParams {
   programId: PublicKey;
@@ -33,116 +42,383 @@ export interface TxResult {
   slot: number;
   err: string | null;
   hint?: string;
+  error?: TxError;                   // Structured error: failing program, instruction index, code
   logs: string[];
   unitsConsumed?: number;
+  computeUnitLimit?: number;         // Compute unit limit requested, if any
+  priorityFeeMicroLamports?: number; // Compute unit price applied, if any
+  serializedTx?: string;             // Base64 transaction (sign-only mode)
+  missingSigners?: string[];         // Signatures still required before broadcast
 }
 
-export interface SimulateOrSendParams {
-  connection: Connection;
+// Solana limits
+export const MAX_TX_SIZE = PACKET_DATA_SIZE; // 1232 bytes
+export const MAX_COMPUTE_UNITS = 1_400_000;
+
+/**
+ * An instruction plus any extra keypairs that must sign for it.
+ * The fee payer (signers[0] of the transaction) never needs to be repeated here.
+ */
+export interface TxInstruction {
   ix: TransactionInstruction;
-  signers: Keypair[];
+  signers?: Keypair[];
+}
+
+/**
+ * Compute unit price setting.
+ * - fixed: always use the given price
+ * - auto: percentile of recent prioritization fees on the writable accounts, capped
+ */
+export type PriorityFee =
+  | { mode: "fixed"; microLamports: number }
+  | { mode: "auto"; percentile: number; capMicroLamports: number };
+
+/**
+ * Transaction settings that come from global flags/config rather than the command.
+ */
+export interface TxOptions {
+  priorityFee?: PriorityFee;
+  // Simulate first and set the compute unit limit to unitsConsumed plus marginPct percent
+  autoComputeUnits?: { marginPct: number };
+  // Compile a v0 transaction against this address lookup table
+  lookupTable?: PublicKey;
+  // Sign with the available signers and return the serialized transaction instead of sending
+  signOnly?: boolean;
+  // Durable nonce: advance this account (first instruction) and use its nonce as the blockhash
+  nonce?: { account: PublicKey; authority: PublicKey };
+  // Use this blockhash / nonce value without querying the cluster
+  blockhash?: string;
+  // Fee payer when it is not signers[0] (sign-only mode)
+  feePayer?: PublicKey;
+  // Percolator program, to attribute errors from the invoke stack
+  programId?: PublicKey;
+}
+
+/**
+ * Legacy transactions are used unless a lookup table is configured.
+ */
+export type AnyTransaction = Transaction | VersionedTransaction;
+
+export interface SimulateOrSendParams extends TxOptions {
+  connection: Connection;
+  ix?: TransactionInstruction;       // Single instruction (shorthand for instructions: [{ ix }])
+  instructions?: TxInstruction[];    // Ordered instructions, executed atomically in one transaction
+  signers: Keypair[];                // signers[0] is the fee payer
   simulate: boolean;
   commitment?: Commitment;
   computeUnitLimit?: number; // Custom compute unit limit (default: 200,000, max: 1,400,000)
 }
 
 /**
- * Simulate or send a transaction.
- * Returns consistent output for both modes.
+ * Merge the instruction list and all required signers, fee payer first.
+ * Signers are de-duplicated by public key.
  */
-export async function simulateOrSend(
+function collectInstructions(
   params: SimulateOrSendParams
-): Promise<TxResult> {
-  const { connection, ix, signers, simulate, commitment = "confirmed", computeUnitLimit } = params;
+): { ixs: TransactionInstruction[]; signers: Keypair[] } {
+  const entries: TxInstruction[] = [
+    ...(params.ix ? [{ ix: params.ix }] : []),
+    ...(params.instructions ?? []),
+  ];
+  if (entries.length === 0) {
+    throw new Error("simulateOrSend: no instructions provided");
+  }
+  if (params.signers.length === 0) {
+    throw new Error("simulateOrSend: at least one signer (the fee payer) is required");
+  }
+
+  const signers: Keypair[] = [];
+  const seen = new Set<string>();
+  for (const kp of [...params.signers, ...entries.flatMap((e) => e.signers ?? [])]) {
+    const key = kp.publicKey.toBase58();
+    if (!seen.has(key)) {
+      seen.add(key);
+      signers.push(kp);
+    }
+  }
+
+  return { ixs: entries.map((e) => e.ix), signers };
+}
+
+/**
+ * Estimate a compute unit price from recent prioritization fees.
+ * Only slots where the given writable accounts were locked are considered,
+ * so the estimate tracks contention on this market (slab, vault) rather than the whole cluster.
+ */
+export async function estimatePriorityFee(
+  connection: Connection,
+  writableAccounts: PublicKey[],
+  percentile: number,
+  capMicroLamports: number
+): Promise<number> {
+  const recent = await connection.getRecentPrioritizationFees({
+    lockedWritableAccounts: writableAccounts,
+  });
+  if (recent.length === 0) return 0;
+
+  const fees = recent.map((f) => f.prioritizationFee).sort((a, b) => a - b);
+  const rank = Math.ceil((percentile / 100) * fees.length) - 1;
+  const fee = fees[Math.min(Math.max(rank, 0), fees.length - 1)];
+  return Math.min(fee, capMicroLamports);
+}
+
+/**
+ * Resolve the compute unit price for a set of instructions.
+ * Returns undefined when no priority fee is configured.
+ */
+async function resolvePriorityFee(
+  connection: Connection,
+  priorityFee: PriorityFee | undefined,
+  ixs: TransactionInstruction[]
+): Promise<number | undefined> {
+  if (!priorityFee) return undefined;
+  if (priorityFee.mode === "fixed") return priorityFee.microLamports;
+
+  const writable = new Map<string, PublicKey>();
+  for (const ix of ixs) {
+    for (const meta of ix.keys) {
+      if (meta.isWritable && !meta.isSigner) {
+        writable.set(meta.pubkey.toBase58(), meta.pubkey);
+      }
+    }
+  }
+  return estimatePriorityFee(
+    connection,
+    [...writable.values()],
+    priorityFee.percentile,
+    priorityFee.capMicroLamports
+  );
+}
+
+/**
+ * Serialized size in bytes of a transaction once fully signed.
+ */
+export function transactionSize(tx: AnyTransaction): number {
+  const message = tx instanceof VersionedTransaction ? tx.message : tx.compileMessage();
+  const numSignatures = message.header.numRequiredSignatures;
+  // shortvec signature count (1 byte below 128) + 64 bytes per signature + message
+  return 1 + numSignatures * 64 + message.serialize().length;
+}
 
-  const tx = new Transaction();
+/**
+ * Fetch a lookup table account, failing clearly if it does not exist.
+ */
+export async function fetchLookupTable(
+  connection: Connection,
+  address: PublicKey
+): Promise<AddressLookupTableAccount> {
+  const result = await connection.getAddressLookupTable(address);
+  if (!result.value) {
+    throw new Error(`Address lookup table not found: ${address.toBase58()}`);
+  }
+  return result.value;
+}
+
+/**
+ * Throw if a transaction would exceed the packet size limit.
+ */
+function checkTransactionSize(tx: AnyTransaction, numInstructions: number): void {
+  const size = transactionSize(tx);
+  if (size > MAX_TX_SIZE) {
+    throw new Error(
+      `Transaction too large: ${size} bytes (max ${MAX_TX_SIZE}) with ${numInstructions} instruction(s). ` +
+        `Split it into smaller transactions.`
+    );
+  }
+}
+
+/**
+ * Assemble a transaction with optional nonce advance and compute budget instructions in front.
+ * Compiles a v0 message when a lookup table is given, otherwise a legacy transaction.
+ */
+function buildTransaction(
+  ixs: TransactionInstruction[],
+  feePayer: PublicKey,
+  recentBlockhash: string,
+  budget: {
+    computeUnitLimit?: number;
+    priorityFeeMicroLamports?: number;
+    nonceAdvance?: TransactionInstruction;
+  },
+  lookupTable?: AddressLookupTableAccount
+): AnyTransaction {
+  const instructions: TransactionInstruction[] = [];
+
+  // A durable nonce transaction must advance the nonce in its first instruction
+  if (budget.nonceAdvance) {
+    instructions.push(budget.nonceAdvance);
+  }
 
   // Add compute budget instruction if custom limit is specified
-  if (computeUnitLimit !== undefined) {
-    tx.add(
+  if (budget.computeUnitLimit !== undefined) {
+    instructions.push(
       ComputeBudgetProgram.setComputeUnitLimit({
-        units: computeUnitLimit,
+        units: budget.computeUnitLimit,
       })
     );
   }
 
-  tx.add(ix);
-  const latestBlockhash = await connection.getLatestBlockhash(commitment);
-  tx.recentBlockhash = latestBlockhash.blockhash;
-  tx.feePayer = signers[0].publicKey;
+  if (budget.priorityFeeMicroLamports !== undefined && budget.priorityFeeMicroLamports > 0) {
+    instructions.push(
+      ComputeBudgetProgram.setComputeUnitPrice({
+        microLamports: budget.priorityFeeMicroLamports,
+      })
+    );
+  }
 
-  if (simulate) {
-    tx.sign(...signers);
-    const result = await connection.simulateTransaction(tx, signers);
-    const logs = result.value.logs ?? [];
-    let err: string | null = null;
-    let hint: string | undefined;
-
-    if (result.value.err) {
-      const parsed = parseErrorFromLogs(logs);
-      if (parsed) {
-        err = `${parsed.name} (0x${parsed.code.toString(16)})`;
-        hint = parsed.hint;
-      } else {
-        err = JSON.stringify(result.value.err);
-      }
-    }
+  instructions.push(...ixs);
 
-    return {
-      signature: "(simulated)",
-      slot: result.context.slot,
-      err,
-      hint,
-      logs,
-      unitsConsumed: result.value.unitsConsumed ?? undefined,
-    };
+  if (lookupTable) {
+    const message = new TransactionMessage({
+      payerKey: feePayer,
+      recentBlockhash,
+      instructions,
+    }).compileToV0Message([lookupTable]);
+    return new VersionedTransaction(message);
   }
 
-  // Send
-  const options: SendOptions = {
-    skipPreflight: false,
-    preflightCommitment: commitment,
+  const tx = new Transaction().add(...instructions);
+  tx.feePayer = feePayer;
+  tx.recentBlockhash = recentBlockhash;
+  return tx;
+}
+
+/**
+ * Sign and simulate a transaction, decoding any program error from the logs.
+ */
+async function simulateTx(
+  connection: Connection,
+  tx: AnyTransaction,
+  signers: Keypair[],
+  programId?: PublicKey
+): Promise<TxResult> {
+  partialSign(tx, signers);
+  // An offline fee payer has not signed yet, so skip signature verification
+  const complete = missingSigners(tx).length === 0;
+  let result;
+  if (tx instanceof VersionedTransaction) {
+    result = await connection.simulateTransaction(tx, { sigVerify: complete });
+  } else {
+    result = await connection.simulateTransaction(tx, complete ? signers : undefined);
+  }
+  const logs = result.value.logs ?? [];
+  const error = result.value.err ? decodeTxError(result.value.err, logs, programId?.toBase58()) : undefined;
+
+  return {
+    signature: "(simulated)",
+    slot: result.context.slot,
+    err: error ? formatTxError(error) : null,
+    hint: error?.hint,
+    error,
+    logs,
+    unitsConsumed: result.value.unitsConsumed ?? undefined,
   };
+}
 
-  try {
-    const signature = await connection.sendTransaction(tx, signers, options);
+/**
+ * Simulate or send a transaction.
+ * Returns consistent output for both modes.
+ * Throws before touching the network if the transaction exceeds size or compute limits.
+ */
+export async function simulateOrSend(
+  params: SimulateOrSendParams
+): Promise<TxResult> {
+  const {
+    connection,
+    simulate,
+    commitment = "confirmed",
+    computeUnitLimit,
+    priorityFee,
+    autoComputeUnits,
+    lookupTable,
+    signOnly,
+    nonce,
+    programId,
+  } = params;
+  const { ixs, signers } = collectInstructions(params);
 
-    const confirmation = await connection.confirmTransaction(
-      {
-        signature,
-        blockhash: latestBlockhash.blockhash,
-        lastValidBlockHeight: latestBlockhash.lastValidBlockHeight,
-      },
-      commitment
+  if (computeUnitLimit !== undefined && computeUnitLimit > MAX_COMPUTE_UNITS) {
+    throw new Error(
+      `Compute unit limit ${computeUnitLimit.toLocaleString()} exceeds the maximum of ${MAX_COMPUTE_UNITS.toLocaleString()}`
     );
+  }
 
-    // Fetch logs
-    const txInfo = await connection.getTransaction(signature, {
-      commitment: "confirmed",
-      maxSupportedTransactionVersion: 0,
-    });
-
-    const logs = txInfo?.meta?.logMessages ?? [];
-    let err: string | null = null;
-    let hint: string | undefined;
-
-    if (confirmation.value.err) {
-      const parsed = parseErrorFromLogs(logs);
-      if (parsed) {
-        err = `${parsed.name} (0x${parsed.code.toString(16)})`;
-        hint = parsed.hint;
-      } else {
-        err = JSON.stringify(confirmation.value.err);
-      }
+  const priorityFeeMicroLamports = await resolvePriorityFee(connection, priorityFee, ixs);
+  const feePayer = params.feePayer ?? signers[0].publicKey;
+  if (!signOnly && !signers.some((kp) => kp.publicKey.equals(feePayer))) {
+    throw new Error("A fee payer other than the wallet requires --sign-only");
+  }
+  const table = lookupTable ? await fetchLookupTable(connection, lookupTable) : undefined;
+  const nonceAdvance = nonce
+    ? SystemProgram.nonceAdvance({
+        noncePubkey: nonce.account,
+        authorizedPubkey: nonce.authority,
+      })
+    : undefined;
+
+  // Auto-sizing only applies when the command did not pin a limit itself
+  const autoSize = autoComputeUnits !== undefined && computeUnitLimit === undefined;
+
+  // Size check only needs the message, so use a placeholder blockhash before fetching one.
+  // The compute budget instructions are the same size whatever their values.
+  checkTransactionSize(
+    buildTransaction(ixs, feePayer, PublicKey.default.toBase58(), {
+      computeUnitLimit: autoSize ? MAX_COMPUTE_UNITS : computeUnitLimit,
+      priorityFeeMicroLamports,
+      nonceAdvance,
+    }, table),
+    ixs.length
+  );
+
+  const lifetime = await resolveLifetime(connection, commitment, nonce?.account, params.blockhash);
+  let unitLimit = computeUnitLimit;
+
+  if (autoSize) {
+    // Simulate at the maximum budget, then size the real limit from what was used
+    const probe = buildTransaction(ixs, feePayer, lifetime.blockhash, {
+      computeUnitLimit: MAX_COMPUTE_UNITS,
+      priorityFeeMicroLamports,
+      nonceAdvance,
+    }, table);
+    const probeResult = await simulateTx(connection, probe, signers, programId);
+    if (probeResult.err || probeResult.unitsConsumed === undefined) {
+      return { ...probeResult, computeUnitLimit: MAX_COMPUTE_UNITS, priorityFeeMicroLamports };
     }
+    unitLimit = Math.min(
+      Math.ceil(probeResult.unitsConsumed * (1 + autoComputeUnits.marginPct / 100)),
+      MAX_COMPUTE_UNITS
+    );
+  }
+
+  const tx = buildTransaction(ixs, feePayer, lifetime.blockhash, {
+    computeUnitLimit: unitLimit,
+    priorityFeeMicroLamports,
+    nonceAdvance,
+  }, table);
 
+  if (signOnly) {
+    partialSign(tx, signers);
     return {
-      signature,
-      slot: txInfo?.slot ?? 0,
-      err,
-      hint,
-      logs,
+      signature: "(sign-only)",
+      slot: 0,
+      err: null,
+      logs: [],
+      computeUnitLimit: unitLimit,
+      priorityFeeMicroLamports,
+      serializedTx: serializeTransaction(tx),
+      missingSigners: missingSigners(tx).map((pk) => pk.toBase58()),
     };
+  }
+
+  if (simulate) {
+    const result = await simulateTx(connection, tx, signers, programId);
+    return { ...result, computeUnitLimit: unitLimit, priorityFeeMicroLamports };
+  }
+
+  try {
+    partialSign(tx, signers);
+    const result = await sendRaw(connection, tx.serialize(), commitment, lifetime.confirmation, programId);
+    return { ...result, computeUnitLimit: unitLimit, priorityFeeMicroLamports };
   } catch (e: unknown) {
     const message = e instanceof Error ? e.message : String(e);
     return {
@@ -154,10 +430,214 @@ export async function simulateOrSend(
   }
 }
 
+/**
+ * Blockhash for a new transaction and how to confirm it once sent.
+ * With a nonce account the blockhash is the stored nonce value; an explicit
+ * blockhash (offline signing) skips the cluster entirely.
+ */
+async function resolveLifetime(
+  connection: Connection,
+  commitment: Commitment,
+  nonceAccount: PublicKey | undefined,
+  blockhash: string | undefined
+): Promise<{ blockhash: string; confirmation?: ConfirmationStrategy }> {
+  if (blockhash) {
+    return { blockhash };
+  }
+
+  if (nonceAccount) {
+    const { context, value } = await connection.getNonceAndContext(nonceAccount, commitment);
+    if (!value) {
+      throw new Error(`Nonce account not found or not initialized: ${nonceAccount.toBase58()}`);
+    }
+    return {
+      blockhash: value.nonce,
+      confirmation: {
+        nonceAccountPubkey: nonceAccount,
+        nonceValue: value.nonce,
+        minContextSlot: context.slot,
+      },
+    };
+  }
+
+  const latest = await connection.getLatestBlockhash(commitment);
+  return { blockhash: latest.blockhash, confirmation: latest };
+}
+
+/**
+ * How to confirm a sent transaction: by block height or by durable nonce.
+ */
+export type ConfirmationStrategy =
+  | Omit<BlockheightBasedTransactionConfirmationStrategy, "signature">
+  | Omit<DurableNonceTransactionConfirmationStrategy, "signature">;
+
+/**
+ * Add signatures from whichever of the given keypairs the transaction requires.
+ * Keypairs that are not required signers are ignored.
+ */
+export function partialSign(tx: AnyTransaction, signers: Keypair[]): void {
+  const required = new Set(requiredSigners(tx).map((pk) => pk.toBase58()));
+  const relevant = signers.filter((kp) => required.has(kp.publicKey.toBase58()));
+  if (relevant.length === 0) return;
+  if (tx instanceof VersionedTransaction) {
+    tx.sign(relevant);
+  } else {
+    tx.partialSign(...relevant);
+  }
+}
+
+/**
+ * Public keys that must sign the transaction, fee payer first.
+ */
+function requiredSigners(tx: AnyTransaction): PublicKey[] {
+  const message = tx instanceof VersionedTransaction ? tx.message : tx.compileMessage();
+  return message.staticAccountKeys.slice(0, message.header.numRequiredSignatures);
+}
+
+/**
+ * Required signers whose signature is still empty.
+ */
+export function missingSigners(tx: AnyTransaction): PublicKey[] {
+  if (tx instanceof VersionedTransaction) {
+    return requiredSigners(tx).filter((_, i) => tx.signatures[i].every((b) => b === 0));
+  }
+  const signed = new Set(
+    tx.signatures.filter((s) => s.signature !== null).map((s) => s.publicKey.toBase58())
+  );
+  return requiredSigners(tx).filter((pk) => !signed.has(pk.toBase58()));
+}
+
+/**
+ * Serialize a possibly partially signed transaction to base64.
+ */
+export function serializeTransaction(tx: AnyTransaction): string {
+  const bytes =
+    tx instanceof VersionedTransaction
+      ? tx.serialize()
+      : tx.serialize({ requireAllSignatures: false, verifySignatures: false });
+  return Buffer.from(bytes).toString("base64");
+}
+
+/**
+ * Deserialize a base64 transaction, legacy or versioned.
+ */
+export function deserializeTransaction(base64: string): AnyTransaction {
+  const bytes = Buffer.from(base64.trim(), "base64");
+  // Versioned messages set the high bit of the first message byte (after the signatures)
+  const numSignatures = bytes[0];
+  const messageFirstByte = bytes[1 + numSignatures * 64];
+  if (messageFirstByte !== undefined && (messageFirstByte & 0x80) !== 0) {
+    return VersionedTransaction.deserialize(bytes);
+  }
+  return Transaction.from(bytes);
+}
+
+/**
+ * Send a fully signed transaction, wait for confirmation and decode any error from its logs.
+ * Without a confirmation strategy the signature status is polled until the commitment is reached.
+ * `programId` lets errors be attributed to Percolator or a matcher it called.
+ */
+export async function sendRaw(
+  connection: Connection,
+  raw: Uint8Array | Buffer,
+  commitment: Commitment,
+  confirmation?: ConfirmationStrategy,
+  programId?: PublicKey
+): Promise<TxResult> {
+  const options: SendOptions = {
+    skipPreflight: false,
+    preflightCommitment: commitment,
+  };
+
+  let signature: string;
+  try {
+    signature = await connection.sendRawTransaction(raw, options);
+  } catch (e) {
+    // Rejected by preflight simulation: decode it like a failed simulation
+    if (!(e instanceof SendTransactionError)) throw e;
+    const logs = e.logs ?? [];
+    const error = decodeTxError(e.transactionError.message, logs, programId?.toBase58());
+    return { signature: "", slot: 0, err: formatTxError(error), hint: error.hint, error, logs };
+  }
+
+  const confirmErr = confirmation
+    ? (await connection.confirmTransaction({ signature, ...confirmation }, commitment)).value.err
+    : await pollSignature(connection, signature, commitment);
+
+  // Fetch logs
+  const txInfo = await connection.getTransaction(signature, {
+    commitment: "confirmed",
+    maxSupportedTransactionVersion: 0,
+  });
+
+  const logs = txInfo?.meta?.logMessages ?? [];
+  const error = confirmErr ? decodeTxError(confirmErr, logs, programId?.toBase58()) : undefined;
+
+  return {
+    signature,
+    slot: txInfo?.slot ?? 0,
+    err: error ? formatTxError(error) : null,
+    hint: error?.hint,
+    error,
+    logs,
+  };
+}
+
+const POLL_INTERVAL_MS = 1000;
+const POLL_TIMEOUT_MS = 90_000;
+
+/**
+ * Poll a signature until it reaches the commitment level. Returns the transaction error, if any.
+ */
+async function pollSignature(
+  connection: Connection,
+  signature: string,
+  commitment: Commitment
+): Promise<unknown> {
+  const levels: Commitment[] = ["processed", "confirmed", "finalized"];
+  const wanted = levels.indexOf(commitment);
+  const deadline = Date.now() + POLL_TIMEOUT_MS;
+
+  while (Date.now() < deadline) {
+    const { value } = await connection.getSignatureStatuses([signature]);
+    const status = value[0];
+    if (status) {
+      if (status.err) return status.err;
+      const reached = levels.indexOf(status.confirmationStatus ?? "processed");
+      if (reached >= wanted) return null;
+    }
+    await new Promise((r) => setTimeout(r, POLL_INTERVAL_MS));
+  }
+  throw new Error(`Transaction ${signature} not confirmed within ${POLL_TIMEOUT_MS / 1000}s`);
+}
+
+/**
+ * Explorer link for a transaction on the given cluster. Localnet links point
+ * the explorer at `rpcUrl`, the endpoint the transaction was sent to.
+ */
+export function explorerUrl(signature: string, cluster: Cluster, rpcUrl?: string): string {
+  const base = `https://explorer.solana.com/tx/${signature}`;
+  switch (cluster) {
+    case "mainnet-beta":
+      return base;
+    case "localnet":
+      return rpcUrl !== undefined
+        ? `${base}?cluster=custom&customUrl=${encodeURIComponent(rpcUrl)}`
+        : `${base}?cluster=custom`;
+    default:
+      return `${base}?cluster=${cluster}`;
+  }
+}
+
 /**
  * Format transaction result for output.
  */
-export function formatResult(result: TxResult, jsonMode: boolean): string {
+export function formatResult(
+  result: TxResult,
+  jsonMode: boolean,
+  cluster: Cluster = "mainnet-beta",
+  rpcUrl?: string
+): string {
   if (jsonMode) {
     return JSON.stringify(result, null, 2);
   }
@@ -166,6 +646,11 @@ export function formatResult(result: TxResult, jsonMode: boolean): string {
 
   if (result.err) {
     lines.push(`Error: ${result.err}`);
+    const { program, programLabel, depth } = result.error ?? {};
+    if (program) {
+      const name = programLabel && programLabel !== program ? `${programLabel} (${program})` : program;
+      lines.push(`Program: ${name}${depth !== undefined && depth > 1 ? `, called via CPI (depth ${depth})` : ""}`);
+    }
     if (result.hint) {
       lines.push(`Hint: ${result.hint}`);
     }
@@ -182,8 +667,20 @@ export function formatResult(result: TxResult, jsonMode: boolean): string {
     if (result.unitsConsumed !== undefined) {
       lines.push(`Compute Units: ${result.unitsConsumed.toLocaleString()}`);
     }
-    if (result.signature !== "(simulated)") {
-      lines.push(`Explorer: https://explorer.solana.com/tx/${result.signature}`);
+    if (result.computeUnitLimit !== undefined) {
+      lines.push(`Compute Limit: ${result.computeUnitLimit.toLocaleString()}`);
+    }
+    if (result.priorityFeeMicroLamports !== undefined) {
+      lines.push(`Priority Fee: ${result.priorityFeeMicroLamports.toLocaleString()} micro-lamports/CU`);
+    }
+    if (result.serializedTx !== undefined) {
+      if (result.missingSigners && result.missingSigners.length > 0) {
+        lines.push(`Missing Signatures: ${result.missingSigners.join(", ")}`);
+      }
+      lines.push("Transaction (base64):");
+      lines.push(result.serializedTx);
+    } else if (result.signature !== "(simulated)") {
+      lines.push(`Explorer: ${explorerUrl(result.signature, cluster, rpcUrl)}`);
     }
   }
 
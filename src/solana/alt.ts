@@ -0,0 +1,59 @@
+import { PublicKey } from "@solana/web3.js";
+import { parseConfig, parseAllAccounts, AccountKind } from "./slab.js";
+import { deriveVaultAuthority, deriveLpPda } from "./pda.js";
+import { WELL_KNOWN } from "../abi/accounts.js";
+
+/**
+ * An address destined for a lookup table, with a label for display.
+ */
+export interface LabeledAddress {
+  label: string;
+  address: PublicKey;
+}
+
+/**
+ * Collect the addresses a market's transactions reference:
+ * slab, vault, vault PDA, oracle, sysvars/programs, and each LP's
+ * matcher program, matcher context and LP PDA.
+ * Duplicates and the default (all-zero) pubkey are dropped.
+ */
+export function collectMarketAddresses(
+  programId: PublicKey,
+  slab: PublicKey,
+  data: Buffer,
+  extraOracle?: PublicKey
+): LabeledAddress[] {
+  const config = parseConfig(data);
+  const [vaultPda] = deriveVaultAuthority(programId, slab);
+
+  const entries: LabeledAddress[] = [
+    { label: "slab", address: slab },
+    { label: "vault", address: config.vaultPubkey },
+    { label: "vaultPda", address: vaultPda },
+    { label: "oracle", address: config.indexFeedId },
+    { label: "clock", address: WELL_KNOWN.clock },
+    { label: "tokenProgram", address: WELL_KNOWN.tokenProgram },
+    { label: "programId", address: programId },
+  ];
+  if (extraOracle) {
+    entries.push({ label: "oracle (override)", address: extraOracle });
+  }
+
+  for (const { idx, account } of parseAllAccounts(data)) {
+    if (account.kind !== AccountKind.LP) continue;
+    const [lpPda] = deriveLpPda(programId, slab, idx);
+    entries.push(
+      { label: `lp[${idx}].matcherProgram`, address: account.matcherProgram },
+      { label: `lp[${idx}].matcherContext`, address: account.matcherContext },
+      { label: `lp[${idx}].pda`, address: lpPda },
+    );
+  }
+
+  const seen = new Set<string>();
+  return entries.filter(({ address }) => {
+    const key = address.toBase58();
+    if (address.equals(PublicKey.default) || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
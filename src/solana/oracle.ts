@@ -0,0 +1,127 @@
+/**
+ * Oracle price accounts the program reads, and the conversion from a feed
+ * price to the engine price positions are marked at.
+ */
+
+import { Connection, PublicKey, AccountInfo } from "@solana/web3.js";
+import { MarketConfig } from "./slab.js";
+
+export const PYTH_RECEIVER_PROGRAM_ID = new PublicKey("rec5EKMGg6MxZYaMdyBfgwp4d5rB9T1VQH5pJv5LtFJ");
+export const CHAINLINK_STORE_PROGRAM_ID = new PublicKey("HEvSKofvBgfaexv23kMabbYqxasxU3mQ4ibBMEmJWHny");
+
+// Pyth PriceUpdateV2: discriminator(8) + write_authority(32) + verification_level(2) + feed_id(32) + message
+const PYTH_OFF_PRICE = 74;       // i64
+const PYTH_OFF_EXPO = 90;        // i32
+const PYTH_OFF_PUBLISH_TIME = 94; // i64
+const PYTH_MIN_LEN = 134;
+
+// Chainlink OCR2 store: decimals in the header, latest round at fixed offsets
+const CL_OFF_DECIMALS = 138;     // u8
+const CL_OFF_TIMESTAMP = 208;    // u64
+const CL_OFF_ANSWER = 216;       // i128 (low 8 bytes used)
+const CL_MIN_LEN = 224;
+
+export type OracleKind = "pyth" | "chainlink";
+
+export interface OraclePrice {
+  kind: OracleKind;
+  priceE6: bigint;       // Feed price, before inversion and unit scaling
+  publishTime: bigint;   // Unix seconds
+}
+
+/**
+ * Scale a price with `decimals` decimal places to e6 (truncating).
+ */
+function toE6(price: bigint, decimals: number): bigint {
+  return decimals >= 6 ? price / 10n ** BigInt(decimals - 6) : price * 10n ** BigInt(6 - decimals);
+}
+
+/**
+ * Parse a Pyth PriceUpdateV2 or Chainlink account, identified by its owner.
+ */
+export function parseOraclePrice(info: AccountInfo<Buffer>): OraclePrice {
+  const data = info.data;
+  if (info.owner.equals(PYTH_RECEIVER_PROGRAM_ID)) {
+    if (data.length < PYTH_MIN_LEN) {
+      throw new Error(`Pyth price update too short: ${data.length} bytes`);
+    }
+    return {
+      kind: "pyth",
+      priceE6: toE6(data.readBigInt64LE(PYTH_OFF_PRICE), -data.readInt32LE(PYTH_OFF_EXPO)),
+      publishTime: data.readBigInt64LE(PYTH_OFF_PUBLISH_TIME),
+    };
+  }
+  if (info.owner.equals(CHAINLINK_STORE_PROGRAM_ID)) {
+    if (data.length < CL_MIN_LEN) {
+      throw new Error(`Chainlink feed too short: ${data.length} bytes`);
+    }
+    return {
+      kind: "chainlink",
+      priceE6: toE6(data.readBigInt64LE(CL_OFF_ANSWER), data.readUInt8(CL_OFF_DECIMALS)),
+      publishTime: data.readBigUInt64LE(CL_OFF_TIMESTAMP),
+    };
+  }
+  throw new Error(`Unsupported oracle owner ${info.owner.toBase58()} (expected Pyth receiver or Chainlink store)`);
+}
+
+/**
+ * Fetch and parse an oracle price account.
+ */
+export async function fetchOraclePrice(connection: Connection, oracle: PublicKey): Promise<OraclePrice> {
+  const info = await connection.getAccountInfo(oracle);
+  if (!info) {
+    throw new Error(`Oracle account not found: ${oracle.toBase58()}`);
+  }
+  return parseOraclePrice(info);
+}
+
+/**
+ * Feed price to engine price, as the program does it: invert (1e12 / price)
+ * when the market is inverted, then divide by unit_scale. Pushed authority
+ * prices are already engine prices and skip this.
+ */
+export function toEnginePrice(priceE6: bigint, config: Pick<MarketConfig, "invert" | "unitScale">): bigint {
+  let price = priceE6;
+  if (config.invert !== 0) {
+    price = price > 0n ? 1_000_000_000_000n / price : 0n;
+  }
+  if (config.unitScale > 1) {
+    price /= BigInt(config.unitScale);
+  }
+  return price;
+}
+
+export interface MarketPrice {
+  source: string;         // Where the price came from, for display
+  enginePriceE6: bigint;
+  feedPriceE6?: bigint;   // Set when priced from a feed (before inversion/scaling)
+}
+
+/**
+ * The price to evaluate a market at: an explicit feed price, then the oracle
+ * feed, then the pushed authority price, then the last price the program used.
+ */
+export async function resolveMarketPrice(
+  connection: Connection,
+  config: MarketConfig,
+  opts: { feedPriceE6?: bigint; oracle?: PublicKey }
+): Promise<MarketPrice> {
+  if (opts.feedPriceE6 !== undefined) {
+    return { source: "--price", enginePriceE6: toEnginePrice(opts.feedPriceE6, config), feedPriceE6: opts.feedPriceE6 };
+  }
+  if (opts.oracle !== undefined) {
+    const feed = await fetchOraclePrice(connection, opts.oracle);
+    return {
+      source: `${feed.kind} ${opts.oracle.toBase58()}`,
+      enginePriceE6: toEnginePrice(feed.priceE6, config),
+      feedPriceE6: feed.priceE6,
+    };
+  }
+  if (!config.oracleAuthority.equals(PublicKey.default) && config.authorityPriceE6 > 0n) {
+    return { source: "oracle authority price", enginePriceE6: config.authorityPriceE6 };
+  }
+  if (config.lastEffectivePriceE6 > 0n) {
+    return { source: "last effective price", enginePriceE6: config.lastEffectivePriceE6 };
+  }
+  throw new Error("No price recorded on the market yet; pass --oracle or --price");
+}
@@ -1,23 +1,18 @@
-import { Connection, PublicKey } from "@solana/web3.js";
+import { AccountInfo, Connection, PublicKey } from "@solana/web3.js";
+import { struct, pad, StructSchema } from "./struct.js";
 
 // Constants from Rust (updated for funding/threshold params 2026-01)
 const MAGIC: bigint = 0x504552434f4c4154n; // "PERCOLAT"
-const HEADER_LEN = 72;    // SlabHeader: magic(8) + version(4) + bump(1) + _padding(3) + admin(32) + _reserved(24)
-const CONFIG_OFFSET = HEADER_LEN;  // MarketConfig starts right after header
-// MarketConfig: collateral_mint(32) + vault_pubkey(32) + index_feed_id(32) + max_staleness_secs(8) +
-//               conf_filter_bps(2) + bump(1) + invert(1) + unit_scale(4) +
-//               funding_horizon_slots(8) + funding_k_bps(8) + funding_inv_scale_notional_e6(16) +
-//               funding_max_premium_bps(8) + funding_max_bps_per_slot(8) +
-//               thresh_floor(16) + thresh_risk_bps(8) + thresh_update_interval_slots(8) +
-//               thresh_step_bps(8) + thresh_alpha_bps(8) + thresh_min(16) + thresh_max(16) + thresh_min_step(16) +
-//               oracle_authority(32) + authority_price_e6(8) + authority_timestamp(8) +
-//               oracle_price_cap_e2bps(8) + last_effective_price_e6(8)
-const CONFIG_LEN = 320;
-const RESERVED_OFF = 48;  // Offset of _reserved field within SlabHeader
+// PERCOLAT magic bytes, as matched by getProgramAccounts filters
+const PERCOLAT_MAGIC = Buffer.from([0x50, 0x45, 0x52, 0x43, 0x4f, 0x4c, 0x41, 0x54]);
 
 // Flag bits in header._padding[0] at offset 13
 const FLAG_RESOLVED = 1 << 0;
 
+// =============================================================================
+// Interfaces
+// =============================================================================
+
 /**
  * Slab header (72 bytes)
  */
@@ -34,8 +29,6 @@ export interface SlabHeader {
 
 /**
  * Market config (starts at offset 72)
- * Layout: collateral_mint(32) + vault_pubkey(32) + index_feed_id(32)
- *         + max_staleness_secs(8) + conf_filter_bps(2) + vault_authority_bump(1) + invert(1) + unit_scale(4)
  */
 export interface MarketConfig {
   collateralMint: PublicKey;
@@ -70,303 +63,6 @@ export interface MarketConfig {
   lastEffectivePriceE6: bigint;
 }
 
-/**
- * Fetch raw slab account data.
- */
-export async function fetchSlab(
-  connection: Connection,
-  slabPubkey: PublicKey
-): Promise<Buffer> {
-  const info = await connection.getAccountInfo(slabPubkey);
-  if (!info) {
-    throw new Error(`Slab account not found: ${slabPubkey.toBase58()}`);
-  }
-  return Buffer.from(info.data);
-}
-
-/**
- * Parse slab header (first 64 bytes).
- */
-export function parseHeader(data: Buffer): SlabHeader {
-  if (data.length < HEADER_LEN) {
-    throw new Error(`Slab data too short for header: ${data.length} < ${HEADER_LEN}`);
-  }
-
-  const magic = data.readBigUInt64LE(0);
-  if (magic !== MAGIC) {
-    throw new Error(`Invalid slab magic: expected ${MAGIC.toString(16)}, got ${magic.toString(16)}`);
-  }
-
-  const version = data.readUInt32LE(8);
-  const bump = data.readUInt8(12);
-  const flags = data.readUInt8(13);  // _padding[0] contains flags
-  const admin = new PublicKey(data.subarray(16, 48));
-
-  // Reserved field: nonce at [0..8], lastThrUpdateSlot at [8..16]
-  const nonce = data.readBigUInt64LE(RESERVED_OFF);
-  const lastThrUpdateSlot = data.readBigUInt64LE(RESERVED_OFF + 8);
-
-  return {
-    magic,
-    version,
-    bump,
-    flags,
-    resolved: (flags & FLAG_RESOLVED) !== 0,
-    admin,
-    nonce,
-    lastThrUpdateSlot,
-  };
-}
-
-/**
- * Parse market config (starts at byte 72).
- * Layout: collateral_mint(32) + vault_pubkey(32) + index_feed_id(32)
- *         + max_staleness_secs(8) + conf_filter_bps(2) + vault_authority_bump(1) + invert(1) + unit_scale(4)
- */
-export function parseConfig(data: Buffer): MarketConfig {
-  const minLen = CONFIG_OFFSET + CONFIG_LEN;
-  if (data.length < minLen) {
-    throw new Error(`Slab data too short for config: ${data.length} < ${minLen}`);
-  }
-
-  let off = CONFIG_OFFSET;
-
-  const collateralMint = new PublicKey(data.subarray(off, off + 32));
-  off += 32;
-
-  const vaultPubkey = new PublicKey(data.subarray(off, off + 32));
-  off += 32;
-
-  // index_feed_id (32 bytes) - Pyth feed ID, stored as 32 bytes
-  const indexFeedId = new PublicKey(data.subarray(off, off + 32));
-  off += 32;
-
-  const maxStalenessSlots = data.readBigUInt64LE(off);
-  off += 8;
-
-  const confFilterBps = data.readUInt16LE(off);
-  off += 2;
-
-  const vaultAuthorityBump = data.readUInt8(off);
-  off += 1;
-
-  const invert = data.readUInt8(off);
-  off += 1;
-
-  const unitScale = data.readUInt32LE(off);
-  off += 4;
-
-  // Funding rate parameters
-  const fundingHorizonSlots = data.readBigUInt64LE(off);
-  off += 8;
-
-  const fundingKBps = data.readBigUInt64LE(off);
-  off += 8;
-
-  const fundingInvScaleNotionalE6 = readI128LE(data, off);
-  off += 16;
-
-  const fundingMaxPremiumBps = data.readBigUInt64LE(off);
-  off += 8;
-
-  const fundingMaxBpsPerSlot = data.readBigUInt64LE(off);
-  off += 8;
-
-  // Threshold parameters
-  const threshFloor = readU128LE(data, off);
-  off += 16;
-
-  const threshRiskBps = data.readBigUInt64LE(off);
-  off += 8;
-
-  const threshUpdateIntervalSlots = data.readBigUInt64LE(off);
-  off += 8;
-
-  const threshStepBps = data.readBigUInt64LE(off);
-  off += 8;
-
-  const threshAlphaBps = data.readBigUInt64LE(off);
-  off += 8;
-
-  const threshMin = readU128LE(data, off);
-  off += 16;
-
-  const threshMax = readU128LE(data, off);
-  off += 16;
-
-  const threshMinStep = readU128LE(data, off);
-  off += 16;
-
-  // Oracle authority fields
-  const oracleAuthority = new PublicKey(data.subarray(off, off + 32));
-  off += 32;
-
-  const authorityPriceE6 = data.readBigUInt64LE(off);
-  off += 8;
-
-  const authorityTimestamp = data.readBigInt64LE(off);
-  off += 8;
-
-  // Oracle price circuit breaker
-  const oraclePriceCapE2bps = data.readBigUInt64LE(off);
-  off += 8;
-
-  const lastEffectivePriceE6 = data.readBigUInt64LE(off);
-
-  return {
-    collateralMint,
-    vaultPubkey,
-    indexFeedId,
-    maxStalenessSlots,
-    confFilterBps,
-    vaultAuthorityBump,
-    invert,
-    unitScale,
-    fundingHorizonSlots,
-    fundingKBps,
-    fundingInvScaleNotionalE6,
-    fundingMaxPremiumBps,
-    fundingMaxBpsPerSlot,
-    threshFloor,
-    threshRiskBps,
-    threshUpdateIntervalSlots,
-    threshStepBps,
-    threshAlphaBps,
-    threshMin,
-    threshMax,
-    threshMinStep,
-    oracleAuthority,
-    authorityPriceE6,
-    authorityTimestamp,
-    oraclePriceCapE2bps,
-    lastEffectivePriceE6,
-  };
-}
-
-/**
- * Read nonce from slab header reserved field.
- */
-export function readNonce(data: Buffer): bigint {
-  if (data.length < RESERVED_OFF + 8) {
-    throw new Error("Slab data too short for nonce");
-  }
-  return data.readBigUInt64LE(RESERVED_OFF);
-}
-
-/**
- * Read last threshold update slot from slab header reserved field.
- */
-export function readLastThrUpdateSlot(data: Buffer): bigint {
-  if (data.length < RESERVED_OFF + 16) {
-    throw new Error("Slab data too short for lastThrUpdateSlot");
-  }
-  return data.readBigUInt64LE(RESERVED_OFF + 8);
-}
-
-// =============================================================================
-// RiskEngine Layout Constants (updated for haircut-ratio refactor 2026-02)
-// ENGINE_OFF = HEADER_LEN + CONFIG_LEN = 72 + 320 = 392
-//
-// The ADL/socialization system was replaced with O(1) haircut ratio.
-// Removed: loss_accum, risk_reduction_only, warmup_paused, warmed totals,
-//          adl_*_scratch arrays, pending_* deferred socialization fields.
-// Added: c_tot, pnl_pos_tot (O(1) aggregates for haircut calculation).
-// =============================================================================
-const ENGINE_OFF = 392;
-// RiskEngine struct layout (repr(C), SBF uses 8-byte alignment for u128):
-// - vault: u128 (16 bytes) at offset 0
-// - insurance_fund: InsuranceFund { balance: u128, fee_revenue: u128 } (32 bytes) at offset 16
-// - params: RiskParams (144 bytes) at offset 48
-const ENGINE_VAULT_OFF = 0;
-const ENGINE_INSURANCE_OFF = 16;
-const ENGINE_PARAMS_OFF = 48;         // RiskParams starts here (after vault+insurance_fund)
-// After RiskParams (at engine offset 48 + 144 = 192):
-const ENGINE_CURRENT_SLOT_OFF = 192;
-const ENGINE_FUNDING_INDEX_OFF = 200;   // I128 (16 bytes)
-const ENGINE_LAST_FUNDING_SLOT_OFF = 216;
-const ENGINE_FUNDING_RATE_BPS_OFF = 224;// i64: funding_rate_bps_per_slot_last (8 bytes) - was missing!
-const ENGINE_LAST_CRANK_SLOT_OFF = 232;
-const ENGINE_MAX_CRANK_STALENESS_OFF = 240;
-const ENGINE_TOTAL_OI_OFF = 248;        // U128 (16 bytes)
-const ENGINE_C_TOT_OFF = 264;           // U128: sum of all account capital
-const ENGINE_PNL_POS_TOT_OFF = 280;     // U128: sum of all positive PnL
-const ENGINE_LIQ_CURSOR_OFF = 296;      // u16
-const ENGINE_GC_CURSOR_OFF = 298;       // u16
-// 4 bytes padding for u64 alignment
-const ENGINE_LAST_SWEEP_START_OFF = 304;
-const ENGINE_LAST_SWEEP_COMPLETE_OFF = 312;
-const ENGINE_CRANK_CURSOR_OFF = 320;    // u16
-const ENGINE_SWEEP_START_IDX_OFF = 322; // u16
-// 4 bytes padding for u64 alignment
-const ENGINE_LIFETIME_LIQUIDATIONS_OFF = 328;
-const ENGINE_LIFETIME_FORCE_CLOSES_OFF = 336;
-// LP Aggregates for funding rate calculation
-const ENGINE_NET_LP_POS_OFF = 344;      // I128
-const ENGINE_LP_SUM_ABS_OFF = 360;      // U128
-const ENGINE_LP_MAX_ABS_OFF = 376;      // U128
-const ENGINE_LP_MAX_ABS_SWEEP_OFF = 392;// U128
-// Bitmap: 64 u64 words = 512 bytes
-const ENGINE_BITMAP_OFF = 408;
-// After bitmap (408 + 512 = 920):
-const ENGINE_NUM_USED_OFF = 920;        // u16
-// 6 bytes padding for u64 alignment
-const ENGINE_NEXT_ACCOUNT_ID_OFF = 928; // u64
-const ENGINE_FREE_HEAD_OFF = 936;       // u16
-// _padding_accounts: [u8; 6] at 938-943 for next_free alignment
-// next_free: [u16; 4096] at 944-9135
-// 8 bytes padding for Account alignment (u128)
-const ENGINE_ACCOUNTS_OFF = 9136;       // accounts: [Account; 4096]
-
-const BITMAP_WORDS = 64;
-const MAX_ACCOUNTS = 4096;
-const ACCOUNT_SIZE = 240;  // Account._padding removed (was 248)
-
-// =============================================================================
-// RiskParams Layout (144 bytes, repr(C) with 8-byte alignment on SBF)
-// Note: SBF target uses 8-byte alignment for u128, not 16-byte
-// Verified via verify-layout.cjs against devnet 2024-01
-// =============================================================================
-const PARAMS_WARMUP_PERIOD_OFF = 0;        // u64
-const PARAMS_MAINTENANCE_MARGIN_OFF = 8;   // u64
-const PARAMS_INITIAL_MARGIN_OFF = 16;      // u64
-const PARAMS_TRADING_FEE_OFF = 24;         // u64
-const PARAMS_MAX_ACCOUNTS_OFF = 32;        // u64
-const PARAMS_NEW_ACCOUNT_FEE_OFF = 40;     // u128 (no padding, 8-byte aligned)
-const PARAMS_RISK_THRESHOLD_OFF = 56;      // u128
-const PARAMS_MAINTENANCE_FEE_OFF = 72;     // u128
-const PARAMS_MAX_CRANK_STALENESS_OFF = 88; // u64
-const PARAMS_LIQUIDATION_FEE_BPS_OFF = 96; // u64
-const PARAMS_LIQUIDATION_FEE_CAP_OFF = 104;// u128
-const PARAMS_LIQUIDATION_BUFFER_OFF = 120; // u64
-const PARAMS_MIN_LIQUIDATION_OFF = 128;    // u128 (total = 144 bytes)
-
-// =============================================================================
-// Account Layout (248 bytes, repr(C))
-// NOTE: Despite U128/I128 wrapper types in Rust, on-chain layout remains unchanged
-// Field order: account_id, capital, kind, pnl, reserved_pnl, warmup_started,
-//              warmup_slope, position_size, entry_price, funding_index,
-//              matcher_program, matcher_context, owner, fee_credits, last_fee_slot
-// =============================================================================
-const ACCT_ACCOUNT_ID_OFF = 0;        // accountId (u64, 8 bytes), ends at 8
-const ACCT_CAPITAL_OFF = 8;           // capital (U128, 16 bytes), ends at 24
-const ACCT_KIND_OFF = 24;             // kind (u8, 1 byte + 7 padding), ends at 32
-const ACCT_PNL_OFF = 32;              // pnl (I128, 16 bytes), ends at 48
-const ACCT_RESERVED_PNL_OFF = 48;     // reserved_pnl (u64, 8 bytes), ends at 56
-const ACCT_WARMUP_STARTED_OFF = 56;   // warmup_started (u64, 8 bytes), ends at 64
-const ACCT_WARMUP_SLOPE_OFF = 64;     // warmup_slope (U128, 16 bytes), ends at 80
-const ACCT_POSITION_SIZE_OFF = 80;    // position_size (I128, 16 bytes), ends at 96
-const ACCT_ENTRY_PRICE_OFF = 96;      // entry_price (u64, 8 bytes), ends at 104
-const ACCT_FUNDING_INDEX_OFF = 104;   // funding_index (I128, 16 bytes), ends at 120
-const ACCT_MATCHER_PROGRAM_OFF = 120; // matcher_program (Pubkey, 32 bytes), ends at 152
-const ACCT_MATCHER_CONTEXT_OFF = 152; // matcher_context (Pubkey, 32 bytes), ends at 184
-const ACCT_OWNER_OFF = 184;           // owner (Pubkey, 32 bytes), ends at 216
-const ACCT_FEE_CREDITS_OFF = 216;     // fee_credits (I128, 16 bytes), ends at 232
-const ACCT_LAST_FEE_SLOT_OFF = 232;   // last_fee_slot (u64, 8 bytes), ends at 240
-
-// =============================================================================
-// Interfaces
-// =============================================================================
-
 export interface InsuranceFund {
   balance: bigint;
   feeRevenue: bigint;
@@ -441,25 +137,341 @@ export interface Account {
 }
 
 // =============================================================================
-// Helper: read signed i128 from buffer
-// Match Rust's I128 wrapper: read both halves as unsigned, then interpret as signed
+// Struct Schemas
+// Each schema mirrors a repr(C) Rust struct (SBF uses 8-byte alignment for
+// u128), with alignment padding spelled out. Parsers and writers below are
+// both driven by these, so a layout change is made in one place.
 // =============================================================================
-function readI128LE(buf: Buffer, offset: number): bigint {
-  const lo = buf.readBigUInt64LE(offset);
-  const hi = buf.readBigUInt64LE(offset + 8);
-  const unsigned = (hi << 64n) | lo;
-  // If high bit is set, convert to negative (two's complement)
-  const SIGN_BIT = 1n << 127n;
-  if (unsigned >= SIGN_BIT) {
-    return unsigned - (1n << 128n);
+
+/**
+ * SlabHeader (72 bytes): magic(8) + version(4) + bump(1) + _padding(3) + admin(32) + _reserved(24).
+ * The header is shared by every layout version.
+ */
+const HEADER_SCHEMA = struct<Omit<SlabHeader, "resolved">>([
+  ["magic", "u64"],
+  ["version", "u32"],
+  ["bump", "u8"],
+  ["flags", "u8"],              // _padding[0] contains flags
+  pad(2),
+  ["admin", "pubkey"],
+  // Reserved field: nonce at [0..8], lastThrUpdateSlot at [8..16]
+  ["nonce", "u64"],
+  ["lastThrUpdateSlot", "u64"],
+  pad(8),
+]);
+const HEADER_LEN = HEADER_SCHEMA.size;
+
+/**
+ * MarketConfig (320 bytes, starts right after the header).
+ */
+const CONFIG_SCHEMA_V1 = struct<MarketConfig>([
+  ["collateralMint", "pubkey"],
+  ["vaultPubkey", "pubkey"],
+  ["indexFeedId", "pubkey"],        // Pyth feed ID stored as 32 bytes
+  ["maxStalenessSlots", "u64"],     // max_staleness_secs
+  ["confFilterBps", "u16"],
+  ["vaultAuthorityBump", "u8"],
+  ["invert", "u8"],
+  ["unitScale", "u32"],
+  // Funding rate parameters
+  ["fundingHorizonSlots", "u64"],
+  ["fundingKBps", "u64"],
+  ["fundingInvScaleNotionalE6", "i128"],
+  ["fundingMaxPremiumBps", "u64"],
+  ["fundingMaxBpsPerSlot", "u64"],
+  // Threshold parameters
+  ["threshFloor", "u128"],
+  ["threshRiskBps", "u64"],
+  ["threshUpdateIntervalSlots", "u64"],
+  ["threshStepBps", "u64"],
+  ["threshAlphaBps", "u64"],
+  ["threshMin", "u128"],
+  ["threshMax", "u128"],
+  ["threshMinStep", "u128"],
+  // Oracle authority
+  ["oracleAuthority", "pubkey"],
+  ["authorityPriceE6", "u64"],
+  ["authorityTimestamp", "i64"],
+  // Oracle price circuit breaker
+  ["oraclePriceCapE2bps", "u64"],
+  ["lastEffectivePriceE6", "u64"],
+]);
+
+/**
+ * RiskParams (144 bytes, no padding: every u128 is 8-byte aligned on SBF).
+ * Verified via verify-layout.cjs against devnet 2024-01
+ */
+const PARAMS_SCHEMA_V1 = struct<RiskParams>([
+  ["warmupPeriodSlots", "u64"],
+  ["maintenanceMarginBps", "u64"],
+  ["initialMarginBps", "u64"],
+  ["tradingFeeBps", "u64"],
+  ["maxAccounts", "u64"],
+  ["newAccountFee", "u128"],
+  ["riskReductionThreshold", "u128"],
+  ["maintenanceFeePerSlot", "u128"],
+  ["maxCrankStalenessSlots", "u64"],
+  ["liquidationFeeBps", "u64"],
+  ["liquidationFeeCap", "u128"],
+  ["liquidationBufferBps", "u64"],
+  ["minLiquidationAbs", "u128"],
+]);
+
+const INSURANCE_FUND_SCHEMA = struct<InsuranceFund>([
+  ["balance", "u128"],
+  ["feeRevenue", "u128"],
+]);
+
+/**
+ * RiskEngine scalar state, up to next_account_id (936 bytes).
+ * RiskParams and the used bitmap sit inside it as padding here; they have
+ * their own parsers. free_head, next_free and the accounts array follow.
+ */
+const ENGINE_SCHEMA_V1 = struct<EngineState>([
+  ["vault", "u128"],
+  ["insuranceFund", INSURANCE_FUND_SCHEMA],
+  pad(PARAMS_SCHEMA_V1.size),       // params: RiskParams
+  ["currentSlot", "u64"],
+  ["fundingIndexQpbE6", "i128"],
+  ["lastFundingSlot", "u64"],
+  ["fundingRateBpsPerSlotLast", "i64"],
+  ["lastCrankSlot", "u64"],
+  ["maxCrankStalenessSlots", "u64"],
+  ["totalOpenInterest", "u128"],
+  ["cTot", "u128"],                 // Sum of all account capital
+  ["pnlPosTot", "u128"],            // Sum of all positive PnL
+  ["liqCursor", "u16"],
+  ["gcCursor", "u16"],
+  pad(4),
+  ["lastSweepStartSlot", "u64"],
+  ["lastSweepCompleteSlot", "u64"],
+  ["crankCursor", "u16"],
+  ["sweepStartIdx", "u16"],
+  pad(4),
+  ["lifetimeLiquidations", "u64"],
+  ["lifetimeForceCloses", "u64"],
+  // LP Aggregates for funding rate calculation
+  ["netLpPos", "i128"],
+  ["lpSumAbs", "u128"],
+  ["lpMaxAbs", "u128"],
+  ["lpMaxAbsSweep", "u128"],
+  pad(512),                         // used bitmap: 64 u64 words
+  ["numUsedAccounts", "u16"],
+  pad(6),
+  ["nextAccountId", "u64"],
+]);
+
+/**
+ * Account (240 bytes; Account._padding removed, was 248).
+ * Despite U128/I128 wrapper types in Rust, on-chain layout is plain.
+ */
+const ACCOUNT_SCHEMA_V1 = struct<Account>([
+  ["accountId", "u64"],
+  ["capital", "u128"],
+  ["kind", "u8"],
+  pad(7),
+  ["pnl", "i128"],
+  ["reservedPnl", "u64"],
+  ["warmupStartedAtSlot", "u64"],
+  ["warmupSlopePerStep", "u128"],
+  ["positionSize", "i128"],
+  ["entryPrice", "u64"],
+  ["fundingIndex", "i128"],
+  ["matcherProgram", "pubkey"],
+  ["matcherContext", "pubkey"],
+  ["owner", "pubkey"],
+  ["feeCredits", "i128"],
+  ["lastFeeSlot", "u64"],
+]);
+
+// =============================================================================
+// Slab Layouts
+// Offsets move whenever the program's structs are refactored. Each layout
+// describes one program version's slab; slabLayout() picks the one matching
+// a slab's header version and data length, so old slabs keep parsing.
+// =============================================================================
+
+/**
+ * Byte layout of one program version's slab.
+ * paramsOff, bitmapOff and accountsOff are relative to engineOff.
+ */
+export interface SlabLayout {
+  name: string;
+  version: number;       // SlabHeader.version
+  slabLen: number;       // Account data length the program allocates
+  header: StructSchema<Omit<SlabHeader, "resolved">>;  // At offset 0
+  config: StructSchema<MarketConfig>;  // Starts at HEADER_LEN
+  engineOff: number;     // RiskEngine start
+  engine: StructSchema<EngineState>;
+  paramsOff: number;
+  params: StructSchema<RiskParams>;
+  bitmapOff: number;     // Used bitmap, one bit per account
+  accountsOff: number;   // accounts: [Account; maxAccounts]
+  maxAccounts: number;
+  account: StructSchema<Account>;
+}
+
+/**
+ * Haircut-ratio layout (2026-02).
+ * The ADL/socialization system was replaced with O(1) haircut ratio.
+ * Removed: loss_accum, risk_reduction_only, warmup_paused, warmed totals,
+ *          adl_*_scratch arrays, pending_* deferred socialization fields.
+ * Added: c_tot, pnl_pos_tot (O(1) aggregates for haircut calculation).
+ */
+const LAYOUT_V1_HAIRCUT: SlabLayout = {
+  name: "v1-haircut",
+  version: 1,
+  slabLen: 992560,
+  header: HEADER_SCHEMA,
+  config: CONFIG_SCHEMA_V1,
+  engineOff: 392,           // HEADER_LEN + CONFIG_LEN = 72 + 320
+  engine: ENGINE_SCHEMA_V1,
+  paramsOff: 48,            // After vault + insurance_fund
+  params: PARAMS_SCHEMA_V1,
+  bitmapOff: 408,
+  // free_head: u16 at 936, next_free: [u16; 4096] at 944-9135, then 8 bytes padding for u128 alignment
+  accountsOff: 9136,
+  maxAccounts: 4096,
+  account: ACCOUNT_SCHEMA_V1,
+};
+
+/**
+ * Every slab layout this CLI can read, newest first.
+ */
+export const SLAB_LAYOUTS: readonly SlabLayout[] = [LAYOUT_V1_HAIRCUT];
+
+/**
+ * Layout of slabs created by the current program.
+ */
+export const CURRENT_SLAB_LAYOUT: SlabLayout = SLAB_LAYOUTS[0];
+
+/**
+ * Account size for new slabs (current program version).
+ */
+export const SLAB_SIZE = CURRENT_SLAB_LAYOUT.slabLen;
+
+/**
+ * Find the layout for a slab from its header version and data length.
+ * Data length only disambiguates between layouts sharing a version, so
+ * truncated reads still resolve. Throws on versions this CLI doesn't know.
+ */
+export function slabLayout(data: Buffer): SlabLayout {
+  const { version } = parseHeader(data);
+  const candidates = SLAB_LAYOUTS.filter((l) => l.version === version);
+  if (candidates.length === 0) {
+    const known = [...new Set(SLAB_LAYOUTS.map((l) => l.version))].join(", ");
+    throw new Error(
+      `Unsupported slab version ${version} (this CLI reads versions: ${known}). ` +
+        "The program may have been upgraded; update the CLI."
+    );
+  }
+  if (candidates.length === 1) return candidates[0];
+
+  const match = candidates.find((l) => l.slabLen === data.length);
+  if (!match) {
+    const sizes = candidates.map((l) => `${l.slabLen} (${l.name})`).join(", ");
+    throw new Error(
+      `Unrecognized slab size ${data.length} for version ${version} (known sizes: ${sizes})`
+    );
+  }
+  return match;
+}
+
+/**
+ * Fetch raw slab account data.
+ */
+export async function fetchSlab(
+  connection: Connection,
+  slabPubkey: PublicKey
+): Promise<Buffer> {
+  const info = await connection.getAccountInfo(slabPubkey);
+  if (!info) {
+    throw new Error(`Slab account not found: ${slabPubkey.toBase58()}`);
+  }
+  return Buffer.from(info.data);
+}
+
+/**
+ * Fetch every slab owned by the program, i.e. all of its markets.
+ * Matches every known layout's size; accounts without the PERCOLAT magic are dropped.
+ */
+export async function fetchAllSlabs(
+  connection: Connection,
+  programId: PublicKey
+): Promise<{ pubkey: PublicKey; account: AccountInfo<Buffer> }[]> {
+  const sizes = [...new Set(SLAB_LAYOUTS.map((l) => l.slabLen))];
+  let accounts;
+  try {
+    const bySize = await Promise.all(
+      sizes.map((size) =>
+        connection.getProgramAccounts(programId, { filters: [{ dataSize: size }] })
+      )
+    );
+    accounts = bySize.flat();
+  } catch {
+    // Fallback with memcmp filter
+    accounts = await connection.getProgramAccounts(programId, {
+      filters: [{ memcmp: { offset: 0, bytes: PERCOLAT_MAGIC.toString("base64") } }],
+    });
+  }
+
+  return accounts.filter(({ account }) => {
+    if (account.data.length < 8) return false;
+    return account.data.subarray(0, 8).equals(PERCOLAT_MAGIC);
+  });
+}
+
+/**
+ * Parse slab header (first 72 bytes).
+ */
+export function parseHeader(data: Buffer): SlabHeader {
+  if (data.length < HEADER_LEN) {
+    throw new Error(`Slab data too short for header: ${data.length} < ${HEADER_LEN}`);
+  }
+
+  const header = HEADER_SCHEMA.decode(data);
+  if (header.magic !== MAGIC) {
+    throw new Error(`Invalid slab magic: expected ${MAGIC.toString(16)}, got ${header.magic.toString(16)}`);
+  }
+
+  return {
+    ...header,
+    resolved: (header.flags & FLAG_RESOLVED) !== 0,
+  };
+}
+
+/**
+ * Parse market config (starts at byte 72).
+ */
+export function parseConfig(data: Buffer): MarketConfig {
+  const schema = slabLayout(data).config;
+  const minLen = HEADER_LEN + schema.size;
+  if (data.length < minLen) {
+    throw new Error(`Slab data too short for config: ${data.length} < ${minLen}`);
+  }
+  return schema.decode(data, HEADER_LEN);
+}
+
+/**
+ * Read nonce from slab header reserved field.
+ */
+export function readNonce(data: Buffer): bigint {
+  const off = HEADER_SCHEMA.offsets.nonce;
+  if (data.length < off + 8) {
+    throw new Error("Slab data too short for nonce");
   }
-  return unsigned;
+  return data.readBigUInt64LE(off);
 }
 
-function readU128LE(buf: Buffer, offset: number): bigint {
-  const lo = buf.readBigUInt64LE(offset);
-  const hi = buf.readBigUInt64LE(offset + 8);
-  return (hi << 64n) | lo;
+/**
+ * Read last threshold update slot from slab header reserved field.
+ */
+export function readLastThrUpdateSlot(data: Buffer): bigint {
+  const off = HEADER_SCHEMA.offsets.lastThrUpdateSlot;
+  if (data.length < off + 8) {
+    throw new Error("Slab data too short for lastThrUpdateSlot");
+  }
+  return data.readBigUInt64LE(off);
 }
 
 // =============================================================================
@@ -471,81 +483,38 @@ function readU128LE(buf: Buffer, offset: number): bigint {
  * Note: invert/unitScale are in MarketConfig, not RiskParams.
  */
 export function parseParams(data: Buffer): RiskParams {
-  const base = ENGINE_OFF + ENGINE_PARAMS_OFF;
-  if (data.length < base + 160) {  // RiskParams is 160 bytes with repr(C) padding
+  const layout = slabLayout(data);
+  const base = layout.engineOff + layout.paramsOff;
+  if (data.length < base + layout.params.size) {
     throw new Error("Slab data too short for RiskParams");
   }
-
-  return {
-    warmupPeriodSlots: data.readBigUInt64LE(base + PARAMS_WARMUP_PERIOD_OFF),
-    maintenanceMarginBps: data.readBigUInt64LE(base + PARAMS_MAINTENANCE_MARGIN_OFF),
-    initialMarginBps: data.readBigUInt64LE(base + PARAMS_INITIAL_MARGIN_OFF),
-    tradingFeeBps: data.readBigUInt64LE(base + PARAMS_TRADING_FEE_OFF),
-    maxAccounts: data.readBigUInt64LE(base + PARAMS_MAX_ACCOUNTS_OFF),
-    newAccountFee: readU128LE(data, base + PARAMS_NEW_ACCOUNT_FEE_OFF),
-    riskReductionThreshold: readU128LE(data, base + PARAMS_RISK_THRESHOLD_OFF),
-    maintenanceFeePerSlot: readU128LE(data, base + PARAMS_MAINTENANCE_FEE_OFF),
-    maxCrankStalenessSlots: data.readBigUInt64LE(base + PARAMS_MAX_CRANK_STALENESS_OFF),
-    liquidationFeeBps: data.readBigUInt64LE(base + PARAMS_LIQUIDATION_FEE_BPS_OFF),
-    liquidationFeeCap: readU128LE(data, base + PARAMS_LIQUIDATION_FEE_CAP_OFF),
-    liquidationBufferBps: data.readBigUInt64LE(base + PARAMS_LIQUIDATION_BUFFER_OFF),
-    minLiquidationAbs: readU128LE(data, base + PARAMS_MIN_LIQUIDATION_OFF),
-  };
+  return layout.params.decode(data, base);
 }
 
 /**
  * Parse RiskEngine state (excluding accounts array).
  */
 export function parseEngine(data: Buffer): EngineState {
-  const base = ENGINE_OFF;
-  if (data.length < base + ENGINE_ACCOUNTS_OFF) {
+  const layout = slabLayout(data);
+  if (data.length < layout.engineOff + layout.accountsOff) {
     throw new Error("Slab data too short for RiskEngine");
   }
-
-  return {
-    vault: readU128LE(data, base + ENGINE_VAULT_OFF),
-    insuranceFund: {
-      balance: readU128LE(data, base + ENGINE_INSURANCE_OFF),
-      feeRevenue: readU128LE(data, base + ENGINE_INSURANCE_OFF + 16),
-    },
-    currentSlot: data.readBigUInt64LE(base + ENGINE_CURRENT_SLOT_OFF),
-    fundingIndexQpbE6: readI128LE(data, base + ENGINE_FUNDING_INDEX_OFF),
-    lastFundingSlot: data.readBigUInt64LE(base + ENGINE_LAST_FUNDING_SLOT_OFF),
-    fundingRateBpsPerSlotLast: data.readBigInt64LE(base + ENGINE_FUNDING_RATE_BPS_OFF),
-    lastCrankSlot: data.readBigUInt64LE(base + ENGINE_LAST_CRANK_SLOT_OFF),
-    maxCrankStalenessSlots: data.readBigUInt64LE(base + ENGINE_MAX_CRANK_STALENESS_OFF),
-    totalOpenInterest: readU128LE(data, base + ENGINE_TOTAL_OI_OFF),
-    cTot: readU128LE(data, base + ENGINE_C_TOT_OFF),
-    pnlPosTot: readU128LE(data, base + ENGINE_PNL_POS_TOT_OFF),
-    liqCursor: data.readUInt16LE(base + ENGINE_LIQ_CURSOR_OFF),
-    gcCursor: data.readUInt16LE(base + ENGINE_GC_CURSOR_OFF),
-    lastSweepStartSlot: data.readBigUInt64LE(base + ENGINE_LAST_SWEEP_START_OFF),
-    lastSweepCompleteSlot: data.readBigUInt64LE(base + ENGINE_LAST_SWEEP_COMPLETE_OFF),
-    crankCursor: data.readUInt16LE(base + ENGINE_CRANK_CURSOR_OFF),
-    sweepStartIdx: data.readUInt16LE(base + ENGINE_SWEEP_START_IDX_OFF),
-    lifetimeLiquidations: data.readBigUInt64LE(base + ENGINE_LIFETIME_LIQUIDATIONS_OFF),
-    lifetimeForceCloses: data.readBigUInt64LE(base + ENGINE_LIFETIME_FORCE_CLOSES_OFF),
-    // LP Aggregates for funding rate calculation
-    netLpPos: readI128LE(data, base + ENGINE_NET_LP_POS_OFF),
-    lpSumAbs: readU128LE(data, base + ENGINE_LP_SUM_ABS_OFF),
-    lpMaxAbs: readU128LE(data, base + ENGINE_LP_MAX_ABS_OFF),
-    lpMaxAbsSweep: readU128LE(data, base + ENGINE_LP_MAX_ABS_SWEEP_OFF),
-    numUsedAccounts: data.readUInt16LE(base + ENGINE_NUM_USED_OFF),
-    nextAccountId: data.readBigUInt64LE(base + ENGINE_NEXT_ACCOUNT_ID_OFF),
-  };
+  return layout.engine.decode(data, layout.engineOff);
 }
 
 /**
  * Read bitmap to get list of used account indices.
  */
 export function parseUsedIndices(data: Buffer): number[] {
-  const base = ENGINE_OFF + ENGINE_BITMAP_OFF;
-  if (data.length < base + BITMAP_WORDS * 8) {
+  const layout = slabLayout(data);
+  const base = layout.engineOff + layout.bitmapOff;
+  const words = layout.maxAccounts / 64;
+  if (data.length < base + words * 8) {
     throw new Error("Slab data too short for bitmap");
   }
 
   const used: number[] = [];
-  for (let word = 0; word < BITMAP_WORDS; word++) {
+  for (let word = 0; word < words; word++) {
     const bits = data.readBigUInt64LE(base + word * 8);
     if (bits === 0n) continue;
     for (let bit = 0; bit < 64; bit++) {
@@ -561,8 +530,9 @@ export function parseUsedIndices(data: Buffer): number[] {
  * Check if a specific account index is used.
  */
 export function isAccountUsed(data: Buffer, idx: number): boolean {
-  if (idx < 0 || idx >= MAX_ACCOUNTS) return false;
-  const base = ENGINE_OFF + ENGINE_BITMAP_OFF;
+  const layout = slabLayout(data);
+  if (idx < 0 || idx >= layout.maxAccounts) return false;
+  const base = layout.engineOff + layout.bitmapOff;
   const word = Math.floor(idx / 64);
   const bit = idx % 64;
   const bits = data.readBigUInt64LE(base + word * 8);
@@ -572,47 +542,69 @@ export function isAccountUsed(data: Buffer, idx: number): boolean {
 /**
  * Calculate the maximum valid account index for a given slab size.
  */
-export function maxAccountIndex(dataLen: number): number {
-  const accountsEnd = dataLen - ENGINE_OFF - ENGINE_ACCOUNTS_OFF;
+export function maxAccountIndex(dataLen: number, layout: SlabLayout = CURRENT_SLAB_LAYOUT): number {
+  const accountsEnd = dataLen - layout.engineOff - layout.accountsOff;
   if (accountsEnd <= 0) return 0;
-  return Math.floor(accountsEnd / ACCOUNT_SIZE);
+  return Math.floor(accountsEnd / layout.account.size);
 }
 
 /**
- * Parse a single account by index.
+ * Byte offset of an account in the slab, checking it fits.
  */
-export function parseAccount(data: Buffer, idx: number): Account {
-  const maxIdx = maxAccountIndex(data.length);
+function accountOffset(data: Buffer, layout: SlabLayout, idx: number): number {
+  const maxIdx = maxAccountIndex(data.length, layout);
   if (idx < 0 || idx >= maxIdx) {
     throw new Error(`Account index out of range: ${idx} (max: ${maxIdx - 1})`);
   }
 
-  const base = ENGINE_OFF + ENGINE_ACCOUNTS_OFF + idx * ACCOUNT_SIZE;
-  if (data.length < base + ACCOUNT_SIZE) {
+  const base = layout.engineOff + layout.accountsOff + idx * layout.account.size;
+  if (data.length < base + layout.account.size) {
     throw new Error("Slab data too short for account");
   }
+  return base;
+}
 
-  // Read the kind field directly from offset 24 (u8 with 7 bytes padding)
-  const kindByte = data.readUInt8(base + ACCT_KIND_OFF);
-  const kind = kindByte === 1 ? AccountKind.LP : AccountKind.User;
+/**
+ * Parse a single account by index.
+ */
+export function parseAccount(data: Buffer, idx: number): Account {
+  const layout = slabLayout(data);
+  const account = layout.account.decode(data, accountOffset(data, layout, idx));
+  // kind is a u8; anything but 1 reads as a User account
+  return { ...account, kind: account.kind === AccountKind.LP ? AccountKind.LP : AccountKind.User };
+}
 
-  return {
-    kind,
-    accountId: data.readBigUInt64LE(base + ACCT_ACCOUNT_ID_OFF),
-    capital: readU128LE(data, base + ACCT_CAPITAL_OFF),
-    pnl: readI128LE(data, base + ACCT_PNL_OFF),
-    reservedPnl: data.readBigUInt64LE(base + ACCT_RESERVED_PNL_OFF),  // u64
-    warmupStartedAtSlot: data.readBigUInt64LE(base + ACCT_WARMUP_STARTED_OFF),
-    warmupSlopePerStep: readU128LE(data, base + ACCT_WARMUP_SLOPE_OFF),
-    positionSize: readI128LE(data, base + ACCT_POSITION_SIZE_OFF),
-    entryPrice: data.readBigUInt64LE(base + ACCT_ENTRY_PRICE_OFF),
-    fundingIndex: readI128LE(data, base + ACCT_FUNDING_INDEX_OFF),
-    matcherProgram: new PublicKey(data.subarray(base + ACCT_MATCHER_PROGRAM_OFF, base + ACCT_MATCHER_PROGRAM_OFF + 32)),
-    matcherContext: new PublicKey(data.subarray(base + ACCT_MATCHER_CONTEXT_OFF, base + ACCT_MATCHER_CONTEXT_OFF + 32)),
-    owner: new PublicKey(data.subarray(base + ACCT_OWNER_OFF, base + ACCT_OWNER_OFF + 32)),
-    feeCredits: readI128LE(data, base + ACCT_FEE_CREDITS_OFF),
-    lastFeeSlot: data.readBigUInt64LE(base + ACCT_LAST_FEE_SLOT_OFF),
-  };
+/**
+ * Used accounts owned by a wallet, optionally restricted to one kind.
+ */
+export function findAccountsByOwner(
+  data: Buffer,
+  owner: PublicKey,
+  kind?: AccountKind
+): { idx: number; account: Account }[] {
+  return parseAllAccounts(data).filter(
+    ({ account }) => account.owner.equals(owner) && (kind === undefined || account.kind === kind)
+  );
+}
+
+/**
+ * Index of the wallet's User account in this slab.
+ * Throws if the wallet owns none, or several (listing them and naming `flag`).
+ */
+export function findUserIdx(data: Buffer, owner: PublicKey, flag = "--user-idx"): number {
+  const matches = findAccountsByOwner(data, owner, AccountKind.User);
+  if (matches.length === 0) {
+    throw new Error(`No User account owned by ${owner.toBase58()} in this slab (run init-user first)`);
+  }
+  if (matches.length > 1) {
+    const list = matches
+      .map(({ idx, account }) => `  ${idx}  capital=${account.capital} position=${account.positionSize}`)
+      .join("\n");
+    throw new Error(
+      `${owner.toBase58()} owns ${matches.length} User accounts in this slab; pass ${flag} to pick one:\n${list}`
+    );
+  }
+  return matches[0].idx;
 }
 
 /**
@@ -621,10 +613,97 @@ export function parseAccount(data: Buffer, idx: number): Account {
  */
 export function parseAllAccounts(data: Buffer): { idx: number; account: Account }[] {
   const indices = parseUsedIndices(data);
-  const maxIdx = maxAccountIndex(data.length);
+  const maxIdx = maxAccountIndex(data.length, slabLayout(data));
   const validIndices = indices.filter(idx => idx < maxIdx);
   return validIndices.map(idx => ({
     idx,
     account: parseAccount(data, idx),
   }));
 }
+
+// =============================================================================
+// Writing Functions
+// Build synthetic slabs (tests, simulations) from typed objects. Each writer
+// sets only the fields given and leaves the rest of the buffer as it is.
+// =============================================================================
+
+/**
+ * Write the slab header. Magic defaults to PERCOLAT and version to the current layout's.
+ * `resolved` sets or clears the resolved flag bit.
+ */
+export function writeHeader(data: Buffer, header: Partial<SlabHeader>): void {
+  const { resolved, ...fields } = header;
+  const value: Partial<Omit<SlabHeader, "resolved">> = {
+    magic: MAGIC,
+    version: CURRENT_SLAB_LAYOUT.version,
+    ...fields,
+  };
+  if (resolved !== undefined) {
+    const flags = value.flags ?? (data.length > 13 ? data.readUInt8(13) : 0);
+    value.flags = resolved ? flags | FLAG_RESOLVED : flags & ~FLAG_RESOLVED;
+  }
+  HEADER_SCHEMA.encode(value, data);
+}
+
+/**
+ * Write market config fields. The header must already be written (it selects the layout).
+ */
+export function writeConfig(data: Buffer, config: Partial<MarketConfig>): void {
+  slabLayout(data).config.encode(config, data, HEADER_LEN);
+}
+
+/**
+ * Write RiskParams fields.
+ */
+export function writeParams(data: Buffer, params: Partial<RiskParams>): void {
+  const layout = slabLayout(data);
+  layout.params.encode(params, data, layout.engineOff + layout.paramsOff);
+}
+
+/**
+ * Write RiskEngine state fields.
+ */
+export function writeEngine(data: Buffer, engine: Partial<EngineState>): void {
+  const layout = slabLayout(data);
+  layout.engine.encode(engine, data, layout.engineOff);
+}
+
+/**
+ * Write an account's fields and mark its index used in the bitmap.
+ */
+export function writeAccount(data: Buffer, idx: number, account: Partial<Account>): void {
+  const layout = slabLayout(data);
+  layout.account.encode(account, data, accountOffset(data, layout, idx));
+
+  const wordOff = layout.engineOff + layout.bitmapOff + Math.floor(idx / 64) * 8;
+  const bits = data.readBigUInt64LE(wordOff);
+  data.writeBigUInt64LE(bits | (1n << BigInt(idx % 64)), wordOff);
+}
+
+/**
+ * Contents of a synthetic slab; omitted fields are zero.
+ */
+export interface SlabContents {
+  header?: Partial<SlabHeader>;
+  config?: Partial<MarketConfig>;
+  params?: Partial<RiskParams>;
+  engine?: Partial<EngineState>;
+  accounts?: { idx: number; account: Partial<Account> }[];
+}
+
+/**
+ * Build a full-size slab buffer for a layout.
+ * numUsedAccounts defaults to the number of accounts given.
+ */
+export function buildSlab(contents: SlabContents, layout: SlabLayout = CURRENT_SLAB_LAYOUT): Buffer {
+  const data = Buffer.alloc(layout.slabLen);
+  writeHeader(data, { version: layout.version, ...contents.header });
+  if (contents.config) writeConfig(data, contents.config);
+  if (contents.params) writeParams(data, contents.params);
+  const accounts = contents.accounts ?? [];
+  writeEngine(data, { numUsedAccounts: accounts.length, ...contents.engine });
+  for (const { idx, account } of accounts) {
+    writeAccount(data, idx, account);
+  }
+  return data;
+}
@@ -0,0 +1,168 @@
+/**
+ * Declarative little-endian struct schemas for on-chain account data.
+ * A schema lists fields in order (repr(C), explicit padding) and provides a
+ * matching decoder and encoder, so parsing and building buffers share one
+ * definition of the layout.
+ */
+
+import { PublicKey } from "@solana/web3.js";
+import {
+  encU8,
+  encU16,
+  encU32,
+  encU64,
+  encI64,
+  encU128,
+  encI128,
+  encPubkey,
+} from "../abi/encode.js";
+
+export type ScalarType = "u8" | "u16" | "u32" | "u64" | "i64" | "u128" | "i128" | "pubkey";
+
+const SCALAR_SIZES: Record<ScalarType, number> = {
+  u8: 1,
+  u16: 2,
+  u32: 4,
+  u64: 8,
+  i64: 8,
+  u128: 16,
+  i128: 16,
+  pubkey: 32,
+};
+
+/**
+ * One entry of a schema's field list: a named field, or padding (name null).
+ */
+export interface StructMember {
+  readonly name: string | null;
+  readonly type: ScalarType | StructSchema<unknown> | null;
+  readonly offset: number;
+  readonly size: number;
+}
+
+export interface StructSchema<T> {
+  /** Total size in bytes, including padding */
+  readonly size: number;
+  /** Offset of each named field from the start of the struct */
+  readonly offsets: Readonly<Record<keyof T, number>>;
+  /** Fields and padding in layout order */
+  readonly members: readonly StructMember[];
+  /** Read the struct at `offset` */
+  decode(data: Buffer, offset?: number): T;
+  /** Write the given fields at `offset`; omitted fields and padding are left untouched */
+  encode(value: Partial<T>, data: Buffer, offset?: number): void;
+}
+
+/**
+ * A named field (scalar or nested struct), or anonymous padding.
+ */
+export type StructField<T> =
+  | { [K in keyof T]: readonly [K, ScalarType | StructSchema<T[K]>] }[keyof T]
+  | { pad: number };
+
+/**
+ * Padding bytes between fields (alignment or reserved space).
+ */
+export function pad(bytes: number): { pad: number } {
+  return { pad: bytes };
+}
+
+// Read both halves as unsigned (matches Rust's U128/I128 wrappers)
+function readU128LE(buf: Buffer, offset: number): bigint {
+  const lo = buf.readBigUInt64LE(offset);
+  const hi = buf.readBigUInt64LE(offset + 8);
+  return (hi << 64n) | lo;
+}
+
+function readI128LE(buf: Buffer, offset: number): bigint {
+  const unsigned = readU128LE(buf, offset);
+  // If high bit is set, convert to negative (two's complement)
+  return unsigned >= 1n << 127n ? unsigned - (1n << 128n) : unsigned;
+}
+
+function readScalar(type: ScalarType, data: Buffer, off: number): unknown {
+  switch (type) {
+    case "u8": return data.readUInt8(off);
+    case "u16": return data.readUInt16LE(off);
+    case "u32": return data.readUInt32LE(off);
+    case "u64": return data.readBigUInt64LE(off);
+    case "i64": return data.readBigInt64LE(off);
+    case "u128": return readU128LE(data, off);
+    case "i128": return readI128LE(data, off);
+    case "pubkey": return new PublicKey(data.subarray(off, off + 32));
+  }
+}
+
+function encodeScalar(type: ScalarType, value: unknown): Buffer {
+  switch (type) {
+    case "u8": return encU8(value as number);
+    case "u16": return encU16(value as number);
+    case "u32": return encU32(value as number);
+    case "u64": return encU64(value as bigint);
+    case "i64": return encI64(value as bigint);
+    case "u128": return encU128(value as bigint);
+    case "i128": return encI128(value as bigint);
+    case "pubkey": return encPubkey(value as PublicKey);
+  }
+}
+
+/**
+ * Build a schema from an ordered field list. Offsets are assigned
+ * sequentially, so alignment padding must be spelled out with pad().
+ */
+export function struct<T>(fields: readonly StructField<T>[]): StructSchema<T> {
+  const entries: { name: string; type: ScalarType | StructSchema<unknown>; offset: number }[] = [];
+  const members: StructMember[] = [];
+  const offsets: Record<string, number> = {};
+  let size = 0;
+
+  for (const field of fields) {
+    if ("pad" in field) {
+      members.push({ name: null, type: null, offset: size, size: field.pad });
+      size += field.pad;
+      continue;
+    }
+    const [name, type] = field as readonly [string, ScalarType | StructSchema<unknown>];
+    const fieldSize = typeof type === "string" ? SCALAR_SIZES[type] : type.size;
+    entries.push({ name, type, offset: size });
+    members.push({ name, type, offset: size, size: fieldSize });
+    offsets[name] = size;
+    size += fieldSize;
+  }
+
+  const checkBounds = (data: Buffer, offset: number) => {
+    if (data.length < offset + size) {
+      throw new Error(`Buffer too short for struct: need ${offset + size} bytes, got ${data.length}`);
+    }
+  };
+
+  return {
+    size,
+    offsets: offsets as Record<keyof T, number>,
+    members,
+    decode(data: Buffer, offset = 0): T {
+      checkBounds(data, offset);
+      const out: Record<string, unknown> = {};
+      for (const e of entries) {
+        out[e.name] =
+          typeof e.type === "string"
+            ? readScalar(e.type, data, offset + e.offset)
+            : e.type.decode(data, offset + e.offset);
+      }
+      return out as T;
+    },
+    encode(value: Partial<T>, data: Buffer, offset = 0): void {
+      checkBounds(data, offset);
+      const fieldValues = value as Record<string, unknown>;
+      for (const e of entries) {
+        const v = fieldValues[e.name];
+        if (v === undefined) continue;
+        if (typeof e.type === "string") {
+          encodeScalar(e.type, v).copy(data, offset + e.offset);
+        } else {
+          e.type.encode(v as Partial<unknown>, data, offset + e.offset);
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,93 @@
+/**
+ * The adaptive risk-reduction threshold, mirroring the keeper crank. At most
+ * once per threshUpdateIntervalSlots the crank moves the threshold toward a
+ * target set by LP risk: an EWMA with weight threshAlphaBps on the target,
+ * limited to threshStepBps of the current value (at least threshMinStep) per
+ * update, and kept within [threshMin, threshMax].
+ *
+ * The market is risk-reduction only while the insurance balance is at or
+ * below the threshold.
+ */
+
+import { MarketConfig, EngineState } from "./solana/slab.js";
+
+const PRICE_SCALE = 1_000_000n;
+const BPS = 10_000n;
+
+export type ThresholdParams = Pick<
+  MarketConfig,
+  | "threshFloor"
+  | "threshRiskBps"
+  | "threshUpdateIntervalSlots"
+  | "threshStepBps"
+  | "threshAlphaBps"
+  | "threshMin"
+  | "threshMax"
+  | "threshMinStep"
+>;
+
+const clamp = (x: bigint, lo: bigint, hi: bigint) => (x < lo ? lo : x > hi ? hi : x);
+
+/**
+ * LP risk in position units: the largest LP position plus an eighth of all LP positions.
+ */
+export function riskUnits(engine: Pick<EngineState, "lpMaxAbs" | "lpSumAbs">): bigint {
+  return engine.lpMaxAbs + engine.lpSumAbs / 8n;
+}
+
+/**
+ * Threshold the crank steers toward: floor + riskBps of the risk notional, within [min, max].
+ */
+export function thresholdTarget(params: ThresholdParams, units: bigint, priceE6: bigint): bigint {
+  const notional = (units * priceE6) / PRICE_SCALE;
+  return clamp(params.threshFloor + (notional * params.threshRiskBps) / BPS, params.threshMin, params.threshMax);
+}
+
+/**
+ * One threshold update from the current value toward a target.
+ */
+export function nextThreshold(params: ThresholdParams, current: bigint, target: bigint): bigint {
+  const alpha = params.threshAlphaBps > BPS ? BPS : params.threshAlphaBps;
+  const smoothed = (alpha * target + (BPS - alpha) * current) / BPS;
+
+  const pctStep = (current * params.threshStepBps) / BPS;
+  const maxStep = pctStep > params.threshMinStep ? pctStep : params.threshMinStep;
+  let next = current;
+  if (smoothed > current) {
+    next = current + (smoothed - current < maxStep ? smoothed - current : maxStep);
+  } else if (smoothed < current) {
+    next = current - (current - smoothed < maxStep ? current - smoothed : maxStep);
+  }
+  return clamp(next, params.threshMin, params.threshMax);
+}
+
+export interface ThresholdUpdate {
+  slot: bigint;
+  target: bigint;
+  threshold: bigint;
+}
+
+/**
+ * The next `count` updates from `fromSlot`, assuming a crank at every slot an
+ * update is due and LP risk and price unchanged throughout.
+ */
+export function simulateThreshold(
+  params: ThresholdParams,
+  state: { threshold: bigint; lastUpdateSlot: bigint; riskUnits: bigint; priceE6: bigint },
+  fromSlot: bigint,
+  count: number
+): ThresholdUpdate[] {
+  const interval = params.threshUpdateIntervalSlots > 0n ? params.threshUpdateIntervalSlots : 1n;
+  const due = state.lastUpdateSlot + params.threshUpdateIntervalSlots;
+  const target = thresholdTarget(params, state.riskUnits, state.priceE6);
+
+  const updates: ThresholdUpdate[] = [];
+  let slot = due > fromSlot ? due : fromSlot;
+  let threshold = state.threshold;
+  for (let i = 0; i < count; i++) {
+    threshold = nextThreshold(params, threshold, target);
+    updates.push({ slot, target, threshold });
+    slot += interval;
+  }
+  return updates;
+}
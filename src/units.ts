@@ -0,0 +1,70 @@
+/**
+ * Conversions between engine amounts, collateral base units and display strings.
+ *
+ * The engine keeps balances in "units": collateral base units divided by the
+ * market's unit_scale (0 = no scaling, engine units are base units).
+ */
+
+/**
+ * Format an integer amount with the given number of decimal places,
+ * trimming trailing zeros (e.g. 1500000000n, 9 -> "1.5").
+ */
+export function formatUnits(amount: bigint, decimals: number): string {
+  const negative = amount < 0n;
+  const abs = negative ? -amount : amount;
+  const base = 10n ** BigInt(decimals);
+  const whole = abs / base;
+  const frac = (abs % base).toString().padStart(decimals, "0").replace(/0+$/, "");
+  return `${negative ? "-" : ""}${whole}${frac ? `.${frac}` : ""}`;
+}
+
+/**
+ * Engine units to collateral base units.
+ */
+export function fromEngineUnits(units: bigint, unitScale: number): bigint {
+  return unitScale > 0 ? units * BigInt(unitScale) : units;
+}
+
+/**
+ * Collateral base units to engine units. Throws if the amount is not a whole
+ * number of engine units.
+ */
+export function toEngineUnits(baseUnits: bigint, unitScale: number): bigint {
+  if (unitScale <= 0) return baseUnits;
+  const scale = BigInt(unitScale);
+  if (baseUnits % scale !== 0n) {
+    throw new Error(
+      `Amount ${baseUnits} is not a multiple of the market's unit scale (${unitScale} base units per engine unit)`
+    );
+  }
+  return baseUnits / scale;
+}
+
+/**
+ * Format an e2bps value (0.01 bps, 1_000_000 = 100%) as a percent.
+ */
+export function formatE2bpsPercent(e2bps: bigint): string {
+  return `${formatUnits(e2bps, 4)}%`;
+}
+
+/**
+ * Format a bps value (10_000 = 100%) as a percent.
+ */
+export function formatBpsPercent(bps: bigint): string {
+  return `${formatUnits(bps, 2)}%`;
+}
+
+/** Approximate slot time on mainnet and devnet */
+export const SLOT_MS = 400;
+
+/**
+ * Format a number of slots as an approximate wall-clock duration (e.g. "~1h 5m").
+ */
+export function formatSlotDuration(slots: bigint): string {
+  const seconds = Number(slots) * (SLOT_MS / 1000);
+  if (seconds < 60) return `~${Math.ceil(seconds)}s`;
+  const minutes = Math.ceil(seconds / 60);
+  if (minutes < 60) return `~${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  return hours < 48 ? `~${hours}h ${minutes % 60}m` : `~${Math.floor(hours / 24)}d ${hours % 24}h`;
+}
@@ -211,3 +211,25 @@ export function validateU16(value: string, field: string): number {
   }
   return num;
 }
+
+/**
+ * Validate a non-negative decimal amount (e.g. "1.5") and scale it to an
+ * integer with the given number of decimal places.
+ */
+export function validateDecimal(value: string, decimals: number, field: string): bigint {
+  const match = /^(\d*)(?:\.(\d*))?$/.exec(value.trim());
+  if (!match || (match[1] === "" && !match[2])) {
+    throw new ValidationError(
+      field,
+      `"${value}" is not a valid number. Use decimal digits with an optional decimal point.`
+    );
+  }
+  const [, whole, frac = ""] = match;
+  if (frac.length > decimals) {
+    throw new ValidationError(
+      field,
+      `has more than ${decimals} decimal places, got ${value}`
+    );
+  }
+  return BigInt((whole || "0") + frac.padEnd(decimals, "0"));
+}
@@ -0,0 +1,85 @@
+/**
+ * PnL warmup: positive PnL becomes withdrawable gradually, at
+ * warmupSlopePerStep per slot from warmupStartedAtSlot (the engine sets the
+ * slope so a fresh balance takes about warmupPeriodSlots). Reserved PnL does
+ * not warm. Withdrawing more than capital plus warmed PnL fails with
+ * EnginePnlNotWarmedUp.
+ *
+ * These are estimates from the account as last written: the engine restarts
+ * warmup with a new slope whenever the account's PnL changes.
+ */
+
+import { Account } from "./solana/slab.js";
+import { HaircutRatio, realizablePnl } from "./health.js";
+
+type WarmupFields = Pick<Account, "capital" | "pnl" | "reservedPnl" | "warmupStartedAtSlot" | "warmupSlopePerStep">;
+
+export interface WarmupState {
+  slot: bigint;
+  positivePnl: bigint;
+  warmed: bigint;                  // Warmed and not yet reserved
+  unwarmed: bigint;                // Still warming, including reserved PnL
+  fullyWarmedSlot: bigint | null;  // null when nothing is warming, or no slope is set yet
+}
+
+/**
+ * Warmup progress at a slot.
+ */
+export function warmupState(account: WarmupFields, slot: bigint): WarmupState {
+  const positivePnl = account.pnl > 0n ? account.pnl : 0n;
+  const available = positivePnl > account.reservedPnl ? positivePnl - account.reservedPnl : 0n;
+  const elapsed = slot > account.warmupStartedAtSlot ? slot - account.warmupStartedAtSlot : 0n;
+  const cap = account.warmupSlopePerStep * elapsed;
+  const warmed = available < cap ? available : cap;
+
+  const slope = account.warmupSlopePerStep;
+  return {
+    slot,
+    positivePnl,
+    warmed,
+    unwarmed: positivePnl - warmed,
+    fullyWarmedSlot:
+      available > 0n && slope > 0n ? account.warmupStartedAtSlot + (available + slope - 1n) / slope : null,
+  };
+}
+
+/**
+ * Capital available to withdraw at a slot, in engine units: capital less
+ * unsettled losses, plus warmed PnL after the haircut. Margin on open
+ * positions is not considered.
+ */
+export function withdrawableAt(account: WarmupFields, haircut: HaircutRatio, slot: bigint): bigint {
+  const losses = account.pnl < 0n ? account.pnl : 0n;
+  const total = account.capital + losses + realizablePnl(warmupState(account, slot).warmed, haircut);
+  return total > 0n ? total : 0n;
+}
+
+/**
+ * First slot from `fromSlot` at which `amount` (engine units) is withdrawable,
+ * or null if warmup never releases that much.
+ */
+export function slotWhenWithdrawable(
+  account: WarmupFields,
+  haircut: HaircutRatio,
+  amount: bigint,
+  fromSlot: bigint
+): bigint | null {
+  if (withdrawableAt(account, haircut, fromSlot) >= amount) return fromSlot;
+  const fullSlot = warmupState(account, fromSlot).fullyWarmedSlot;
+  if (fullSlot === null || fullSlot <= fromSlot || withdrawableAt(account, haircut, fullSlot) < amount) {
+    return null;
+  }
+
+  // Withdrawable grows with the slot; bisect for the first one that covers the amount
+  let lo = fromSlot;
+  let hi = fullSlot;
+  while (hi - lo > 1n) {
+    const mid = (lo + hi) / 2n;
+    if (withdrawableAt(account, haircut, mid) >= amount) {
+      hi = mid;
+    } else {
+      lo = mid;
+    }
+  }
+  return hi;
+}
@@ -22,8 +22,13 @@ import {
   encodeSetRiskThreshold,
   encodeUpdateAdmin,
   encodeInitLP,
+  encodeUpdateConfig,
+  encodeSetOraclePriceCap,
+  encodeCloseSlab,
   IX_TAG,
 } from "../src/abi/instructions.js";
+import { decodeInstruction } from "../src/abi/decode.js";
+import { parseErrorFromLogs, decodeTxError, formatTxError } from "../src/abi/errors.js";
 
 function assert(cond: boolean, msg: string): void {
   if (!cond) throw new Error(`FAIL: ${msg}`);
@@ -352,6 +357,157 @@ console.log("\nTesting instruction encoders...\n");
   assert(data.length === 264, `InitMarket length: expected 264, got ${data.length}`);
   assert(data[0] === IX_TAG.InitMarket, "InitMarket tag byte");
   console.log("✓ encodeInitMarket");
+
+  const decoded = decodeInstruction(data, []);
+  assert(decoded.name === "InitMarket", "decode InitMarket name");
+  if (decoded.name === "InitMarket") {
+    assert((decoded.args.admin as PublicKey).equals(admin), "decode InitMarket admin");
+    assert(decoded.args.indexFeedId === indexFeedId, "decode InitMarket indexFeedId");
+    assert(decoded.args.confFilterBps === 50, "decode InitMarket confFilterBps");
+    assert(decoded.args.minLiquidationAbs === 1000000n, "decode InitMarket minLiquidationAbs");
+  }
+  console.log("✓ decodeInstruction InitMarket");
+}
+
+// Test decodeInstruction round trips and account labels
+{
+  const user = PublicKey.unique();
+  const slab = PublicKey.unique();
+  const trade = decodeInstruction(
+    encodeTradeCpi({ lpIdx: 3, userIdx: 7, size: "-123456789012345678901" }),
+    [user, PublicKey.unique(), slab]
+  );
+  assert(trade.name === "TradeCpi", "decode TradeCpi name");
+  if (trade.name === "TradeCpi") {
+    assert(trade.args.lpIdx === 3 && trade.args.userIdx === 7, "decode TradeCpi indices");
+    assert(trade.args.size === -123456789012345678901n, "decode TradeCpi negative size");
+  }
+  assert(trade.accounts[0].name === "user" && trade.accounts[0].signer, "TradeCpi account 0 label");
+  assert(trade.accounts[2].name === "slab" && trade.accounts[2].pubkey.equals(slab), "TradeCpi account 2 label");
+
+  const crank = decodeInstruction(encodeKeeperCrank({ callerIdx: 65535, allowPanic: true }), []);
+  assert(crank.name === "KeeperCrank" && crank.args.callerIdx === 65535 && crank.args.allowPanic === true, "decode KeeperCrank");
+
+  const cfg = decodeInstruction(
+    encodeUpdateConfig({
+      fundingHorizonSlots: "500",
+      fundingKBps: "100",
+      fundingInvScaleNotionalE6: "1000000000000",
+      fundingMaxPremiumBps: "-500",
+      fundingMaxBpsPerSlot: "5",
+      threshFloor: "0",
+      threshRiskBps: "50",
+      threshUpdateIntervalSlots: "10",
+      threshStepBps: "500",
+      threshAlphaBps: "1000",
+      threshMin: "0",
+      threshMax: "10000000000000000000",
+      threshMinStep: "1",
+    }),
+    []
+  );
+  assert(cfg.name === "UpdateConfig" && cfg.args.fundingMaxPremiumBps === -500n, "decode UpdateConfig i64");
+  assert(cfg.name === "UpdateConfig" && cfg.args.threshMax === 10000000000000000000n, "decode UpdateConfig u128");
+
+  const cap = decodeInstruction(encodeSetOraclePriceCap({ maxChangeE2bps: "10000" }), [user, slab, slab]);
+  assert(cap.name === "SetOraclePriceCap" && cap.args.maxChangeE2bps === 10000n, "decode SetOraclePriceCap");
+  assert(cap.accounts[2].name === "remaining[0]", "extra accounts labelled remaining[n]");
+
+  assert(decodeInstruction(encodeCloseSlab(), []).name === "CloseSlab", "decode CloseSlab");
+
+  let threw = false;
+  try {
+    decodeInstruction(Buffer.from([99]), []);
+  } catch {
+    threw = true;
+  }
+  assert(threw, "unknown tag throws");
+
+  threw = false;
+  try {
+    decodeInstruction(encodeDepositCollateral({ userIdx: 1, amount: "5" }).subarray(0, 5), []);
+  } catch {
+    threw = true;
+  }
+  assert(threw, "truncated data throws");
+  console.log("✓ decodeInstruction");
+}
+
+// Test error attribution from the log stack
+{
+  const PERC = "Perc1111111111111111111111111111111111111111";
+  const MATCHER = "Match111111111111111111111111111111111111111";
+  const TOKEN = "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA";
+  const BUDGET = "ComputeBudget111111111111111111111111111111";
+  const budgetLogs = [`Program ${BUDGET} invoke [1]`, `Program ${BUDGET} success`];
+
+  // A token failure propagated by Percolator is the token program's, not Percolator's 0x1
+  const token = parseErrorFromLogs([
+    ...budgetLogs,
+    `Program ${PERC} invoke [1]`,
+    `Program log: Instruction: DepositCollateral`,
+    `Program ${TOKEN} invoke [2]`,
+    `Program log: Error: insufficient funds`,
+    `Program ${TOKEN} failed: custom program error: 0x1`,
+    `Program ${PERC} failed: custom program error: 0x1`,
+  ]);
+  assert(token !== null && token.name === "InsufficientFunds", "token error name");
+  assert(token!.program === TOKEN && token!.programLabel === "SPL Token", "token error program");
+  assert(token!.kind === "insufficientFunds", "token insufficient funds kind");
+  assert(token!.instructionIndex === 1 && token!.depth === 2, "token error instruction index and depth");
+  assert(formatTxError(token!) === "SPL Token: InsufficientFunds (0x1) in instruction #1", "token error summary");
+
+  const perc = parseErrorFromLogs([
+    `Program ${PERC} invoke [1]`,
+    `Program ${PERC} failed: custom program error: 0xe`,
+  ]);
+  assert(perc!.name === "EngineUndercollateralized" && perc!.programLabel === "Percolator", "percolator error");
+  assert(formatTxError(perc!) === "EngineUndercollateralized (0xe) in instruction #0", "percolator summary");
+
+  // Matcher reached by CPI, with and without the program ID
+  const matcherLogs = [
+    `Program ${PERC} invoke [1]`,
+    `Program ${MATCHER} invoke [2]`,
+    `Program ${MATCHER} failed: invalid account data for instruction`,
+    `Program ${PERC} failed: invalid account data for instruction`,
+  ];
+  const matcher = parseErrorFromLogs(matcherLogs);
+  assert(matcher!.programLabel === "Matcher" && matcher!.name === "InvalidAccountData", "matcher error");
+  assert(matcher!.hint !== undefined, "matcher error hint");
+  assert(parseErrorFromLogs(matcherLogs, PERC)!.programLabel === "Matcher", "matcher error with program ID");
+  const custom = parseErrorFromLogs([
+    `Program ${PERC} invoke [1]`,
+    `Program ${MATCHER} invoke [2]`,
+    `Program ${MATCHER} failed: custom program error: 0xe`,
+  ]);
+  assert(custom!.name === "Unknown(14)", "matcher custom codes aren't read as Percolator's");
+
+  const compute = parseErrorFromLogs([
+    ...budgetLogs,
+    `Program ${PERC} invoke [1]`,
+    `Program ${PERC} consumed 200000 of 200000 compute units`,
+    `Program ${PERC} failed: exceeded CUs meter at BPF instruction #4321`,
+  ]);
+  assert(compute!.kind === "compute" && compute!.instructionIndex === 1, "compute exhaustion");
+
+  const lamports = parseErrorFromLogs([
+    `Program 11111111111111111111111111111111 invoke [1]`,
+    `Transfer: insufficient lamports 10, need 20`,
+    `Program 11111111111111111111111111111111 failed: custom program error: 0x1`,
+  ]);
+  assert(lamports!.kind === "insufficientFunds" && lamports!.programLabel === "System", "system insufficient lamports");
+  assert(lamports!.message.includes("need 20"), "insufficient lamports detail kept");
+
+  assert(parseErrorFromLogs([`Program ${PERC} invoke [1]`, `Program ${PERC} success`]) === null, "no failure");
+
+  // Without logs, fall back to the RPC error
+  const fee = decodeTxError("InsufficientFundsForFee", []);
+  assert(fee.kind === "insufficientFunds" && fee.hint !== undefined, "fee payer insufficient funds");
+  const ixErr = decodeTxError({ InstructionError: [2, { Custom: 3 }] }, []);
+  assert(ixErr.instructionIndex === 2 && ixErr.code === 3, "InstructionError fallback");
+  const budget = decodeTxError({ InstructionError: [0, "ComputationalBudgetExceeded"] }, []);
+  assert(budget.kind === "compute", "compute exhaustion from RPC error");
+  console.log("✓ error attribution");
 }
 
 console.log("\n✅ All tests passed!");
@@ -0,0 +1,300 @@
+import { AccountInfo, PublicKey } from "@solana/web3.js";
+import {
+  markPnl,
+  accountHealth,
+  liquidationPrice,
+  exposureAtRisk,
+  haircutRatio,
+  haircutBps,
+  realizablePnl,
+} from "../src/health.js";
+import {
+  parseOraclePrice,
+  toEnginePrice,
+  PYTH_RECEIVER_PROGRAM_ID,
+  CHAINLINK_STORE_PROGRAM_ID,
+} from "../src/solana/oracle.js";
+import { warmupState, withdrawableAt, slotWhenWithdrawable } from "../src/warmup.js";
+import { formatSlotDuration } from "../src/units.js";
+import { feeStateAt, slotWhenFeesConsume, feeProjection } from "../src/fees.js";
+import { riskUnits, thresholdTarget, nextThreshold, simulateThreshold } from "../src/threshold.js";
+import { fundingRateBpsPerSlot, fundingIndexAt, unsettledFunding, annualizedBps } from "../src/funding.js";
+
+function assert(cond: boolean, msg: string): void {
+  if (!cond) throw new Error(`FAIL: ${msg}`);
+}
+
+console.log("Testing account health...\n");
+
+const params = { initialMarginBps: 1000n, maintenanceMarginBps: 500n, liquidationBufferBps: 100n };
+// 1e8 size at 100.0 with 1e9 capital: 10x, exactly at the initial margin
+const long = { capital: 1_000_000_000n, pnl: 0n, positionSize: 100_000_000n, entryPrice: 100_000_000n };
+const short = { ...long, positionSize: -100_000_000n };
+
+// Test mark PnL (truncated toward zero, like the engine)
+{
+  assert(markPnl(100_000_000n, 100_000_000n, 101_000_000n) === 100_000_000n, "long gains when price rises");
+  assert(markPnl(-100_000_000n, 100_000_000n, 101_000_000n) === -100_000_000n, "short loses when price rises");
+  assert(markPnl(3n, 0n, 999_999n) === 2n && markPnl(-3n, 0n, 999_999n) === -2n, "truncates toward zero");
+  assert(markPnl(0n, 100_000_000n, 1n) === 0n, "flat has no mark PnL");
+  console.log("✓ markPnl");
+}
+
+// Test health at the entry price
+{
+  const h = accountHealth(long, params, 100_000_000n);
+  assert(h.equity === 1_000_000_000n, "equity");
+  assert(h.notional === 10_000_000_000n, "notional");
+  assert(h.marginRatioBps === 1000n, "margin ratio");
+  assert(h.initialMargin === 1_000_000_000n && h.maintenanceMargin === 500_000_000n, "requirements");
+  assert(h.freeCollateral === 0n && h.marginBuffer === 500_000_000n, "free collateral and buffer");
+  assert(!h.liquidatable, "not liquidatable");
+
+  const crashed = accountHealth(long, params, 80_000_000n);
+  assert(crashed.equity === 0n && crashed.liquidatable, "equity floors at zero and is liquidatable");
+
+  const flat = accountHealth({ ...long, positionSize: 0n }, params, 100_000_000n);
+  assert(flat.marginRatioBps === null && !flat.liquidatable && flat.freeCollateral === 1_000_000_000n, "flat account");
+  console.log("✓ accountHealth");
+}
+
+// Test the liquidation price is the exact crossing
+{
+  const liqLong = liquidationPrice(long, params)!;
+  assert(liqLong === 94_736_842n, `long liquidation price (got ${liqLong})`);
+  assert(accountHealth(long, params, liqLong).liquidatable, "long liquidatable at the price");
+  assert(!accountHealth(long, params, liqLong + 1n).liquidatable, "long safe just above it");
+
+  const liqShort = liquidationPrice(short, params)!;
+  assert(liqShort === 104_761_905n, `short liquidation price (got ${liqShort})`);
+  assert(accountHealth(short, params, liqShort).liquidatable, "short liquidatable at the price");
+  assert(!accountHealth(short, params, liqShort - 1n).liquidatable, "short safe just below it");
+
+  assert(liquidationPrice({ ...long, positionSize: 0n }, params) === null, "flat has none");
+  const overfunded = { ...long, capital: 100_000_000_000n };
+  assert(liquidationPrice(overfunded, params) === null, "fully collateralized long has none");
+
+  // A partial liquidation keeps what equity covers at maintenance plus the buffer
+  const atLiq = accountHealth(long, params, liqLong);
+  assert(atLiq.liquidationTarget === (atLiq.notional * 600n) / 10_000n, "target is maintenance plus buffer");
+  const kept = long.positionSize - atLiq.liquidationCloseSize;
+  assert(atLiq.liquidationCloseSize > 0n && atLiq.liquidationCloseSize < long.positionSize, "partial close");
+  const remaining = accountHealth({ ...long, positionSize: kept }, params, liqLong);
+  assert(atLiq.equity >= remaining.liquidationTarget, "remaining position meets the buffered target");
+  assert(accountHealth(long, params, 100_000_000n).liquidationCloseSize === 0n, "nothing closed while safe");
+  assert(accountHealth(long, params, 80_000_000n).liquidationCloseSize === long.positionSize, "no equity closes it all");
+  console.log("✓ liquidationPrice");
+}
+
+// Test exposure at risk under shocks
+{
+  const book = [long, short];
+  const calm = exposureAtRisk(book, params, 95_000_000n);
+  assert(calm.liquidatable === 0 && calm.longNotional === 0n && calm.shortNotional === 0n, "nothing at risk at -5%");
+
+  const down = exposureAtRisk(book, params, 90_000_000n);
+  assert(down.liquidatable === 1 && down.longNotional === 9_000_000_000n && down.shortNotional === 0n, "long at risk at -10%");
+  assert(down.shortfall === 0n, "no shortfall while equity covers the loss");
+
+  const up = exposureAtRisk(book, params, 110_000_000n);
+  assert(up.liquidatable === 1 && up.shortNotional === 11_000_000_000n && up.longNotional === 0n, "short at risk at +10%");
+
+  const crash = exposureAtRisk(book, params, 80_000_000n);
+  assert(crash.shortfall === 1_000_000_000n, "shortfall is the loss beyond capital");
+  console.log("✓ exposureAtRisk");
+}
+
+// Test the haircut ratio and realizable PnL
+{
+  const engine = (vault: bigint, cTot: bigint, insurance: bigint, pnlPosTot: bigint) => ({
+    vault,
+    cTot,
+    pnlPosTot,
+    insuranceFund: { balance: insurance, feeRevenue: 0n },
+  });
+
+  const backed = haircutRatio(engine(1_000n, 600n, 100n, 200n));
+  assert(backed.residual === 300n && haircutBps(backed) === 10_000n, "fully backed when residual covers positive PnL");
+  assert(realizablePnl(150n, backed) === 150n, "no haircut when fully backed");
+
+  const short = haircutRatio(engine(1_000n, 600n, 250n, 200n));
+  assert(short.residual === 150n && haircutBps(short) === 7_500n, "residual below positive PnL");
+  assert(realizablePnl(101n, short) === 75n, "positive PnL scaled, rounding down");
+  assert(realizablePnl(-40n, short) === -40n, "losses are not haircut");
+
+  const insolvent = haircutRatio(engine(500n, 600n, 100n, 200n));
+  assert(insolvent.residual === 0n && haircutBps(insolvent) === 0n, "residual floors at zero");
+
+  const noProfit = haircutRatio(engine(1_000n, 600n, 100n, 0n));
+  assert(haircutBps(noProfit) === 10_000n, "no positive PnL means no haircut");
+  console.log("✓ haircut ratio");
+}
+
+// Test PnL warmup and when an amount becomes withdrawable
+{
+  // 1000 PnL (100 reserved) warming at 10 per slot from slot 100
+  const acct = { capital: 500n, pnl: 1_000n, reservedPnl: 100n, warmupStartedAtSlot: 100n, warmupSlopePerStep: 10n };
+  const full = { residual: 0n, num: 1n, den: 1n };
+
+  const mid = warmupState(acct, 150n);
+  assert(mid.warmed === 500n && mid.unwarmed === 500n, "half warmed after 50 slots");
+  assert(mid.fullyWarmedSlot === 190n, "fully warmed once the unreserved PnL has warmed");
+  assert(warmupState(acct, 500n).warmed === 900n, "reserved PnL does not warm");
+  assert(warmupState(acct, 50n).warmed === 0n, "nothing warmed before the start");
+  assert(warmupState({ ...acct, warmupSlopePerStep: 0n }, 150n).fullyWarmedSlot === null, "no slope, no schedule");
+
+  assert(withdrawableAt(acct, full, 150n) === 1_000n, "capital plus warmed PnL");
+  assert(withdrawableAt(acct, { residual: 0n, num: 1n, den: 2n }, 150n) === 750n, "warmed PnL is haircut");
+  assert(withdrawableAt({ ...acct, pnl: -700n }, full, 150n) === 0n, "losses come off capital, floored at zero");
+
+  assert(slotWhenWithdrawable(acct, full, 400n, 150n) === 150n, "already withdrawable");
+  assert(slotWhenWithdrawable(acct, full, 1_201n, 150n) === 171n, "first slot covering the amount");
+  assert(withdrawableAt(acct, full, 170n) < 1_201n, "not a slot earlier");
+  assert(slotWhenWithdrawable(acct, full, 1_401n, 150n) === null, "more than capital plus all warmed PnL");
+  console.log("✓ warmup");
+}
+
+{
+  assert(formatSlotDuration(10n) === "~4s", "seconds");
+  assert(formatSlotDuration(1_000n) === "~7m", "minutes, rounded up");
+  assert(formatSlotDuration(9_150n) === "~1h 1m", "hours");
+  assert(formatSlotDuration(432_000n) === "~2d 0h", "days");
+  console.log("✓ formatSlotDuration");
+}
+
+// Test the funding rate projection, index accrual and settlement rounding
+{
+  const funding = {
+    fundingHorizonSlots: 500n,
+    fundingKBps: 100n,
+    fundingInvScaleNotionalE6: 1_000_000n,
+    fundingMaxPremiumBps: 5_000n,
+    fundingMaxBpsPerSlot: 5n,
+  };
+  // 1e6 LP long at 20.0: 20 notional, premium 2000 bps over 500 slots = 4 bps/slot
+  assert(fundingRateBpsPerSlot(funding, 1_000_000n, 20_000_000n) === 4n, "LP long: longs pay");
+  assert(fundingRateBpsPerSlot(funding, -1_000_000n, 20_000_000n) === -4n, "LP short: shorts pay");
+  assert(fundingRateBpsPerSlot(funding, 1_000_000n, 100_000_000n) === 5n, "clamped to the per-slot max");
+  assert(fundingRateBpsPerSlot(funding, -1_000_000n, 1_000_000n) === 0n, "truncates toward zero");
+  assert(fundingRateBpsPerSlot(funding, 0n, 20_000_000n) === 0n, "flat LP book pays nothing");
+  assert(fundingRateBpsPerSlot({ ...funding, fundingHorizonSlots: 0n }, 1_000_000n, 20_000_000n) === 0n, "no horizon");
+
+  const engine = { fundingIndexQpbE6: 1_000n, lastFundingSlot: 100n, fundingRateBpsPerSlotLast: 4n };
+  assert(fundingIndexAt(engine, 20_000_000n, 110n) === 81_000n, "index accrues price * rate * slots / 1e4");
+  assert(fundingIndexAt(engine, 20_000_000n, 90n) === 1_000n, "no accrual before the last funding slot");
+
+  const long = { positionSize: 3n, fundingIndex: 0n };
+  assert(unsettledFunding(long, 1_000_000n) === 3n, "long pays when the index rises");
+  assert(unsettledFunding(long, 500_000n) === 2n, "payments round up");
+  assert(unsettledFunding({ ...long, positionSize: -3n }, 500_000n) === -1n, "receipts round down");
+  assert(annualizedBps(1n) === 78_840_000n, "one bps per slot over a year");
+  console.log("✓ funding");
+}
+
+// Test the threshold target, EWMA and step limits, and the update schedule
+{
+  const thresh = {
+    threshFloor: 0n,
+    threshRiskBps: 50n,
+    threshUpdateIntervalSlots: 10n,
+    threshStepBps: 500n,
+    threshAlphaBps: 1000n,
+    threshMin: 0n,
+    threshMax: 10_000_000n,
+    threshMinStep: 1n,
+  };
+  assert(riskUnits({ lpMaxAbs: 1_000n, lpSumAbs: 1_600n }) === 1_200n, "largest LP plus an eighth of the sum");
+  // 2e9 units at 1.0: 2e9 notional, 0.5% of it
+  assert(thresholdTarget(thresh, 2_000_000_000n, 1_000_000n) === 10_000_000n, "target is riskBps of the notional");
+  assert(thresholdTarget(thresh, 4_000_000_000n, 1_000_000n) === 10_000_000n, "target capped at the max");
+  assert(thresholdTarget({ ...thresh, threshFloor: 5n }, 0n, 1_000_000n) === 5n, "floor with no LP risk");
+
+  assert(nextThreshold(thresh, 1_000_000n, 2_000_000n) === 1_050_000n, "EWMA move limited to the step");
+  assert(nextThreshold(thresh, 1_000_000n, 1_200_000n) === 1_020_000n, "EWMA move within the step");
+  assert(nextThreshold(thresh, 1_000_000n, 0n) === 950_000n, "falls by at most the step");
+  assert(nextThreshold(thresh, 0n, 1_000_000n) === 1n, "min step moves a zero threshold");
+
+  const updates = simulateThreshold(
+    thresh,
+    { threshold: 1_000_000n, lastUpdateSlot: 100n, riskUnits: 400_000_000n, priceE6: 1_000_000n },
+    105n,
+    3
+  );
+  assert(updates.map((u) => u.slot).join() === "110,120,130", "first update when due, then every interval");
+  assert(updates[0].target === 2_000_000n && updates[2].threshold === 1_157_625n, "compounding step limit");
+  assert(simulateThreshold(thresh, { threshold: 0n, lastUpdateSlot: 0n, riskUnits: 0n, priceE6: 1n }, 500n, 1)[0].slot === 500n, "overdue updates happen at the next crank");
+  console.log("✓ threshold");
+}
+
+// Test maintenance fee settlement and when fees drain the capital
+{
+  // 1000 capital and 100 credits, charged 10 per slot since slot 50
+  const idle = { capital: 1_000n, feeCredits: 100n, lastFeeSlot: 50n, pnl: 0n, positionSize: 0n, entryPrice: 0n };
+  const feeParams = { ...params, maintenanceFeePerSlot: 10n };
+
+  const early = feeStateAt(idle, 10n, 60n);
+  assert(early.accrued === 100n && early.feeCredits === 0n && early.capital === 1_000n, "credits pay first");
+  const later = feeStateAt(idle, 10n, 80n);
+  assert(later.capital === 800n && later.feeCredits === 0n && later.paidFromCapital === 200n, "then capital");
+  const drained = feeStateAt(idle, 10n, 500n);
+  assert(drained.capital === 0n && drained.feeCredits === -3_400n, "debt left once capital is gone");
+
+  assert(slotWhenFeesConsume(idle, 10n, 1_000n) === 160n, "capital gone after credits plus capital");
+  assert(slotWhenFeesConsume(idle, 0n, 1_000n) === null, "no fee never drains");
+  assert(slotWhenFeesConsume(idle, 10n, 1_001n) === null, "can't take more than the capital");
+
+  // Long 1000 at 1.0: 1000 notional, 50 maintenance, 950 above it
+  const positioned = { ...idle, positionSize: 1_000n, entryPrice: 1_000_000n };
+  const projected = feeProjection(positioned, feeParams, 1_000_000n, 60n);
+  assert(projected.liquidatableSlot === 155n && projected.capitalExhaustedSlot === 160n, "liquidatable before empty");
+  assert(feeStateAt(positioned, 10n, 155n).capital === 50n, "at maintenance exactly then");
+  assert(feeProjection({ ...positioned, pnl: 2_000n }, feeParams, 1_000_000n, 60n).liquidatableSlot === null, "PnL covers it");
+  assert(feeProjection(idle, feeParams, 1_000_000n, 60n).liquidatableSlot === null, "flat is never liquidatable");
+  const unpriced = feeProjection(positioned, feeParams, null, 60n);
+  assert(unpriced.liquidatableSlot === null && unpriced.capitalExhaustedSlot === 160n, "capital projection needs no price");
+  console.log("✓ maintenance fees");
+}
+
+// Test feed prices: inversion, unit scaling, and the liquidation price as a feed price
+{
+  assert(toEnginePrice(150_000_000n, { invert: 0, unitScale: 0 }) === 150_000_000n, "plain");
+  assert(toEnginePrice(150_000_000n, { invert: 1, unitScale: 0 }) === 6666n, "inverted");
+  assert(toEnginePrice(150_000_000n, { invert: 0, unitScale: 1000 }) === 150_000n, "scaled");
+
+  // Long the inverted index: liquidated when the feed price rises
+  const inverted = { invert: 1, unitScale: 0 };
+  const toEngine = (p: bigint) => toEnginePrice(p, inverted);
+  const liqFeed = liquidationPrice(long, params, toEngine)!;
+  assert(accountHealth(long, params, toEngine(liqFeed)).liquidatable, "liquidatable at the feed price");
+  assert(!accountHealth(long, params, toEngine(liqFeed - 1n)).liquidatable, "safe just below it");
+  console.log("✓ feed price conversion");
+}
+
+// Test oracle account parsing
+{
+  const pyth = Buffer.alloc(134);
+  pyth.writeBigInt64LE(15_012_345_678n, 74); // 150.12345678 at expo -8
+  pyth.writeInt32LE(-8, 90);
+  pyth.writeBigInt64LE(1_700_000_000n, 94);
+  const p = parseOraclePrice({ owner: PYTH_RECEIVER_PROGRAM_ID, data: pyth, lamports: 1, executable: false });
+  assert(p.kind === "pyth" && p.priceE6 === 150_123_456n && p.publishTime === 1_700_000_000n, "Pyth price update");
+
+  const chainlink = Buffer.alloc(224);
+  chainlink.writeUInt8(8, 138);
+  chainlink.writeBigUInt64LE(1_700_000_001n, 208);
+  chainlink.writeBigInt64LE(14_350_000_000n, 216);
+  const c = parseOraclePrice({ owner: CHAINLINK_STORE_PROGRAM_ID, data: chainlink, lamports: 1, executable: false });
+  assert(c.kind === "chainlink" && c.priceE6 === 143_500_000n && c.publishTime === 1_700_000_001n, "Chainlink feed");
+
+  const other: AccountInfo<Buffer> = { owner: PublicKey.unique(), data: chainlink, lamports: 1, executable: false };
+  let threw = false;
+  try {
+    parseOraclePrice(other);
+  } catch (e) {
+    threw = e instanceof Error && e.message.includes("Unsupported oracle owner");
+  }
+  assert(threw, "rejects unknown owners");
+  console.log("✓ oracle parsing");
+}
+
+console.log("\n✅ All health tests passed!");
@@ -0,0 +1,162 @@
+import { readFileSync } from "node:fs";
+import { PublicKey } from "@solana/web3.js";
+import {
+  IX_TAG,
+  encodeInitMarket,
+  encodeInitUser,
+  encodeInitLP,
+  encodeDepositCollateral,
+  encodeWithdrawCollateral,
+  encodeKeeperCrank,
+  encodeTradeNoCpi,
+  encodeLiquidateAtOracle,
+  encodeCloseAccount,
+  encodeTopUpInsurance,
+  encodeTradeCpi,
+  encodeSetRiskThreshold,
+  encodeUpdateAdmin,
+  encodeCloseSlab,
+  encodeUpdateConfig,
+  encodeSetMaintenanceFee,
+  encodeSetOracleAuthority,
+  encodePushOraclePrice,
+  encodeSetOraclePriceCap,
+  encodeResolveMarket,
+  encodeWithdrawInsurance,
+} from "../src/abi/instructions.js";
+import { decodeInstruction, INSTRUCTION_ARGS, ArgType } from "../src/abi/decode.js";
+import { buildIdl, diffIdl, toSnakeCase, IdlType, IdlTypeDef } from "../src/abi/idl.js";
+import { CURRENT_SLAB_LAYOUT } from "../src/solana/slab.js";
+
+function assert(cond: boolean, msg: string): void {
+  if (!cond) throw new Error(`FAIL: ${msg}`);
+}
+
+console.log("Testing IDL generation...\n");
+
+// Every encoder, keyed by instruction name
+const ENCODERS = {
+  InitMarket: encodeInitMarket,
+  InitUser: encodeInitUser,
+  InitLP: encodeInitLP,
+  DepositCollateral: encodeDepositCollateral,
+  WithdrawCollateral: encodeWithdrawCollateral,
+  KeeperCrank: encodeKeeperCrank,
+  TradeNoCpi: encodeTradeNoCpi,
+  LiquidateAtOracle: encodeLiquidateAtOracle,
+  CloseAccount: encodeCloseAccount,
+  TopUpInsurance: encodeTopUpInsurance,
+  TradeCpi: encodeTradeCpi,
+  SetRiskThreshold: encodeSetRiskThreshold,
+  UpdateAdmin: encodeUpdateAdmin,
+  CloseSlab: encodeCloseSlab,
+  UpdateConfig: encodeUpdateConfig,
+  SetMaintenanceFee: encodeSetMaintenanceFee,
+  SetOracleAuthority: encodeSetOracleAuthority,
+  PushOraclePrice: encodePushOraclePrice,
+  SetOraclePriceCap: encodeSetOraclePriceCap,
+  ResolveMarket: encodeResolveMarket,
+  WithdrawInsurance: encodeWithdrawInsurance,
+} satisfies Record<keyof typeof IX_TAG, (...args: never[]) => Buffer>;
+
+// Each encoder's argument list, by instruction name
+type EncoderArgs = { [K in keyof typeof ENCODERS]: Parameters<(typeof ENCODERS)[K]> };
+
+// Args are built from the spec at runtime, so their shape is what the test
+// checks; encoders without args ignore them
+function encode<K extends keyof typeof ENCODERS>(name: K, args: Record<string, unknown>): Buffer {
+  const encoder = ENCODERS[name] as (...args: EncoderArgs[K]) => Buffer;
+  return encoder(...([args] as unknown as EncoderArgs[K]));
+}
+
+function sample(type: ArgType, i: number): unknown {
+  switch (type) {
+    case "u8": return 1 + (i % 200);
+    case "u16": return 300 + i;
+    case "u32": return 70000 + i;
+    case "u64": return BigInt(i + 1) << 40n;
+    case "i64": return -(BigInt(i + 1) << 40n);
+    case "u128": return BigInt(i + 1) << 100n;
+    case "i128": return -(BigInt(i + 1) << 100n);
+    case "bool": return true;
+    case "pubkey": return PublicKey.unique();
+    case "bytes32": return "ab".repeat(31) + i.toString(16).padStart(2, "0");
+  }
+}
+
+// Test the arg specs against the encoders: an arg the spec misses, or one of
+// the wrong width, makes the encoder throw or the decode fail/mismatch
+{
+  for (const [name, tag] of Object.entries(IX_TAG) as [keyof typeof IX_TAG, number][]) {
+    const fields = INSTRUCTION_ARGS[tag];
+    assert(fields !== undefined, `${name} has an arg spec`);
+
+    const args: Record<string, unknown> = {};
+    fields.forEach((f, i) => (args[f.name] = sample(f.type, i)));
+    const decoded = decodeInstruction(encode(name, args), []);
+    assert(decoded.name === name, `${name} decodes to its own tag`);
+
+    const out = decoded.args as Record<string, unknown>;
+    assert(Object.keys(out).length === fields.length, `${name} decodes every field`);
+    for (const f of fields) {
+      const expected = args[f.name];
+      const actual = out[f.name];
+      const same =
+        expected instanceof PublicKey ? (actual as PublicKey).equals(expected) : actual === expected;
+      assert(same, `${name}.${f.name} round-trips through the encoder`);
+    }
+  }
+  console.log("✓ instruction arg specs match the encoders");
+}
+
+// Test snake_case conversion
+{
+  assert(toSnakeCase("InitLP") === "init_lp", "InitLP");
+  assert(toSnakeCase("TradeNoCpi") === "trade_no_cpi", "TradeNoCpi");
+  assert(toSnakeCase("fundingKBps") === "funding_k_bps", "fundingKBps");
+  assert(toSnakeCase("priceE6") === "price_e6", "priceE6");
+  assert(toSnakeCase("maxChangeE2bps") === "max_change_e2bps", "maxChangeE2bps");
+  assert(toSnakeCase("cTot") === "c_tot", "cTot");
+  console.log("✓ toSnakeCase");
+}
+
+// Test the type definitions keep the schemas' sizes
+{
+  const idl = buildIdl();
+  const types = new Map(idl.types.map((t) => [t.name, t]));
+  const scalar: Record<string, number> = { u8: 1, u16: 2, u32: 4, u64: 8, i64: 8, u128: 16, i128: 16, pubkey: 32 };
+
+  const sizeOf = (type: IdlType): number => {
+    if (typeof type === "string") return scalar[type];
+    if ("array" in type) return sizeOf(type.array[0]) * type.array[1];
+    return structSize(types.get(type.defined.name)!);
+  };
+  const structSize = (def: IdlTypeDef) => def.type.fields.reduce((sum, f) => sum + sizeOf(f.type), 0);
+
+  assert(structSize(types.get("SlabHeader")!) === CURRENT_SLAB_LAYOUT.header.size, "SlabHeader size");
+  assert(structSize(types.get("MarketConfig")!) === CURRENT_SLAB_LAYOUT.config.size, "MarketConfig size");
+  assert(structSize(types.get("RiskParams")!) === CURRENT_SLAB_LAYOUT.params.size, "RiskParams size");
+  assert(structSize(types.get("EngineState")!) === CURRENT_SLAB_LAYOUT.engine.size, "EngineState size");
+  assert(structSize(types.get("Account")!) === CURRENT_SLAB_LAYOUT.account.size, "Account size");
+
+  const engine = types.get("EngineState")!.type.fields;
+  assert(engine.some((f) => f.name === "params"), "engine params are named");
+  assert(engine.some((f) => f.name === "used"), "engine bitmap is named");
+  assert(Buffer.from(idl.accounts[0].discriminator).equals(Buffer.from("TALOCREP")), "slab discriminator is the magic");
+  console.log("✓ type definitions");
+}
+
+// Test the committed IDL is up to date (regenerate with `percolator-cli idl --out idl/percolator.json`)
+{
+  const saved = JSON.parse(readFileSync(new URL("../idl/percolator.json", import.meta.url), "utf-8"));
+  const diffs = diffIdl(buildIdl(saved.address), saved);
+  assert(diffs.length === 0, `idl/percolator.json is stale at: ${diffs.join(", ")}`);
+
+  const changed = structuredClone(saved);
+  changed.instructions[3].args[1].type = "u128";
+  const drift = diffIdl(buildIdl(saved.address), changed);
+  assert(drift.length === 1 && drift[0] === "instructions[3].args[1].type", "diffIdl reports the changed path");
+  console.log("✓ idl/percolator.json matches");
+}
+
+console.log("\n✅ All IDL tests passed!");
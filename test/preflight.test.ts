@@ -0,0 +1,190 @@
+import { AccountInfo, Keypair, PublicKey } from "@solana/web3.js";
+import { AccountLayout, TOKEN_PROGRAM_ID } from "@solana/spl-token";
+import { buildCheckedAccountMetas, assertAccountIndices, PreflightError, IndexCheck } from "../src/runtime/preflight.js";
+import { Context } from "../src/runtime/context.js";
+import { ACCOUNTS_DEPOSIT_COLLATERAL, ACCOUNTS_SET_RISK_THRESHOLD, WELL_KNOWN } from "../src/abi/accounts.js";
+import { deriveVaultAuthority } from "../src/solana/pda.js";
+import { buildSlab, AccountKind, maxAccountIndex, slabLayout } from "../src/solana/slab.js";
+
+function assert(cond: boolean, msg: string): void {
+  if (!cond) throw new Error(`FAIL: ${msg}`);
+}
+
+console.log("Testing preflight checks...\n");
+
+const programId = PublicKey.unique();
+const payer = Keypair.generate();
+const slab = PublicKey.unique();
+const mint = PublicKey.unique();
+const vault = PublicKey.unique();
+const userAta = PublicKey.unique();
+const [vaultAuthority] = deriveVaultAuthority(programId, slab);
+
+function info(owner: PublicKey, data: Buffer): AccountInfo<Buffer> {
+  return { owner, data, lamports: 1, executable: false };
+}
+
+function tokenAccount(tokenMint: PublicKey, owner: PublicKey): AccountInfo<Buffer> {
+  const data = Buffer.alloc(AccountLayout.span);
+  AccountLayout.encode(
+    {
+      mint: tokenMint,
+      owner,
+      amount: 0n,
+      delegateOption: 0,
+      delegate: PublicKey.default,
+      state: 1,
+      isNativeOption: 0,
+      isNative: 0n,
+      delegatedAmount: 0n,
+      closeAuthorityOption: 0,
+      closeAuthority: PublicKey.default,
+    },
+    data
+  );
+  return info(TOKEN_PROGRAM_ID, data);
+}
+
+const slabData = buildSlab({
+  config: { collateralMint: mint, vaultPubkey: vault },
+  accounts: [
+    { idx: 0, account: { kind: AccountKind.LP, owner: payer.publicKey } },
+    { idx: 3, account: { kind: AccountKind.User, owner: payer.publicKey, accountId: 42n } },
+  ],
+});
+
+// A context whose connection serves the given accounts
+function mockCtx(accounts: Map<string, AccountInfo<Buffer> | null>, preflight = true): Context {
+  const connection = {
+    getMultipleAccountsInfo: async (keys: PublicKey[]) => keys.map((k) => accounts.get(k.toBase58()) ?? null),
+  };
+  return { connection, payer, programId, preflight } as unknown as Context;
+}
+
+function chain(overrides: Record<string, AccountInfo<Buffer> | null> = {}): Map<string, AccountInfo<Buffer> | null> {
+  const accounts = new Map<string, AccountInfo<Buffer> | null>([
+    [slab.toBase58(), info(programId, slabData)],
+    [vault.toBase58(), tokenAccount(mint, vaultAuthority)],
+    [userAta.toBase58(), tokenAccount(mint, payer.publicKey)],
+  ]);
+  for (const [k, v] of Object.entries(overrides)) accounts.set(k, v);
+  return accounts;
+}
+
+const depositKeys = [payer.publicKey, slab, userAta, vault, WELL_KNOWN.tokenProgram, WELL_KNOWN.clock];
+
+async function problems(
+  accounts: Map<string, AccountInfo<Buffer> | null>,
+  keys: PublicKey[] = depositKeys,
+  indices: IndexCheck[] = [{ idx: 3, flag: "--user-idx", kind: AccountKind.User }]
+): Promise<string[]> {
+  try {
+    await buildCheckedAccountMetas(mockCtx(accounts), ACCOUNTS_DEPOSIT_COLLATERAL, keys, indices);
+    return [];
+  } catch (e) {
+    if (!(e instanceof PreflightError)) throw e;
+    return e.problems;
+  }
+}
+
+// Test a well-formed instruction passes
+{
+  const metas = await buildCheckedAccountMetas(mockCtx(chain()), ACCOUNTS_DEPOSIT_COLLATERAL, depositKeys, [
+    { idx: 3, flag: "--user-idx", kind: AccountKind.User },
+  ]);
+  assert(metas.length === ACCOUNTS_DEPOSIT_COLLATERAL.length && metas[1].isWritable, "returns the account metas");
+  console.log("✓ valid accounts pass");
+}
+
+// Test slab checks
+{
+  let p = await problems(chain({ [slab.toBase58()]: null }));
+  assert(p.length === 1 && p[0].includes("does not exist"), "missing slab");
+
+  p = await problems(chain({ [slab.toBase58()]: info(PublicKey.unique(), slabData) }));
+  assert(p.length === 1 && p[0].includes("not the Percolator program"), "slab owned by another program");
+
+  p = await problems(chain({ [slab.toBase58()]: info(programId, Buffer.alloc(slabData.length)) }));
+  assert(p.length === 1 && p[0].includes("not a valid market"), "bad magic");
+  console.log("✓ slab owner and magic");
+}
+
+// Test vault and token account checks
+{
+  const otherVault = PublicKey.unique();
+  let p = await problems(chain({ [otherVault.toBase58()]: tokenAccount(mint, vaultAuthority) }), [
+    payer.publicKey, slab, userAta, otherVault, WELL_KNOWN.tokenProgram, WELL_KNOWN.clock,
+  ]);
+  assert(p.length === 1 && p[0].includes("not this market's vault"), "wrong vault key");
+
+  p = await problems(chain({ [vault.toBase58()]: tokenAccount(mint, PublicKey.unique()) }));
+  assert(p.length === 1 && p[0].includes("not the market's vault PDA"), "vault not owned by the vault PDA");
+
+  p = await problems(chain({ [userAta.toBase58()]: null }));
+  assert(p.length === 1 && p[0].includes("does not exist"), "missing user ATA");
+
+  p = await problems(chain({ [userAta.toBase58()]: tokenAccount(PublicKey.unique(), payer.publicKey) }));
+  assert(p.length === 1 && p[0].includes("collateral mint"), "user ATA for another mint");
+  console.log("✓ vault and token accounts");
+}
+
+// Test index checks, all reported together
+{
+  const p = await problems(chain({ [userAta.toBase58()]: null }), depositKeys, [
+    { idx: 0, flag: "--user-idx", kind: AccountKind.User },
+    { idx: 7, flag: "--lp-idx" },
+    { idx: 5000, flag: "--target-idx" },
+  ]);
+  assert(p.length === 4, "every problem is reported");
+  assert(p.some((m) => m.includes("--user-idx 0 is an LP account, not a User account")), "wrong account kind");
+  assert(p.some((m) => m.includes("--lp-idx 7 is not an open account")), "unused index");
+  assert(p.some((m) => m.includes("--target-idx 5000 is out of range")), "index out of range");
+
+  const count = maxAccountIndex(slabData.length, slabLayout(slabData));
+  const edge = await problems(chain(), depositKeys, [{ idx: count, flag: "--target-idx" }]);
+  assert(
+    edge.length === 1 && edge[0].includes(`--target-idx ${count} is out of range for this slab (max ${count - 1})`),
+    "first index past the end is out of range"
+  );
+  console.log("✓ account indices");
+}
+
+// Test the ownership guard against reused slots
+{
+  const stranger = PublicKey.unique();
+  let p = await problems(chain(), depositKeys, [{ idx: 3, flag: "--user-idx", owner: stranger }]);
+  assert(p.length === 1 && p[0].includes(`belongs to ${payer.publicKey.toBase58()}, not ${stranger.toBase58()}`), "owner mismatch");
+
+  p = await problems(chain(), depositKeys, [{ idx: 3, flag: "--user-idx", owner: payer.publicKey, accountId: 42n }]);
+  assert(p.length === 0, "matching owner and account ID pass");
+
+  p = await problems(chain(), depositKeys, [{ idx: 3, flag: "--user-idx", owner: payer.publicKey, accountId: 7n }]);
+  assert(p.length === 1 && p[0].includes("now holds account ID 42, not 7"), "account ID mismatch");
+
+  // Checked on the command's own slab data, whether or not preflight runs
+  assertAccountIndices(slabData, [{ idx: 3, flag: "--user-idx", owner: payer.publicKey, accountId: 42n }]);
+  let message = "";
+  try {
+    assertAccountIndices(slabData, [{ idx: 3, flag: "--user-idx", owner: stranger }]);
+  } catch (e) {
+    message = e instanceof Error ? e.message : String(e);
+  }
+  assert(message.includes("nothing was sent") && message.includes(`not ${stranger.toBase58()}`), "assert rejects another owner");
+  assert(!message.includes("--skip-preflight"), "assert can't be skipped");
+  console.log("✓ owner and account ID");
+}
+
+// Test skipping: admin instructions check only the slab, and --skip-preflight checks nothing
+{
+  const adminKeys = [payer.publicKey, slab];
+  const metas = await buildCheckedAccountMetas(mockCtx(chain()), ACCOUNTS_SET_RISK_THRESHOLD, adminKeys);
+  assert(metas.length === 2, "slab-only instruction passes");
+
+  const skipped = await buildCheckedAccountMetas(mockCtx(new Map(), false), ACCOUNTS_DEPOSIT_COLLATERAL, depositKeys, [
+    { idx: 9, flag: "--user-idx" },
+  ]);
+  assert(skipped.length === depositKeys.length, "disabled preflight builds metas without fetching");
+  console.log("✓ skip preflight");
+}
+
+console.log("\n✅ All preflight tests passed!");
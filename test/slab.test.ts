@@ -9,6 +9,16 @@ import {
   parseParams,
   parseUsedIndices,
   isAccountUsed,
+  findAccountsByOwner,
+  findUserIdx,
+  slabLayout,
+  CURRENT_SLAB_LAYOUT,
+  SLAB_SIZE,
+  writeHeader,
+  writeConfig,
+  writeEngine,
+  writeAccount,
+  buildSlab,
   AccountKind,
 } from "../src/solana/slab.js";
 
@@ -18,52 +28,34 @@ function assert(cond: boolean, msg: string): void {
 
 console.log("Testing slab parsing...\n");
 
-// Create a mock slab buffer
+// Pubkey with a recognizable first byte
+function key(firstByte: number): PublicKey {
+  const bytes = Buffer.alloc(32);
+  bytes[0] = firstByte;
+  return new PublicKey(bytes);
+}
+
+// Create a mock slab buffer (header + config only)
 function createMockSlab(): Buffer {
-  const buf = Buffer.alloc(400);  // HEADER_LEN(72) + CONFIG_LEN(256) = 328 minimum
-
-  // Header (72 bytes)
-  // magic: "PERCOLAT" = 0x504552434f4c4154
-  buf.writeBigUInt64LE(0x504552434f4c4154n, 0);
-  // version: 1
-  buf.writeUInt32LE(1, 8);
-  // bump: 255
-  buf.writeUInt8(255, 12);
-  // padding: 3 bytes (skip)
-  // admin: 32 bytes (use zeros, which is valid as a pubkey)
-  const adminBytes = Buffer.alloc(32);
-  adminBytes[0] = 1; // Make it non-zero
-  adminBytes.copy(buf, 16);
-  // reserved: nonce at [48..56], lastThrUpdateSlot at [56..64], then 8 more bytes padding to 72
-  buf.writeBigUInt64LE(42n, 48); // nonce = 42
-  buf.writeBigUInt64LE(12345n, 56); // lastThrUpdateSlot = 12345
-
-  // MarketConfig (starting at offset 72)
-  // Layout: collateral_mint(32) + vault_pubkey(32) + index_feed_id(32)
-  //         + max_staleness_secs(8) + conf_filter_bps(2) + vault_authority_bump(1) + invert(1) + unit_scale(4)
-
-  // collateralMint: 32 bytes at offset 72
-  const mintBytes = Buffer.alloc(32);
-  mintBytes[0] = 2;
-  mintBytes.copy(buf, 72);
-  // vaultPubkey: 32 bytes at offset 104
-  const vaultBytes = Buffer.alloc(32);
-  vaultBytes[0] = 3;
-  vaultBytes.copy(buf, 104);
-  // index_feed_id: 32 bytes at offset 136
-  const feedIdBytes = Buffer.alloc(32);
-  feedIdBytes[0] = 5;
-  feedIdBytes.copy(buf, 136);
-  // maxStalenessSlots: u64 at offset 168
-  buf.writeBigUInt64LE(100n, 168);
-  // confFilterBps: u16 at offset 176
-  buf.writeUInt16LE(50, 176);
-  // vaultAuthorityBump: u8 at offset 178
-  buf.writeUInt8(254, 178);
-  // invert: u8 at offset 179
-  buf.writeUInt8(1, 179);
-  // unitScale: u32 at offset 180
-  buf.writeUInt32LE(0, 180);
+  const buf = Buffer.alloc(400);  // HEADER_LEN(72) + CONFIG_LEN(320) = 392 minimum
+
+  writeHeader(buf, {
+    version: 1,
+    bump: 255,
+    admin: key(1),
+    nonce: 42n,
+    lastThrUpdateSlot: 12345n,
+  });
+  writeConfig(buf, {
+    collateralMint: key(2),
+    vaultPubkey: key(3),
+    indexFeedId: key(5),
+    maxStalenessSlots: 100n,
+    confFilterBps: 50,
+    vaultAuthorityBump: 254,
+    invert: 1,
+    unitScale: 0,
+  });
 
   return buf;
 }
@@ -149,6 +141,23 @@ function createMockSlab(): Buffer {
   console.log("✓ parseHeader rejects short buffer");
 }
 
+// Test layout resolution by version
+{
+  const slab = createMockSlab();
+  assert(slabLayout(slab) === CURRENT_SLAB_LAYOUT, "version 1 resolves to the current layout");
+  assert(SLAB_SIZE === CURRENT_SLAB_LAYOUT.slabLen, "SLAB_SIZE is the current layout's size");
+
+  slab.writeUInt32LE(99, 8); // Unknown version
+  let message = "";
+  try {
+    parseConfig(slab);
+  } catch (e) {
+    message = (e as Error).message;
+  }
+  assert(message.includes("Unsupported slab version 99"), "parseConfig rejects unknown version");
+  console.log("✓ slabLayout");
+}
+
 console.log("\n✅ All basic slab tests passed!");
 
 // =============================================================================
@@ -174,81 +183,65 @@ const ACCT_MATCHER_PROGRAM_OFF = 120;
 const ACCT_MATCHER_CONTEXT_OFF = 152;
 const ACCT_OWNER_OFF = 184;
 
-// Helper to write u128 as two u64s
-function writeU128LE(buf: Buffer, offset: number, value: bigint): void {
-  const lo = value & BigInt("0xFFFFFFFFFFFFFFFF");
-  const hi = (value >> 64n) & BigInt("0xFFFFFFFFFFFFFFFF");
-  buf.writeBigUInt64LE(lo, offset);
-  buf.writeBigUInt64LE(hi, offset + 8);
-}
-
-// Helper to write i128 as two u64s
-function writeI128LE(buf: Buffer, offset: number, value: bigint): void {
-  if (value < 0n) {
-    value = (1n << 128n) + value;  // Convert to unsigned
-  }
-  writeU128LE(buf, offset, value);
-}
-
 // Create a full mock slab with accounts
 function createFullMockSlab(): Buffer {
   // Need enough space for header + config + engine + bitmap + accounts
   const minSize = ENGINE_OFF + ENGINE_ACCOUNTS_OFF + ACCOUNT_SIZE * 4;
   const buf = Buffer.alloc(minSize);
 
-  // Header (72 bytes)
-  buf.writeBigUInt64LE(0x504552434f4c4154n, 0);  // magic
-  buf.writeUInt32LE(1, 8);  // version
-  buf.writeUInt8(255, 12);  // bump
-  const adminBytes = Buffer.alloc(32);
-  adminBytes[0] = 1;
-  adminBytes.copy(buf, 16);
-  buf.writeBigUInt64LE(42n, 48);  // nonce
-  buf.writeBigUInt64LE(12345n, 56);  // lastThrUpdateSlot
-
-  // MarketConfig - simplified (starts at offset 72)
-  const mintBytes = Buffer.alloc(32);
-  mintBytes[0] = 2;
-  mintBytes.copy(buf, 72);
-
-  // Set bitmap - mark accounts 0 and 1 as used
-  const bitmapOffset = ENGINE_OFF + ENGINE_BITMAP_OFF;
-  buf.writeBigUInt64LE(3n, bitmapOffset);  // bits 0 and 1 set
-
-  // Create account at index 0 (LP)
-  const acc0Base = ENGINE_OFF + ENGINE_ACCOUNTS_OFF + 0 * ACCOUNT_SIZE;
-  buf.writeBigUInt64LE(100n, acc0Base + ACCT_ACCOUNT_ID_OFF);  // accountId
-  writeU128LE(buf, acc0Base + ACCT_CAPITAL_OFF, 1000000000n);  // capital: 1 SOL
-  buf.writeUInt8(1, acc0Base + ACCT_KIND_OFF);  // kind: LP (1)
-  writeI128LE(buf, acc0Base + ACCT_PNL_OFF, 0n);  // pnl: 0
-  writeI128LE(buf, acc0Base + ACCT_POSITION_SIZE_OFF, 0n);  // position: 0
-  buf.writeBigUInt64LE(150000000n, acc0Base + ACCT_ENTRY_PRICE_OFF);  // entry price: $150
-  // Set matcher_program (non-zero for LP)
-  const matcherProg = Buffer.alloc(32);
-  matcherProg[0] = 0xAA;
-  matcherProg.copy(buf, acc0Base + ACCT_MATCHER_PROGRAM_OFF);
-  // Set owner
-  const owner0 = Buffer.alloc(32);
-  owner0[0] = 0x11;
-  owner0.copy(buf, acc0Base + ACCT_OWNER_OFF);
-
-  // Create account at index 1 (User)
-  const acc1Base = ENGINE_OFF + ENGINE_ACCOUNTS_OFF + 1 * ACCOUNT_SIZE;
-  buf.writeBigUInt64LE(101n, acc1Base + ACCT_ACCOUNT_ID_OFF);  // accountId
-  writeU128LE(buf, acc1Base + ACCT_CAPITAL_OFF, 500000000n);  // capital: 0.5 SOL
-  buf.writeUInt8(0, acc1Base + ACCT_KIND_OFF);  // kind: User (0)
-  writeI128LE(buf, acc1Base + ACCT_PNL_OFF, -100000n);  // pnl: -0.0001 SOL
-  writeI128LE(buf, acc1Base + ACCT_POSITION_SIZE_OFF, 1000000n);  // position: 1M units
-  buf.writeBigUInt64LE(145000000n, acc1Base + ACCT_ENTRY_PRICE_OFF);  // entry price: $145
-  // matcher_program stays zero (User accounts don't have matchers)
-  // Set owner
-  const owner1 = Buffer.alloc(32);
-  owner1[0] = 0x22;
-  owner1.copy(buf, acc1Base + ACCT_OWNER_OFF);
+  writeHeader(buf, { version: 1, bump: 255, admin: key(1), nonce: 42n, lastThrUpdateSlot: 12345n });
+  writeConfig(buf, { collateralMint: key(2) });
+
+  // Account 0: LP with a matcher
+  writeAccount(buf, 0, {
+    accountId: 100n,
+    capital: 1000000000n,   // 1 SOL
+    kind: AccountKind.LP,
+    pnl: 0n,
+    positionSize: 0n,
+    entryPrice: 150000000n, // $150
+    matcherProgram: key(0xaa),
+    owner: key(0x11),
+  });
+
+  // Account 1: User (no matcher)
+  writeAccount(buf, 1, {
+    accountId: 101n,
+    capital: 500000000n,    // 0.5 SOL
+    kind: AccountKind.User,
+    pnl: -100000n,          // -0.0001 SOL
+    positionSize: 1000000n, // 1M units
+    entryPrice: 145000000n, // $145
+    owner: key(0x22),
+  });
 
   return buf;
 }
 
+// Test writers against the raw byte layout
+{
+  const slab = createFullMockSlab();
+  assert(slab.readBigUInt64LE(0) === 0x504552434f4c4154n, "magic at offset 0");
+  assert(slab.readUInt32LE(8) === 1, "version at offset 8");
+  assert(slab.readBigUInt64LE(48) === 42n, "nonce at offset 48");
+  assert(slab[72] === 2, "collateral mint at offset 72");
+  assert(slab.readBigUInt64LE(ENGINE_OFF + ENGINE_BITMAP_OFF) === 3n, "bitmap marks accounts 0 and 1");
+
+  const acc1Base = ENGINE_OFF + ENGINE_ACCOUNTS_OFF + 1 * ACCOUNT_SIZE;
+  assert(slab.readBigUInt64LE(acc1Base + ACCT_ACCOUNT_ID_OFF) === 101n, "accountId offset");
+  assert(slab.readBigUInt64LE(acc1Base + ACCT_CAPITAL_OFF) === 500000000n, "capital offset");
+  assert(slab[acc1Base + ACCT_KIND_OFF] === 0, "kind offset");
+  assert(slab.readBigInt64LE(acc1Base + ACCT_PNL_OFF) === -100000n, "pnl offset (low half)");
+  assert(slab.readBigInt64LE(acc1Base + ACCT_PNL_OFF + 8) === -1n, "pnl offset (sign-extended high half)");
+  assert(slab.readBigUInt64LE(acc1Base + ACCT_POSITION_SIZE_OFF) === 1000000n, "position offset");
+  assert(slab.readBigUInt64LE(acc1Base + ACCT_ENTRY_PRICE_OFF) === 145000000n, "entry price offset");
+  assert(slab[acc1Base + ACCT_OWNER_OFF] === 0x22, "owner offset");
+  assert(slab[ENGINE_OFF + ENGINE_ACCOUNTS_OFF + ACCT_MATCHER_PROGRAM_OFF] === 0xaa, "matcher program offset");
+  assert(slab[ENGINE_OFF + ENGINE_ACCOUNTS_OFF + ACCT_MATCHER_CONTEXT_OFF] === 0, "matcher context offset");
+
+  console.log("✓ writers match the byte layout");
+}
+
 // Test account kind parsing
 {
   const slab = createFullMockSlab();
@@ -337,6 +330,82 @@ function createFullMockSlab(): Buffer {
   console.log("✓ parseAccount rejects negative index");
 }
 
+// Test owner lookup
+{
+  const slab = createFullMockSlab();
+  const lpOwner = key(0x11);
+  const userOwner = key(0x22);
+
+  assert(findAccountsByOwner(slab, lpOwner).length === 1, "LP owner has one account");
+  assert(findAccountsByOwner(slab, lpOwner, AccountKind.User).length === 0, "LP owner has no User account");
+  assert(findUserIdx(slab, userOwner) === 1, "findUserIdx finds the single User account");
+
+  let threw = false;
+  try {
+    findUserIdx(slab, lpOwner);
+  } catch {
+    threw = true;
+  }
+  assert(threw, "findUserIdx throws when the owner has no User account");
+
+  // Second User account (index 2) for the same owner
+  writeAccount(slab, 2, { kind: AccountKind.User, owner: userOwner });
+
+  let message = "";
+  try {
+    findUserIdx(slab, userOwner);
+  } catch (e) {
+    message = (e as Error).message;
+  }
+  assert(message.includes("owns 2 User accounts"), "findUserIdx rejects several matches");
+  assert(message.includes("  1  ") && message.includes("  2  "), "findUserIdx lists the matches");
+
+  console.log("✓ findAccountsByOwner / findUserIdx");
+}
+
+// Test round-trip through a full-size synthetic slab
+{
+  const slab = buildSlab({
+    config: { collateralMint: key(2), unitScale: 1000, fundingInvScaleNotionalE6: -5n, authorityTimestamp: -1n },
+    params: { maintenanceMarginBps: 500n, maintenanceFeePerSlot: (1n << 100n) + 7n },
+    engine: { vault: 123n, insuranceFund: { balance: 9n, feeRevenue: 4n }, fundingRateBpsPerSlotLast: -3n, cTot: 77n },
+    accounts: [
+      { idx: 5, account: { kind: AccountKind.User, capital: 10n, owner: key(0x33) } },
+      { idx: 130, account: { kind: AccountKind.LP, positionSize: -(1n << 120n) } },
+    ],
+  });
+
+  assert(slab.length === SLAB_SIZE, "buildSlab allocates the full slab");
+  assert(parseHeader(slab).version === CURRENT_SLAB_LAYOUT.version, "buildSlab writes the layout version");
+
+  const config = parseConfig(slab);
+  assert(config.unitScale === 1000, "config unitScale round-trips");
+  assert(config.fundingInvScaleNotionalE6 === -5n, "config i128 round-trips");
+  assert(config.authorityTimestamp === -1n, "config i64 round-trips");
+
+  const params = parseParams(slab);
+  assert(params.maintenanceMarginBps === 500n, "params u64 round-trips");
+  assert(params.maintenanceFeePerSlot === (1n << 100n) + 7n, "params u128 round-trips");
+
+  const engine = parseEngine(slab);
+  assert(engine.vault === 123n, "engine vault round-trips");
+  assert(engine.insuranceFund.balance === 9n && engine.insuranceFund.feeRevenue === 4n, "nested insurance fund round-trips");
+  assert(engine.fundingRateBpsPerSlotLast === -3n, "engine i64 round-trips");
+  assert(engine.cTot === 77n, "engine cTot round-trips");
+  assert(engine.numUsedAccounts === 2, "numUsedAccounts defaults to the account count");
+
+  assert(parseUsedIndices(slab).join(",") === "5,130", "bitmap marks written accounts");
+  assert(parseAccount(slab, 5).owner.equals(key(0x33)), "account owner round-trips");
+  assert(parseAccount(slab, 130).kind === AccountKind.LP, "LP account kind round-trips");
+  assert(parseAccount(slab, 130).positionSize === -(1n << 120n), "account i128 round-trips");
+
+  // Writers leave fields they weren't given alone
+  writeEngine(slab, { cTot: 78n });
+  assert(parseEngine(slab).vault === 123n && parseEngine(slab).cTot === 78n, "partial write keeps other fields");
+
+  console.log("✓ buildSlab / parse round-trip");
+}
+
 console.log("\n✅ All account tests passed!");
 
 console.log("\n✅ All slab tests passed!");
@@ -11,6 +11,7 @@ import {
   validateI128,
   validateBps,
   validateU16,
+  validateDecimal,
   ValidationError,
 } from "../src/validation.js";
 
@@ -140,6 +141,21 @@ console.log("Testing validation functions...\n");
   console.log("✓ validateBps");
 }
 
+// validateDecimal tests
+{
+  assert(validateDecimal("1.5", 9, "--fee") === 1_500_000_000n, "scales fractional value");
+  assert(validateDecimal("2", 4, "--fee") === 20_000n, "scales whole value");
+  assert(validateDecimal(".25", 2, "--fee") === 25n, "accepts leading decimal point");
+  assert(validateDecimal("0", 6, "--fee") === 0n, "accepts zero");
+
+  assertThrows(() => validateDecimal("1.23", 1, "--fee"), "decimal places", "rejects too many decimals");
+  assertThrows(() => validateDecimal("-1", 6, "--fee"), "not a valid number", "rejects negative");
+  assertThrows(() => validateDecimal("abc", 6, "--fee"), "not a valid number", "rejects non-numeric");
+  assertThrows(() => validateDecimal(".", 6, "--fee"), "not a valid number", "rejects bare point");
+
+  console.log("✓ validateDecimal");
+}
+
 // ValidationError tests
 {
   const err = new ValidationError("--amount", "must be positive");
@@ -70,6 +70,7 @@ import {
   parseParams,
   parseAllAccounts,
   parseUsedIndices,
+  SLAB_SIZE,
   SlabHeader,
   MarketConfig,
   EngineState,
@@ -505,15 +506,11 @@ export class TestHarness {
 
   /**
    * Calculate required slab size for given max accounts.
-   * The program expects a fixed slab size of SLAB_LEN = 0xfa528 (992560 bytes)
-   * for MAX_ACCOUNTS=4096. The slab size must exactly match the program's expected size.
-   *
-   * SLAB_SIZE = ENGINE_OFF(376) + ENGINE_ACCOUNTS_OFF(9136) + MAX_ACCOUNTS(4096) * ACCOUNT_SIZE(248)
-   * Updated for haircut-ratio refactor (removed ADL scratch arrays).
+   * The program expects a fixed slab size (SLAB_LEN) for MAX_ACCOUNTS=4096,
+   * which must exactly match the current layout's size.
    */
   private calculateSlabSize(_maxAccounts: number): number {
-    // Fixed SLAB_LEN expected by the program (from error logs: 0xfa528)
-    return 992560;
+    return SLAB_SIZE;
   }
 
   // ==========================================================================
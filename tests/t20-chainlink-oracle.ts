@@ -27,7 +27,7 @@ import {
   buildAccountMetas,
 } from "../src/abi/accounts.js";
 import { deriveVaultAuthority } from "../src/solana/pda.js";
-import { parseHeader, parseConfig, parseEngine } from "../src/solana/slab.js";
+import { parseHeader, parseConfig, parseEngine, SLAB_SIZE } from "../src/solana/slab.js";
 import { buildIx } from "../src/runtime/tx.js";
 
 // Chainlink SOL/USD on devnet (actively updated!)
@@ -180,8 +180,7 @@ async function main() {
   });
 
   // Calculate rent
-  const slabSize = 992560;
-  const rentExempt = await connection.getMinimumBalanceForRentExemption(slabSize);
+  const rentExempt = await connection.getMinimumBalanceForRentExemption(SLAB_SIZE);
   console.log(`  Rent: ${(rentExempt / 1e9).toFixed(4)} SOL`);
 
   // Build transaction
@@ -193,7 +192,7 @@ async function main() {
     fromPubkey: payer.publicKey,
     newAccountPubkey: slabKp.publicKey,
     lamports: rentExempt,
-    space: slabSize,
+    space: SLAB_SIZE,
     programId: PROGRAM_ID,
   }));
 